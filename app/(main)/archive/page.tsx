@@ -0,0 +1,13 @@
+import ArchiveList from '@/components/archive/ArchiveList'
+import SectionBanner from '@/components/common/SectionBanner'
+
+export default function Archive() {
+  return (
+    <div className="flex flex-col items-center justify-center">
+      <SectionBanner title="Archive" description="CoMit이 지금까지 함께한 스터디와 행사를 소개합니다!" />
+      <div className="mb-20 w-full max-w-7xl px-4">
+        <ArchiveList />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,14 @@
+import ClubroomStatistics from '@/components/clubroom/ClubroomStatistics'
+import SectionBanner from '@/components/common/SectionBanner'
+import { ROUTES } from '@/constants/routes'
+
+export default function ClubroomStatisticsPage() {
+  return (
+    <>
+      <SectionBanner title="Clubroom" description={ROUTES.CLUBROOM_STATISTICS.name} />
+      <div className="mx-auto mb-12 mt-16 max-w-5xl px-4">
+        <ClubroomStatistics />
+      </div>
+    </>
+  )
+}
@@ -3,26 +3,28 @@
 import { zodResolver } from '@hookform/resolvers/zod'
 import Image from 'next/image'
 import { redirect, useRouter } from 'next/navigation'
-import { useEffect, useRef, useState } from 'react'
-import { useForm } from 'react-hook-form'
+import { useRef, useState } from 'react'
+import { Controller, useForm } from 'react-hook-form'
 import { MdHelpOutline } from 'react-icons/md'
 import { z } from 'zod'
 
 import LoadingSpinner from '@/components/common/LoadingSpinner'
 import SectionBanner from '@/components/common/SectionBanner'
-import { Badge } from '@/components/ui/badge'
+import TagInput from '@/components/common/TagInput'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
 import { Textarea } from '@/components/ui/textarea'
 import { useToast } from '@/components/ui/use-toast'
-import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
 import { ROUTES } from '@/constants/routes'
+import { isRequestFailed } from '@/lib/api/client'
+import { useApiClient, useApiQuery } from '@/lib/api/hooks'
 import { useSession } from '@/lib/auth/SessionProvider'
-import { fetchData } from '@/lib/fetch'
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { findSemesterByDate } from '@/lib/semester'
 import { useSupabaseFile } from '@/lib/supabase/hooks'
-import { Event, User } from '@/types'
+import { Event } from '@/types'
 
 const schema = z.object({
   imageSrc: z.string({
@@ -48,6 +50,7 @@ type EventForm = Omit<Event, 'id' | 'isRecruiting'>
 export default function CreateEvent() {
   const session = useSession()
   const router = useRouter()
+  const client = useApiClient()
   const { toast } = useToast()
   const fileRef = useRef<HTMLInputElement>(null)
   const fileHandler = useSupabaseFile({ pathPrefix: 'image/event/new' })
@@ -56,10 +59,8 @@ export default function CreateEvent() {
     handleSubmit,
     register,
     setValue,
-    getValues,
-    watch,
+    control,
     setError,
-    clearErrors,
     formState: { errors, isSubmitting }
   } = useForm<EventForm>({
     resolver: zodResolver(schema),
@@ -70,39 +71,8 @@ export default function CreateEvent() {
 
   const [imageFile, setImageFile] = useState<File | null>(null)
   const [image, setImage] = useState<string>('')
-  const [tagError, setTagError] = useState<string>('')
-  const [currentTag, setCurrentTag] = useState<string>('')
   const [description, setDescription] = useState<string>('')
-  const [isStaff, setIsStaff] = useState(false)
-  const [isLoading, setIsLoading] = useState(true)
-
-  useEffect(() => {
-    const checkStaffStatus = async () => {
-      if (!session?.data?.accessToken) return
-
-      try {
-        const res = await fetchData(API_ENDPOINTS.CLIENT.STAFF.LIST as ApiEndpoint, {
-          headers: {
-            Authorization: `Bearer ${session.data.accessToken}`
-          }
-        })
-
-        if (!res.ok) {
-          throw new Error('Failed to fetch staff list')
-        }
-
-        const json = await res.json()
-        const staffList: User[] = json.data
-        setIsStaff(staffList.some((staff) => staff.username === session.data?.username))
-      } catch (error) {
-        console.error('Failed to check staff status:', error)
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    checkStaffStatus()
-  }, [session])
+  const { data: semesters } = useApiQuery((client) => client.semester.list(), [])
 
   const handleFileChange = (e: React.ChangeEvent) => {
     const targetFiles = (e.target as HTMLInputElement).files as FileList
@@ -114,40 +84,16 @@ export default function CreateEvent() {
     }
   }
 
-  const handleTagChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setCurrentTag(e.target.value)
-  }
-
-  const handleTagAdd = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    const newTag = e.currentTarget.value.trim()
-
-    if (watchedTags.length === 4) {
-      newTag !== '' ? setTagError('태그는 최대 4개까지만 입력 가능합니다') : setTagError('')
-    }
-
-    if (e.key === 'Enter' && newTag !== '') {
-      watchedTags.length !== 4 ? handleDuplicateTag() : setCurrentTag('')
-    }
-  }
-
-  const handleDuplicateTag = () => {
-    const newTag = getValues('tags').concat(currentTag)
-
-    if (new Set(newTag).size === getValues('tags').length) {
-      setError('tags', {
-        type: 'Duplicate',
-        message: '중복 태그가 존재합니다'
-      })
-    } else {
-      clearErrors('tags')
-      setValue('tags', getValues('tags') ? newTag : [currentTag])
-    }
-    setCurrentTag('')
-  }
-
   const onSubmit = async (data: EventForm) => {
     if (!session?.data?.accessToken || !imageFile) return
 
+    // 행사의 학기는 시작일이 활동 기간에 포함되는 학기로 정합니다.
+    const semester = semesters && findSemesterByDate(semesters, data.startDate)
+    if (!semester) {
+      setError('startDate', { message: '시작 날짜가 설정된 학기의 활동 기간에 포함되지 않습니다' })
+      return
+    }
+
     try {
       const file = await fileHandler.upload(imageFile)
       const fileUrl = file.supabaseFileData.url
@@ -163,22 +109,15 @@ export default function CreateEvent() {
         location: data.location,
         description: data.description,
         isRecruiting: true,
-        semester: 'Spring',
-        year: 2025
+        semester: semester.semester,
+        year: semester.year
       }
 
-      const res = await fetchData(API_ENDPOINTS.CLIENT.EVENT.CREATE as ApiEndpoint, {
-        method: 'POST',
-        body: JSON.stringify(submitData),
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${session.data.accessToken}`
-        }
-      })
-
-      if (!res.ok) {
+      const { error } = await client.event.create(submitData)
+      // 행사가 생성되었다면 응답 형식이 맞지 않더라도 이미지를 지우지 않습니다.
+      if (isRequestFailed(error)) {
         await file.delete()
-        throw new Error('행사 생성에 실패했습니다.')
+        throw error
       }
 
       file.commit()
@@ -191,7 +130,7 @@ export default function CreateEvent() {
       console.error('Failed to create event:', error)
       toast({
         title: '행사 생성 실패',
-        description: '행사 생성 중 오류가 발생했습니다.',
+        description: getErrorMessage(error, '행사 생성 중 오류가 발생했습니다.'),
         variant: 'destructive'
       })
     }
@@ -210,20 +149,6 @@ export default function CreateEvent() {
     redirect(ROUTES.LOGIN.url)
   }
 
-  if (isLoading) {
-    return (
-      <div className="flex h-screen w-full items-center justify-center">
-        <LoadingSpinner />
-      </div>
-    )
-  }
-
-  if (!isStaff) {
-    redirect(ROUTES.EVENT.index.url)
-  }
-
-  const watchedTags = watch('tags')
-
   return (
     <div className="mx-auto w-full space-y-8 p-6">
       <SectionBanner title="Create Event" description="새로운 행사를 등록해주세요!" />
@@ -295,48 +220,19 @@ export default function CreateEvent() {
               </PopoverContent>
             </Popover>
           </div>
-          {tagError && <p className="text-sm text-red-500">{tagError}</p>}
-          <div className="flex flex-col gap-4">
-            <div className="flex items-center gap-4">
-              <div className="relative w-[400px]">
-                <Input
-                  placeholder="태그를 입력해주세요"
-                  value={currentTag}
-                  onChange={handleTagChange}
-                  onKeyUp={handleTagAdd}
-                />
-                <Button
-                  type="button"
-                  className="absolute right-2 top-1/2 z-10 h-4 w-4 -translate-y-1/2 p-3 text-xl"
-                  disabled={currentTag.trim() === '' || (watchedTags && watchedTags.length >= 4)}
-                  onClick={handleDuplicateTag}
-                >
-                  +
-                </Button>
-              </div>
-              <Button
-                variant="secondary"
-                className="p-3"
-                type="button"
-                onClick={() => {
-                  setTagError('')
-                  clearErrors('tags')
-                  setValue('tags', [])
-                }}
-              >
-                Reset
-              </Button>
-            </div>
-            {errors.tags && <p className="-mt-2 text-sm text-red-500">{errors.tags.message}</p>}
-            <div className="flex gap-4">
-              {watchedTags &&
-                watchedTags.map((tag, index) => (
-                  <Badge variant="secondary" key={index}>
-                    {tag}
-                  </Badge>
-                ))}
-            </div>
-          </div>
+          <Controller
+            control={control}
+            name="tags"
+            render={({ field }) => (
+              <TagInput
+                placeholder="태그를 입력해주세요"
+                value={field.value}
+                onChange={field.onChange}
+                error={errors.tags?.message}
+                className="w-[400px]"
+              />
+            )}
+          />
         </div>
 
         {/* 설명 */}
@@ -0,0 +1,44 @@
+import Image from 'next/image'
+import Link from 'next/link'
+
+import { Button } from '@/components/ui/button'
+import { ROUTES } from '@/constants/routes'
+import { isPermission, PERMISSION_DESCRIPTIONS } from '@/lib/auth/permissions'
+
+type ForbiddenProps = {
+  searchParams: { required?: string }
+}
+
+const Forbidden = ({ searchParams }: ForbiddenProps) => {
+  const required = searchParams.required
+  const description = isPermission(required)
+    ? PERMISSION_DESCRIPTIONS[required]
+    : '이 페이지에 접근할 수 있는 권한이 없습니다.'
+
+  return (
+    <div className="flex h-full w-full flex-col items-center justify-center py-20">
+      <h1 className="mb-10 text-4xl font-extrabold">403 접근 권한 없음</h1>
+
+      <Image
+        src="/b0xercatCatchingBugs.png"
+        alt="b0xercat catching bugs"
+        width={300}
+        height={300}
+        className="mb-10 shadow-2xl"
+      />
+
+      <p className="mb-2">{description}</p>
+      {required === 'ROLE_VERIFIED' && (
+        <p className="mb-5 text-sm text-gray-500">가입 후 운영진의 승인이 완료되면 이용할 수 있습니다.</p>
+      )}
+
+      <div className="mt-3 flex items-center justify-center gap-x-3">
+        <Button asChild>
+          <Link href={ROUTES.HOME.url}>홈으로</Link>
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default Forbidden
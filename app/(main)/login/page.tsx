@@ -14,6 +14,7 @@ import { Input } from '@/components/ui/input'
 import { ROUTES } from '@/constants/routes'
 import signInSchema from '@/constants/zodSchema/signin'
 import { InvalidSigninErrorCode } from '@/lib/auth/errors'
+import { getErrorMessage } from '@/lib/response/catalogue'
 import ComitOwl from '@/public/comitOwl.png'
 
 interface LoginForm {
@@ -45,11 +46,11 @@ export default function Login() {
     if (res?.code === InvalidSigninErrorCode) {
       setError('email', {
         type: 'manual',
-        message: '이메일 또는 비밀번호가 일치하지 않습니다.'
+        message: getErrorMessage(res.code)
       })
       setError('password', {
         type: 'manual',
-        message: '이메일 또는 비밀번호가 일치하지 않습니다.'
+        message: getErrorMessage(res.code)
       })
       return
     }
@@ -4,12 +4,12 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import Image from 'next/image'
 import { notFound, redirect, useRouter } from 'next/navigation'
 import { useEffect, useRef, useState } from 'react'
-import { useForm } from 'react-hook-form'
+import { Controller, useForm } from 'react-hook-form'
 import { MdHelpOutline } from 'react-icons/md'
 import { z } from 'zod'
 
 import LoadingSpinner from '@/components/common/LoadingSpinner'
-import { Badge } from '@/components/ui/badge'
+import TagInput from '@/components/common/TagInput'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -18,8 +18,12 @@ import { Textarea } from '@/components/ui/textarea'
 import { useToast } from '@/components/ui/use-toast'
 import { API_ENDPOINTS } from '@/constants/apiEndpoint'
 import { ROUTES } from '@/constants/routes'
+import { isRequestFailed } from '@/lib/api/client'
+import { useApiClient, useApiQuery } from '@/lib/api/hooks'
 import { useSession } from '@/lib/auth/SessionProvider'
 import { fetchData } from '@/lib/fetch'
+import { getErrorMessage, toApiError } from '@/lib/response/catalogue'
+import { findSemesterByDate } from '@/lib/semester'
 import { useSupabaseFile } from '@/lib/supabase/hooks'
 import { Event } from '@/types'
 
@@ -54,6 +58,7 @@ export default function EventEditPage({ params }: EventEditProps) {
   const session = useSession()
   const router = useRouter()
   const { id } = params
+  const client = useApiClient()
   const { toast } = useToast()
   const fileRef = useRef<HTMLInputElement>(null)
   const fileHandler = useSupabaseFile({ pathPrefix: `image/event/${id}` })
@@ -62,11 +67,8 @@ export default function EventEditPage({ params }: EventEditProps) {
     handleSubmit,
     register,
     setValue,
-    getValues,
-    watch,
     control,
     setError,
-    clearErrors,
     formState: { errors, isSubmitting }
   } = useForm<EventForm>({
     resolver: zodResolver(schema),
@@ -77,11 +79,10 @@ export default function EventEditPage({ params }: EventEditProps) {
 
   const [imageFile, setImageFile] = useState<File | null>(null)
   const [image, setImage] = useState<string>('')
-  const [tagError, setTagError] = useState<string>('')
-  const [currentTag, setCurrentTag] = useState<string>('')
   const [description, setDescription] = useState<string>('')
   const [isLoading, setIsLoading] = useState(true)
   const [isRecruiting, setIsRecruiting] = useState(true)
+  const { data: semesters } = useApiQuery((client) => client.semester.list(), [])
 
   useEffect(() => {
     const fetchEvent = async () => {
@@ -94,7 +95,7 @@ export default function EventEditPage({ params }: EventEditProps) {
             case 404:
               notFound()
             default:
-              throw new Error('행사 정보를 불러오는 중 오류가 발생했습니다.')
+              throw await toApiError(res)
           }
         }
         const json = await res.json()
@@ -115,7 +116,7 @@ export default function EventEditPage({ params }: EventEditProps) {
         console.error('Failed to load event:', error)
         toast({
           title: '행사 정보 불러오기 실패',
-          description: '행사 정보를 불러오는 중 오류가 발생했습니다.',
+          description: getErrorMessage(error, '행사 정보를 불러오는 중 오류가 발생했습니다.'),
           variant: 'destructive'
         })
       } finally {
@@ -139,12 +140,16 @@ export default function EventEditPage({ params }: EventEditProps) {
   const onSubmit = async (data: EventForm) => {
     if (!session?.data?.accessToken) return
 
+    // 행사의 학기는 시작일이 활동 기간에 포함되는 학기로 정합니다.
+    const semester = semesters && findSemesterByDate(semesters, data.startDate)
+    if (!semester) {
+      setError('startDate', { message: '시작 날짜가 설정된 학기의 활동 기간에 포함되지 않습니다' })
+      return
+    }
+
     try {
-      let fileUrl = data.imageSrc
-      if (imageFile) {
-        const file = await fileHandler.upload(imageFile)
-        fileUrl = file.supabaseFileData.url
-      }
+      const file = imageFile ? await fileHandler.upload(imageFile) : null
+      const fileUrl = file ? file.supabaseFileData.url : data.imageSrc
 
       const submitData = {
         title: data.title,
@@ -157,28 +162,17 @@ export default function EventEditPage({ params }: EventEditProps) {
         location: data.location,
         description: data.description,
         isRecruiting: isRecruiting,
-        semester: 'Spring',
-        year: 2025
+        semester: semester.semester,
+        year: semester.year
       }
 
-      console.log('Submitting data:', submitData)
-
-      const res = await fetchData(API_ENDPOINTS.CLIENT.EVENT.UPDATE(id), {
-        method: 'PUT',
-        body: JSON.stringify(submitData),
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${session.data.accessToken}`
-        }
-      })
-
-      if (!res.ok) {
-        if (imageFile) {
-          const file = await fileHandler.upload(imageFile)
-          await file.delete()
-        }
-        throw new Error('행사 정보를 수정하는 중 오류가 발생했습니다.')
+      const { error } = await client.event.update(id, submitData)
+      // 행사가 수정되었다면 응답 형식이 맞지 않더라도 새 이미지를 지우지 않습니다.
+      if (isRequestFailed(error)) {
+        await file?.delete()
+        throw error
       }
+      file?.commit()
 
       toast({
         title: '행사 수정 완료',
@@ -189,46 +183,12 @@ export default function EventEditPage({ params }: EventEditProps) {
       console.error('Failed to update event:', error)
       toast({
         title: '행사 수정 실패',
-        description: '행사 정보를 수정하는 중 오류가 발생했습니다.',
+        description: getErrorMessage(error, '행사 정보를 수정하는 중 오류가 발생했습니다.'),
         variant: 'destructive'
       })
     }
   }
 
-  // Tag handling
-  const watchedTags = watch('tags')
-
-  const handleTagChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setCurrentTag(e.target.value)
-  }
-
-  const handleTagAdd = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    const newTag = e.currentTarget.value.trim()
-
-    if (watchedTags.length === 4) {
-      newTag !== '' ? setTagError('태그는 최대 4개까지만 입력 가능합니다') : setTagError('')
-    }
-
-    if (e.key === 'Enter' && newTag !== '') {
-      watchedTags.length !== 4 ? handleDuplicateTag() : setCurrentTag('')
-    }
-  }
-
-  const handleDuplicateTag = () => {
-    const newTag = getValues('tags').concat(currentTag)
-
-    if (new Set(newTag).size === getValues('tags').length) {
-      setError('tags', {
-        type: 'Duplicate',
-        message: '중복 태그가 존재합니다'
-      })
-    } else {
-      clearErrors('tags')
-      setValue('tags', getValues('tags') ? newTag : [currentTag])
-    }
-    setCurrentTag('')
-  }
-
   // Loading states
   if (session === null) {
     return (
@@ -346,48 +306,19 @@ export default function EventEditPage({ params }: EventEditProps) {
               </PopoverContent>
             </Popover>
           </div>
-          {tagError && <p className="text-sm text-red-500">{tagError}</p>}
-          <div className="flex flex-col gap-4">
-            <div className="flex items-center gap-4">
-              <div className="relative w-[400px]">
-                <Input
-                  placeholder="태그를 입력해주세요"
-                  value={currentTag}
-                  onChange={handleTagChange}
-                  onKeyUp={handleTagAdd}
-                />
-                <Button
-                  type="button"
-                  className="absolute right-2 top-1/2 z-10 h-4 w-4 -translate-y-1/2 p-3 text-xl"
-                  disabled={currentTag.trim() === '' || (watchedTags && watchedTags.length >= 4)}
-                  onClick={handleDuplicateTag}
-                >
-                  +
-                </Button>
-              </div>
-              <Button
-                variant="secondary"
-                className="p-3"
-                type="button"
-                onClick={() => {
-                  setTagError('')
-                  clearErrors('tags')
-                  setValue('tags', [])
-                }}
-              >
-                Reset
-              </Button>
-            </div>
-            {errors.tags && <p className="-mt-2 text-sm text-red-500">{errors.tags.message}</p>}
-            <div className="flex gap-4">
-              {watchedTags &&
-                watchedTags.map((tag, index) => (
-                  <Badge variant="secondary" key={index}>
-                    {tag}
-                  </Badge>
-                ))}
-            </div>
-          </div>
+          <Controller
+            control={control}
+            name="tags"
+            render={({ field }) => (
+              <TagInput
+                placeholder="태그를 입력해주세요"
+                value={field.value}
+                onChange={field.onChange}
+                error={errors.tags?.message}
+                className="w-[400px]"
+              />
+            )}
+          />
         </div>
 
         {/* 설명 */}
@@ -19,8 +19,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { useToast } from '@/components/ui/use-toast'
 import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
 import { ROUTES } from '@/constants/routes'
+import { invalidateQueries } from '@/lib/api/cache'
+import { usePermissions } from '@/lib/auth/hooks'
 import { useSession } from '@/lib/auth/SessionProvider'
+import { formatDateRange, formatTimeRange } from '@/lib/date'
 import { fetchData } from '@/lib/fetch'
+import { getErrorMessage, toApiError } from '@/lib/response/catalogue'
 import { Event, User } from '@/types'
 
 interface Member extends User {
@@ -43,29 +47,9 @@ export default function EventDetailPage({ params }: EventDetailProps) {
   const [acceptedMembers, setAcceptedMembers] = useState<Member[]>([])
   const [waitingMembers, setWaitingMembers] = useState<Member[]>([])
   const [rejectedMembers, setRejectedMembers] = useState<Member[]>([])
-  const [isStaff, setIsStaff] = useState(false)
+  const { isStaff } = usePermissions()
 
   useEffect(() => {
-    const fetchStaffStatus = async () => {
-      if (!session?.data?.accessToken) return
-
-      try {
-        const staffRes = await fetchData(API_ENDPOINTS.CLIENT.STAFF_LIST as ApiEndpoint, {
-          headers: {
-            Authorization: `Bearer ${session.data.accessToken}`
-          }
-        })
-
-        if (staffRes.ok) {
-          const staffJson = await staffRes.json()
-          const staffList: User[] = staffJson.data
-          setIsStaff(staffList.some((staff) => staff.username === session.data.username))
-        }
-      } catch (error) {
-        console.error('Failed to fetch staff status:', error)
-      }
-    }
-
     const loadEvent = async () => {
       try {
         const res = await fetchData(API_ENDPOINTS.CLIENT.EVENT.RETRIEVE(id), {
@@ -77,7 +61,7 @@ export default function EventDetailPage({ params }: EventDetailProps) {
               router.push(ROUTES.EVENT.index.url)
               return
             default:
-              throw new Error('행사 정보를 불러오는 중 오류가 발생했습니다.')
+              throw await toApiError(res)
           }
         }
         const json = await res.json()
@@ -85,7 +69,7 @@ export default function EventDetailPage({ params }: EventDetailProps) {
       } catch (error) {
         toast({
           title: '행사 정보 불러오기 실패',
-          description: '행사 정보를 불러오는 중 오류가 발생했습니다.',
+          description: getErrorMessage(error, '행사 정보를 불러오는 중 오류가 발생했습니다.'),
           variant: 'destructive'
         })
       }
@@ -97,19 +81,13 @@ export default function EventDetailPage({ params }: EventDetailProps) {
       try {
         const [acceptRes, waitRes, rejectRes] = await Promise.all([
           fetchData(API_ENDPOINTS.CLIENT.EVENT.MEMBERS(id, 'Accept') as ApiEndpoint, {
-            headers: {
-              Authorization: `Bearer ${session.data.accessToken}`
-            }
+            authenticated: true
           }),
           fetchData(API_ENDPOINTS.CLIENT.EVENT.MEMBERS(id, 'Wait') as ApiEndpoint, {
-            headers: {
-              Authorization: `Bearer ${session.data.accessToken}`
-            }
+            authenticated: true
           }),
           fetchData(API_ENDPOINTS.CLIENT.EVENT.MEMBERS(id, 'Reject') as ApiEndpoint, {
-            headers: {
-              Authorization: `Bearer ${session.data.accessToken}`
-            }
+            authenticated: true
           })
         ])
 
@@ -132,7 +110,6 @@ export default function EventDetailPage({ params }: EventDetailProps) {
       }
     }
 
-    fetchStaffStatus()
     loadEvent()
     loadMembers()
   }, [id, session, router, toast])
@@ -144,15 +121,13 @@ export default function EventDetailPage({ params }: EventDetailProps) {
       const res = await fetchData(API_ENDPOINTS.CLIENT.EVENT.UPDATE_MEMBER_STATE(id, userId) as ApiEndpoint, {
         method: 'PATCH',
         body: JSON.stringify({ joinState: state }),
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${session.data.accessToken}`
-        }
+        authenticated: true
       })
 
       if (!res.ok) {
-        throw new Error('멤버 상태 업데이트에 실패했습니다.')
+        throw await toApiError(res)
       }
+      invalidateQueries(API_ENDPOINTS.CLIENT.EVENT.RETRIEVE(id).url)
 
       // Update local state
       if (state === 'Accept') {
@@ -176,7 +151,7 @@ export default function EventDetailPage({ params }: EventDetailProps) {
       console.error('Failed to update member state:', error)
       toast({
         variant: 'destructive',
-        description: '멤버 상태 업데이트에 실패했습니다.'
+        description: getErrorMessage(error, '멤버 상태 업데이트에 실패했습니다.')
       })
     }
   }
@@ -233,15 +208,11 @@ export default function EventDetailPage({ params }: EventDetailProps) {
                   </div>
                   <div className="flex items-center gap-2">
                     <span className="text-sm font-medium">일시:</span>
-                    <span className="text-sm text-gray-500">
-                      {event.startDate} ~ {event.endDate}
-                    </span>
+                    <span className="text-sm text-gray-500">{formatDateRange(event.startDate, event.endDate)}</span>
                   </div>
                   <div className="flex items-center gap-2">
                     <span className="text-sm font-medium">시간:</span>
-                    <span className="text-sm text-gray-500">
-                      {event.startTime} ~ {event.endTime}
-                    </span>
+                    <span className="text-sm text-gray-500">{formatTimeRange(event.startTime, event.endTime)}</span>
                   </div>
                   <div className="flex items-center gap-2">
                     <span className="text-sm font-medium">학기:</span>
@@ -17,10 +17,14 @@ import {
 import { Button } from '@/components/ui/button'
 import { useToast } from '@/components/ui/use-toast'
 import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
+import { invalidateQueries } from '@/lib/api/cache'
+import { usePermissions } from '@/lib/auth/hooks'
 import { useSession } from '@/lib/auth/SessionProvider'
+import { formatDateRange, formatTimeRange } from '@/lib/date'
 import { fetchData } from '@/lib/fetch'
 import { CustomResponse } from '@/lib/response'
-import { Event, User } from '@/types'
+import { getErrorMessage, toApiError } from '@/lib/response/catalogue'
+import { Event } from '@/types'
 
 interface EventWithState {
   event: Event
@@ -33,30 +37,10 @@ export default function MyEvent() {
   const [joinedEvents, setJoinedEvents] = useState<EventWithState[]>([])
   const [createdEvents, setCreatedEvents] = useState<Event[]>([])
   const [isLoading, setIsLoading] = useState(true)
-  const [isStaff, setIsStaff] = useState(false)
+  const { isStaff } = usePermissions()
   const { toast } = useToast()
 
   useEffect(() => {
-    const fetchStaffStatus = async () => {
-      if (!session?.data?.accessToken) return
-
-      try {
-        const staffRes = await fetchData(API_ENDPOINTS.CLIENT.STAFF_LIST as ApiEndpoint, {
-          headers: {
-            Authorization: `Bearer ${session.data.accessToken}`
-          }
-        })
-
-        if (staffRes.ok) {
-          const staffJson: CustomResponse = await staffRes.json()
-          const staffList: User[] = staffJson.data
-          setIsStaff(staffList.some((staff) => staff.username === session.data.username))
-        }
-      } catch (error) {
-        console.error('Failed to fetch staff status:', error)
-      }
-    }
-
     const fetchEvents = async () => {
       if (!session?.data?.accessToken) {
         return
@@ -65,14 +49,12 @@ export default function MyEvent() {
       try {
         // Fetch all events for staff, or created events for regular users
         const eventsRes = await fetchData(API_ENDPOINTS.CLIENT.EVENT.LIST as ApiEndpoint, {
-          headers: {
-            Authorization: `Bearer ${session.data.accessToken}`
-          },
+          authenticated: true,
           credentials: 'include',
           cache: 'no-cache'
         })
         if (!eventsRes.ok) {
-          throw new Error('행사 정보를 불러오는 중 오류가 발생했습니다.')
+          throw await toApiError(eventsRes)
         }
 
         const eventsJson: CustomResponse = await eventsRes.json()
@@ -80,14 +62,12 @@ export default function MyEvent() {
 
         // Fetch joined events
         const joinedEventsRes = await fetchData(API_ENDPOINTS.CLIENT.PROFILE.JOINED_EVENT as ApiEndpoint, {
-          headers: {
-            Authorization: `Bearer ${session.data.accessToken}`
-          },
+          authenticated: true,
           credentials: 'include',
           cache: 'no-cache'
         })
         if (!joinedEventsRes.ok) {
-          throw new Error('행사 정보를 불러오는 중 오류가 발생했습니다.')
+          throw await toApiError(joinedEventsRes)
         }
 
         const joinedEventsJson: CustomResponse = await joinedEventsRes.json()
@@ -99,7 +79,6 @@ export default function MyEvent() {
       }
     }
 
-    fetchStaffStatus()
     fetchEvents()
   }, [session])
 
@@ -109,14 +88,17 @@ export default function MyEvent() {
     try {
       const res = await fetchData(API_ENDPOINTS.CLIENT.EVENT.LEAVE(eventId) as ApiEndpoint, {
         method: 'DELETE',
-        headers: {
-          Authorization: `Bearer ${session.data.accessToken}`
-        }
+        authenticated: true
       })
 
       if (!res.ok) {
-        throw new Error('행사를 목록에서 삭제에 실패했습니다.')
+        throw await toApiError(res)
       }
+      invalidateQueries(
+        API_ENDPOINTS.CLIENT.EVENT.RETRIEVE(eventId).url,
+        API_ENDPOINTS.CLIENT.PROFILE.JOINED_EVENT.url,
+        API_ENDPOINTS.CLIENT.PROFILE.MEMBERSHIPS.url
+      )
 
       // Remove the event from joinedEvents
       setJoinedEvents((prev) => prev.filter((event) => event.event.id !== eventId))
@@ -128,7 +110,7 @@ export default function MyEvent() {
       console.error('Failed to delete event:', error)
       toast({
         variant: 'destructive',
-        description: '행사를 목록에서 삭제에 실패했습니다.'
+        description: getErrorMessage(error, '행사를 목록에서 삭제에 실패했습니다.')
       })
     }
   }
@@ -183,13 +165,9 @@ export default function MyEvent() {
             <span className="flex-shrink overflow-hidden text-ellipsis whitespace-nowrap"></span>
             <span>{event.location}</span>
             <span> · </span>
-            <span>
-              {event.startDate} ~ {event.endDate}
-            </span>
+            <span>{formatDateRange(event.startDate, event.endDate)}</span>
             <span> · </span>
-            <span>
-              {event.startTime} ~ {event.endTime}
-            </span>
+            <span>{formatTimeRange(event.startTime, event.endTime)}</span>
           </div>
         </div>
       </div>
@@ -0,0 +1,15 @@
+import AttendanceSheet from '@/components/study/AttendanceSheet'
+
+interface StudyAttendanceProps {
+  params: {
+    id: string
+  }
+}
+
+export default function StudyAttendancePage({ params }: StudyAttendanceProps) {
+  return (
+    <div className="mx-auto max-w-7xl p-6">
+      <AttendanceSheet studyId={Number(params.id)} />
+    </div>
+  )
+}
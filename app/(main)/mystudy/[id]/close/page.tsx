@@ -0,0 +1,15 @@
+import StudyCloseForm from '@/components/study/StudyCloseForm'
+
+interface StudyCloseProps {
+  params: {
+    id: string
+  }
+}
+
+export default function StudyClosePage({ params }: StudyCloseProps) {
+  return (
+    <div className="mx-auto max-w-7xl p-6">
+      <StudyCloseForm studyId={Number(params.id)} />
+    </div>
+  )
+}
@@ -11,7 +11,9 @@ import { z } from 'zod'
 
 import { HttpStatusCode } from '@/app/api/utils/httpConsts'
 import LoadingSpinner from '@/components/common/LoadingSpinner'
-import { Badge } from '@/components/ui/badge'
+import TagInput from '@/components/common/TagInput'
+import ApplicationQuestionEditor from '@/components/study/open/ApplicationQuestionEditor'
+import CurriculumEditor from '@/components/study/open/CurriculumEditor'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -23,8 +25,14 @@ import { TimePicker } from '@/components/ui/timepicker'
 import { useToast } from '@/components/ui/use-toast'
 import { API_ENDPOINTS } from '@/constants/apiEndpoint'
 import { ROUTES } from '@/constants/routes'
+import { isRequestFailed } from '@/lib/api/client'
+import { useApiClient } from '@/lib/api/hooks'
+import { applicationQuestionsSchema, normalizeApplicationQuestions } from '@/lib/application'
 import { useSession } from '@/lib/auth/SessionProvider'
+import { curriculumSchema, normalizeCurriculum } from '@/lib/curriculum'
 import { fetchData } from '@/lib/fetch'
+import { getErrorMessage, toApiError } from '@/lib/response/catalogue'
+import { MAX_STUDY_MEMBERS, maxMembersSchema, toMaxMembers } from '@/lib/study'
 import { useSupabaseFile } from '@/lib/supabase/hooks'
 import { Campus, Day, Level, Study } from '@/types'
 
@@ -52,7 +60,10 @@ const schema = z.object({
   description: z
     .string()
     .min(1, { message: '설명을 입력해주세요' })
-    .max(800, { message: '설명은 800자 이내로 입력해주세요' })
+    .max(800, { message: '설명은 800자 이내로 입력해주세요' }),
+  maxMembers: maxMembersSchema,
+  curriculum: curriculumSchema,
+  applicationQuestions: applicationQuestionsSchema
 })
 
 const dayOptions: Day[] = ['월', '화', '수', '목', '금', '토', '일']
@@ -71,6 +82,7 @@ export default function StudyEditPage({ params }: StudyEditProps) {
   const session = useSession()
   const router = useRouter()
   const { id } = params
+  const client = useApiClient()
   const { toast } = useToast()
   const fileRef = useRef<HTMLInputElement>(null)
   const fileHandler = useSupabaseFile({ pathPrefix: `image/study/${id}` })
@@ -79,28 +91,28 @@ export default function StudyEditPage({ params }: StudyEditProps) {
     handleSubmit,
     register,
     setValue,
-    getValues,
-    watch,
     control,
     setError,
-    clearErrors,
     formState: { errors, isSubmitting }
   } = useForm<StudyForm>({
     resolver: zodResolver(schema),
     defaultValues: {
-      tags: []
+      tags: [],
+      maxMembers: null,
+      curriculum: [],
+      applicationQuestions: []
     }
   })
 
   const [imageFile, setImageFile] = useState<File | null>(null)
   const [image, setImage] = useState<string>('')
-  const [stackError, setTagError] = useState<string>('')
-  const [currentTag, setCurrentTag] = useState<string>('')
   const [startTime, setStartTime] = useState<Date | undefined>(undefined)
   const [endTime, setEndTime] = useState<Date | undefined>(undefined)
   const [description, setDescription] = useState<string>('')
   const [isLoading, setIsLoading] = useState(true)
   const [isRecruiting, setIsRecruiting] = useState(true)
+  const [memberCount, setMemberCount] = useState(0)
+  const [semester, setSemester] = useState<Pick<Study, 'semester' | 'year'>>()
 
   useEffect(() => {
     if (!session || session.error) return
@@ -115,7 +127,7 @@ export default function StudyEditPage({ params }: StudyEditProps) {
             case HttpStatusCode.NotFound:
               notFound()
             default:
-              throw new Error('스터디 정보를 불러오는 중 오류가 발생했습니다.')
+              throw await toApiError(res)
           }
         }
         const json = await res.json()
@@ -131,6 +143,11 @@ export default function StudyEditPage({ params }: StudyEditProps) {
         setValue('level', studyData.level)
         setValue('tags', studyData.tags)
         setValue('description', studyData.description)
+        setValue('maxMembers', studyData.maxMembers ?? null)
+        setValue('curriculum', studyData.curriculum ?? [])
+        setValue('applicationQuestions', studyData.applicationQuestions ?? [])
+        setMemberCount(studyData.memberCount ?? 0)
+        setSemester({ semester: studyData.semester, year: studyData.year })
         setDescription(studyData.description)
         setImage(studyData.imageSrc)
         setIsRecruiting(studyData.isRecruiting)
@@ -152,7 +169,7 @@ export default function StudyEditPage({ params }: StudyEditProps) {
         console.error('Failed to load study:', error)
         toast({
           title: '스터디 정보 불러오기 실패',
-          description: '스터디 정보를 불러오는 중 오류가 발생했습니다.',
+          description: getErrorMessage(error, '스터디 정보를 불러오는 중 오류가 발생했습니다.'),
           variant: 'destructive'
         })
       } finally {
@@ -176,38 +193,34 @@ export default function StudyEditPage({ params }: StudyEditProps) {
   const onSubmit = async (data: StudyForm) => {
     if (!session?.data?.accessToken) return
 
+    // 이미 참여 중인 멤버를 내보낼 수는 없으므로, 정원은 현재 인원보다 작게 줄일 수 없습니다.
+    if (data.maxMembers !== null && data.maxMembers < memberCount) {
+      setError('maxMembers', { message: `현재 참여 중인 멤버(${memberCount}명)보다 적게 설정할 수 없습니다` })
+      return
+    }
+
     try {
-      let fileUrl = data.imageSrc
-      if (imageFile) {
-        const file = await fileHandler.upload(imageFile)
-        fileUrl = file.supabaseFileData.url
-      }
+      const file = imageFile ? await fileHandler.upload(imageFile) : null
+      const fileUrl = file ? file.supabaseFileData.url : data.imageSrc
 
       const submitData = {
         ...data,
+        curriculum: normalizeCurriculum(data.curriculum),
+        applicationQuestions: normalizeApplicationQuestions(data.applicationQuestions),
         imageSrc: fileUrl,
         description,
         isRecruiting,
-        semester: 'Spring',
-        year: 2025
+        // 스터디의 학기는 개설할 때 정해지며, 수정해도 바뀌지 않습니다.
+        ...semester
       }
 
-      const res = await fetchData(API_ENDPOINTS.CLIENT.STUDY.UPDATE(id), {
-        method: 'PUT',
-        body: JSON.stringify(submitData),
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${session.data.accessToken}`
-        }
-      })
-
-      if (!res.ok) {
-        if (imageFile) {
-          const file = await fileHandler.upload(imageFile)
-          await file.delete()
-        }
-        throw new Error('스터디 정보를 수정하는 중 오류가 발생했습니다.')
+      const { error } = await client.study.update(id, submitData)
+      // 스터디가 수정되었다면 응답 형식이 맞지 않더라도 새 이미지를 지우지 않습니다.
+      if (isRequestFailed(error)) {
+        await file?.delete()
+        throw error
       }
+      file?.commit()
 
       toast({
         title: '스터디 수정 완료',
@@ -218,46 +231,12 @@ export default function StudyEditPage({ params }: StudyEditProps) {
       console.error('Failed to update study:', error)
       toast({
         title: '스터디 수정 실패',
-        description: '스터디 정보를 수정하는 중 오류가 발생했습니다.',
+        description: getErrorMessage(error, '스터디 정보를 수정하는 중 오류가 발생했습니다.'),
         variant: 'destructive'
       })
     }
   }
 
-  // Tag handling
-  const watchedTags = watch('tags')
-
-  const handleTagChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    setCurrentTag(e.target.value)
-  }
-
-  const handleTagAdd = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    const newTag = e.currentTarget.value.trim()
-
-    if (watchedTags.length === 4) {
-      newTag !== '' ? setTagError('스택은 최대 4개까지만 입력 가능합니다') : setTagError('')
-    }
-
-    if (e.key === 'Enter' && newTag !== '') {
-      watchedTags.length !== 4 ? handleDuplicateTag() : setCurrentTag('')
-    }
-  }
-
-  const handleDuplicateTag = () => {
-    const newTag = getValues('tags').concat(currentTag)
-
-    if (new Set(newTag).size === getValues('tags').length) {
-      setError('tags', {
-        type: 'Duplicate',
-        message: '중복 스택이 존재합니다'
-      })
-    } else {
-      clearErrors('tags')
-      setValue('tags', getValues('tags') ? newTag : [currentTag])
-    }
-    setCurrentTag('')
-  }
-
   // Time handling
   const onChangeStartTime = (date: Date | undefined) => {
     if (typeof date !== 'undefined') {
@@ -432,6 +411,23 @@ export default function StudyEditPage({ params }: StudyEditProps) {
               </Button>
             </div>
           </div>
+
+          {/* 최대 인원 */}
+          <div className="space-y-2">
+            <Label htmlFor="maxMembers">최대 인원</Label>
+            <Input
+              id="maxMembers"
+              type="number"
+              min={Math.max(1, memberCount)}
+              max={MAX_STUDY_MEMBERS}
+              placeholder="제한 없음"
+              {...register('maxMembers', { setValueAs: toMaxMembers })}
+            />
+            <p className="text-sm text-gray-500">
+              현재 {memberCount}명 참여 중 · 정원을 늘리면 대기 중인 신청자가 순서대로 자동 승인됩니다.
+            </p>
+            {errors.maxMembers && <p className="text-sm text-red-500">{errors.maxMembers.message}</p>}
+          </div>
         </div>
         {/* 스택 */}
         <div className="space-y-4">
@@ -451,48 +447,20 @@ export default function StudyEditPage({ params }: StudyEditProps) {
               </PopoverContent>
             </Popover>
           </div>
-          {stackError && <p className="text-sm text-red-500">{stackError}</p>}
-          <div className="flex flex-col gap-4">
-            <div className="flex items-center gap-4">
-              <div className="relative w-[400px]">
-                <Input
-                  placeholder="주제를 입력해주세요"
-                  value={currentTag}
-                  onChange={handleTagChange}
-                  onKeyUp={handleTagAdd}
-                />
-                <Button
-                  type="button"
-                  className="absolute right-2 top-1/2 z-10 h-4 w-4 -translate-y-1/2 p-3 text-xl"
-                  disabled={currentTag.trim() === '' || (watchedTags && watchedTags.length >= 4)}
-                  onClick={handleDuplicateTag}
-                >
-                  +
-                </Button>
-              </div>
-              <Button
-                variant="secondary"
-                className="p-3"
-                type="button"
-                onClick={() => {
-                  setTagError('')
-                  clearErrors('tags')
-                  setValue('tags', [])
-                }}
-              >
-                Reset
-              </Button>
-            </div>
-            {errors.tags && <p className="-mt-2 text-sm text-red-500">{errors.tags.message}</p>}
-            <div className="flex gap-4">
-              {watchedTags &&
-                watchedTags.map((tag, index) => (
-                  <Badge variant="secondary" key={index}>
-                    {tag}
-                  </Badge>
-                ))}
-            </div>
-          </div>
+          <Controller
+            control={control}
+            name="tags"
+            render={({ field }) => (
+              <TagInput
+                noun="스택"
+                placeholder="주제를 입력해주세요"
+                value={field.value}
+                onChange={field.onChange}
+                error={errors.tags?.message}
+                className="w-[400px]"
+              />
+            )}
+          />
         </div>
 
         {/* 설명 */}
@@ -510,6 +478,33 @@ export default function StudyEditPage({ params }: StudyEditProps) {
           {errors.description && <p className="text-sm text-red-500">{errors.description.message}</p>}
         </div>
 
+        {/* 커리큘럼 */}
+        <div className="space-y-2">
+          <Label>커리큘럼</Label>
+          <Controller
+            control={control}
+            name="curriculum"
+            render={({ field: { onChange, value } }) => (
+              <CurriculumEditor value={value} onChange={onChange} errors={errors.curriculum} />
+            )}
+          />
+        </div>
+
+        {/* 신청서 문항 */}
+        <div className="space-y-2">
+          <Label>신청서 문항</Label>
+          <p className="text-sm text-gray-500">
+            문항을 삭제하면 이미 받은 신청서에서도 해당 문항의 답변이 보이지 않습니다.
+          </p>
+          <Controller
+            control={control}
+            name="applicationQuestions"
+            render={({ field: { onChange, value } }) => (
+              <ApplicationQuestionEditor value={value} onChange={onChange} errors={errors.applicationQuestions} />
+            )}
+          />
+        </div>
+
         {/* 제출 버튼 */}
         <div className="flex justify-end">
           <Button type="submit" className="px-8" disabled={isSubmitting}>
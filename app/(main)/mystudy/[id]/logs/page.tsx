@@ -0,0 +1,15 @@
+import StudyProgress from '@/components/study/StudyProgress'
+
+interface StudyLogsProps {
+  params: {
+    id: string
+  }
+}
+
+export default function StudyLogsPage({ params }: StudyLogsProps) {
+  return (
+    <div className="mx-auto max-w-7xl p-6">
+      <StudyProgress studyId={Number(params.id)} />
+    </div>
+  )
+}
@@ -5,7 +5,7 @@ import '@uiw/react-markdown-preview/markdown.css'
 import dynamic from 'next/dynamic'
 import Image from 'next/image'
 import { useRouter } from 'next/navigation'
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo } from 'react'
 import { FaSchoolFlag } from 'react-icons/fa6'
 import { IoPersonSharp } from 'react-icons/io5'
 import { MdOutlineSignalCellularAlt } from 'react-icons/md'
@@ -16,15 +16,26 @@ const MarkdownPreview = dynamic(() => import('@uiw/react-markdown-preview'), { s
 import { HttpStatusCode } from '@/app/api/utils/httpConsts'
 import LoadingSpinner from '@/components/common/LoadingSpinner'
 import UserHoverCard from '@/components/common/User/HoverCard'
+import ApplicationAnswers from '@/components/study/ApplicationAnswers'
+import Curriculum from '@/components/study/Curriculum'
+import SessionLogs from '@/components/study/SessionLogs'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { useToast } from '@/components/ui/use-toast'
-import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
 import { ROUTES } from '@/constants/routes'
+import { useApiClient, useApiQuery } from '@/lib/api/hooks'
+import { getApplicationQuestions } from '@/lib/application'
 import { useSession } from '@/lib/auth/SessionProvider'
-import { fetchData } from '@/lib/fetch'
-import { Study, User } from '@/types'
+import { formatTimeRange } from '@/lib/date'
+import { CustomErrorDTO } from '@/lib/response'
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { NotFound } from '@/lib/response/errors'
+import { formatCapacity, isStudyFull, sortWaitlist } from '@/lib/study'
+
+// 백엔드가 에러 코드 없이 404만 보내는 경우에도 없는 스터디로 처리합니다.
+const isNotFoundError = ({ errorType }: CustomErrorDTO) =>
+  errorType === NotFound.errorType || errorType === `HTTP/${HttpStatusCode.NotFound}`
 
 interface StudyDetailProps {
   params: {
@@ -32,132 +43,75 @@ interface StudyDetailProps {
   }
 }
 
-interface Member extends User {
-  joinState: 'Accept' | 'Wait' | 'Reject'
-}
-
 export default function StudyDetailPage({ params }: StudyDetailProps) {
   const session = useSession()
   const router = useRouter()
   const { id } = params
+  const client = useApiClient()
   const { toast } = useToast()
 
-  const [study, setStudy] = useState<Study>()
-  const [acceptedMembers, setAcceptedMembers] = useState<Member[]>([])
-  const [waitingMembers, setWaitingMembers] = useState<Member[]>([])
-  const [rejectedMembers, setRejectedMembers] = useState<Member[]>([])
+  // 세션이 로드된 뒤에 스터디와 멤버 목록을 불러옵니다.
+  const isSessionReady = !!session && !session.error
+  const { data: study, error: studyError } = useApiQuery(
+    (client) => (isSessionReady ? client.study.retrieve(id) : null),
+    [id, isSessionReady]
+  )
+  const { data: accepted, setData: setAccepted } = useApiQuery(
+    (client) => (isSessionReady ? client.study.members(id, 'Accept') : null),
+    [id, isSessionReady]
+  )
+  const { data: waiting, setData: setWaiting } = useApiQuery(
+    (client) => (isSessionReady ? client.study.members(id, 'Wait') : null),
+    [id, isSessionReady]
+  )
+  const { data: rejected } = useApiQuery(
+    (client) => (isSessionReady ? client.study.members(id, 'Reject') : null),
+    [id, isSessionReady]
+  )
+  const acceptedMembers = accepted ?? []
+  const waitingMembers = useMemo(() => sortWaitlist(waiting ?? []), [waiting])
+  const rejectedMembers = rejected ?? []
 
   useEffect(() => {
-    if (!session || session.error) return
-
-    const loadStudy = async () => {
-      try {
-        const res = await fetchData(API_ENDPOINTS.CLIENT.STUDY.RETRIEVE(id), {
-          cache: 'no-cache'
-        })
-        if (!res.ok) {
-          switch (res.status) {
-            case HttpStatusCode.NotFound:
-              router.push(ROUTES.STUDY.index.url)
-              return
-            default:
-              throw new Error('스터디 정보를 불러오는 중 오류가 발생했습니다.')
-          }
-        }
-        const json = await res.json()
-        setStudy(json.data)
-      } catch (error) {
-        toast({
-          title: '스터디 정보 불러오기 실패',
-          description: '스터디 정보를 불러오는 중 오류가 발생했습니다.',
-          variant: 'destructive'
-        })
-      }
+    if (!studyError) return
+    if (isNotFoundError(studyError)) {
+      router.push(ROUTES.STUDY.index.url)
+      return
     }
-
-    const loadMembers = async () => {
-      try {
-        const [acceptRes, waitRes, rejectRes] = await Promise.all([
-          fetchData(API_ENDPOINTS.CLIENT.STUDY.MEMBERS(id, 'Accept') as ApiEndpoint, {
-            headers: {
-              Authorization: `Bearer ${session.data.accessToken}`
-            }
-          }),
-          fetchData(API_ENDPOINTS.CLIENT.STUDY.MEMBERS(id, 'Wait') as ApiEndpoint, {
-            headers: {
-              Authorization: `Bearer ${session.data.accessToken}`
-            }
-          }),
-          fetchData(API_ENDPOINTS.CLIENT.STUDY.MEMBERS(id, 'Reject') as ApiEndpoint, {
-            headers: {
-              Authorization: `Bearer ${session.data.accessToken}`
-            }
-          })
-        ])
-
-        if (acceptRes.ok) {
-          const json = await acceptRes.json()
-          setAcceptedMembers(json.data)
-        }
-
-        if (waitRes.ok) {
-          const json = await waitRes.json()
-          setWaitingMembers(json.data)
-        }
-
-        if (rejectRes.ok) {
-          const json = await rejectRes.json()
-          setRejectedMembers(json.data)
-        }
-      } catch (error) {
-        console.error('Failed to load members:', error)
-      }
-    }
-
-    loadStudy()
-    loadMembers()
-  }, [id, session, router, toast])
+    toast({
+      title: '스터디 정보 불러오기 실패',
+      description: getErrorMessage(studyError, '스터디 정보를 불러오는 중 오류가 발생했습니다.'),
+      variant: 'destructive'
+    })
+  }, [studyError, router, toast])
 
   const handleMemberStateUpdate = async (userId: number, state: 'Accept' | 'Reject') => {
     if (!session?.data?.accessToken) return
 
-    try {
-      const res = await fetchData(API_ENDPOINTS.CLIENT.STUDY.UPDATE_MEMBER_STATE(id, userId) as ApiEndpoint, {
-        method: 'PATCH',
-        body: JSON.stringify({ joinState: state }),
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${session.data.accessToken}`
-        }
-      })
-
-      if (!res.ok) {
-        throw new Error('멤버 상태 업데이트에 실패했습니다.')
-      }
-
-      // Update local state
-      if (state === 'Accept') {
-        const member = waitingMembers.find((m) => m.id === userId)
-        if (member) {
-          setWaitingMembers(waitingMembers.filter((m) => m.id !== userId))
-          setAcceptedMembers([...acceptedMembers, { ...member, joinState: 'Accept' }])
-        }
-      } else {
-        setWaitingMembers(waitingMembers.filter((m) => m.id !== userId))
-      }
-
-      toast({
-        description: state === 'Accept' ? '스터디 참여가 승인되었습니다.' : '스터디 참여가 거절되었습니다.'
-      })
-    } catch (error) {
+    const { error } = await client.study.updateMemberState(id, userId, { joinState: state })
+    if (error) {
       console.error('Failed to update member state:', error)
       toast({
         variant: 'destructive',
-        description: '멤버 상태 업데이트에 실패했습니다.'
+        description: getErrorMessage(error, '멤버 상태 업데이트에 실패했습니다.')
       })
+      return
     }
+
+    // 멤버 목록은 무효화되어 다시 불러오며, 그 전까지 화면에 먼저 반영합니다.
+    const member = waitingMembers.find((m) => m.id === userId)
+    setWaiting((prev) => prev && prev.filter((m) => m.id !== userId))
+    if (state === 'Accept' && member) {
+      setAccepted((prev) => [...(prev ?? []), { ...member, joinState: 'Accept' }])
+    }
+
+    toast({
+      description: state === 'Accept' ? '스터디 참여가 승인되었습니다.' : '스터디 참여가 거절되었습니다.'
+    })
   }
 
+  const isFull = study ? isStudyFull(study, acceptedMembers.length) : false
+
   // 세션이 로드되기 전까지는 로딩 상태 표시
   if (session === null) {
     return (
@@ -185,16 +139,30 @@ export default function StudyDetailPage({ params }: StudyDetailProps) {
     <div className="mx-auto max-w-7xl space-y-8 p-6">
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold">{study.title}</h1>
-        <Button onClick={() => router.push(`/mystudy/${id}/edit`)}>스터디 수정</Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => router.push(`/mystudy/${id}/attendance`)}>
+            출석 관리
+          </Button>
+          {!study.closedAt && (
+            <Button variant="outline" onClick={() => router.push(`/mystudy/${id}/close`)}>
+              스터디 종료
+            </Button>
+          )}
+          <Button onClick={() => router.push(`/mystudy/${id}/edit`)}>스터디 수정</Button>
+        </div>
       </div>
 
       <div className="flex justify-between gap-8">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between">
             <CardTitle>스터디 정보</CardTitle>
-            <div className="rounded-full bg-blue-100 px-3 py-1 text-sm font-medium text-blue-800">
-              {study.isRecruiting ? '모집 중' : '모집 마감'}
-            </div>
+            {study.closedAt ? (
+              <div className="rounded-full bg-gray-100 px-3 py-1 text-sm font-medium text-gray-800">종료</div>
+            ) : (
+              <div className="rounded-full bg-blue-100 px-3 py-1 text-sm font-medium text-blue-800">
+                {study.isRecruiting ? '모집 중' : '모집 마감'}
+              </div>
+            )}
           </CardHeader>
           <CardContent>
             <div className="flex flex-col gap-6">
@@ -233,7 +201,7 @@ export default function StudyDetailPage({ params }: StudyDetailProps) {
                       </div>
                     ) : (
                       <div className="text-lg text-gray-600">
-                        {study.day} {study.startTime.substring(0, 5)} ~ {study.endTime.substring(0, 5)}
+                        {study.day} {formatTimeRange(study.startTime, study.endTime)}
                       </div>
                     )}
                   </div>
@@ -251,8 +219,13 @@ export default function StudyDetailPage({ params }: StudyDetailProps) {
         </Card>
 
         <Card>
-          <CardHeader>
+          <CardHeader className="flex flex-row items-center justify-between gap-4">
             <CardTitle>멤버 관리</CardTitle>
+            <div
+              className={`rounded-full px-3 py-1 text-sm font-medium ${isFull ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-800'}`}
+            >
+              정원 {formatCapacity(study, acceptedMembers.length)}
+            </div>
           </CardHeader>
           <CardContent>
             <Tabs defaultValue="accepted">
@@ -289,29 +262,43 @@ export default function StudyDetailPage({ params }: StudyDetailProps) {
               </TabsContent>
               <TabsContent value="waiting" className="mt-4">
                 <div className="space-y-4">
-                  {waitingMembers.map((member) => (
-                    <div key={member.id} className="flex items-center justify-between rounded-lg border p-4">
-                      <div className="flex items-center gap-4">
-                        {member.profileImage && (
-                          <Image
-                            src={member.profileImage}
-                            alt={member.username}
-                            width={40}
-                            height={40}
-                            className="rounded-full"
-                          />
-                        )}
-                        <div>
-                          <p className="font-medium">{member.username}</p>
-                          <p className="text-sm text-gray-500">{member.position}</p>
+                  {isFull && waitingMembers.length > 0 && (
+                    <p className="rounded-lg bg-gray-100 p-3 text-sm text-gray-600">
+                      정원이 가득 차 승인할 수 없습니다. 참여 중인 멤버가 나가면 대기 순서가 가장 빠른 신청자가 자동으로
+                      승인됩니다.
+                    </p>
+                  )}
+                  {waitingMembers.map((member, index) => (
+                    <div key={member.id} className="space-y-4 rounded-lg border p-4">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-4">
+                          {member.profileImage && (
+                            <Image
+                              src={member.profileImage}
+                              alt={member.username}
+                              width={40}
+                              height={40}
+                              className="rounded-full"
+                            />
+                          )}
+                          <div>
+                            <p className="font-medium">
+                              {member.username}
+                              <span className="ml-2 text-sm font-normal text-gray-500">대기 {index + 1}번</span>
+                            </p>
+                            <p className="text-sm text-gray-500">{member.position}</p>
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <Button disabled={isFull} onClick={() => handleMemberStateUpdate(member.id, 'Accept')}>
+                            승인
+                          </Button>
+                          <Button variant="outline" onClick={() => handleMemberStateUpdate(member.id, 'Reject')}>
+                            거절
+                          </Button>
                         </div>
                       </div>
-                      <div className="flex items-center gap-2">
-                        <Button onClick={() => handleMemberStateUpdate(member.id, 'Accept')}>승인</Button>
-                        <Button variant="outline" onClick={() => handleMemberStateUpdate(member.id, 'Reject')}>
-                          거절
-                        </Button>
-                      </div>
+                      <ApplicationAnswers questions={getApplicationQuestions(study)} answers={member.answers} />
                     </div>
                   ))}
                   {waitingMembers.length === 0 && (
@@ -347,6 +334,17 @@ export default function StudyDetailPage({ params }: StudyDetailProps) {
           </CardContent>
         </Card>
       </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>진행 기록</CardTitle>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-6">
+          {/* 응답에 커리큘럼이 없는 이전 스터디도 있습니다. */}
+          <Curriculum curriculum={study.curriculum} className="rounded-lg bg-gray-50 p-4" />
+          <SessionLogs study={{ id: study.id, curriculum: study.curriculum }} editable />
+        </CardContent>
+      </Card>
     </div>
   )
 }
@@ -1,7 +1,7 @@
 'use client'
 
 import Link from 'next/link'
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 
 import {
   AlertDialog,
@@ -16,102 +16,78 @@ import {
 } from '@/components/ui/alert-dialog'
 import { Button } from '@/components/ui/button'
 import { useToast } from '@/components/ui/use-toast'
-import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
+import { useApiClient, useApiQuery } from '@/lib/api/hooks'
+import { AttendanceSummary, formatAttendanceRate, summarizeAttendance } from '@/lib/attendance'
 import { useSession } from '@/lib/auth/SessionProvider'
-import { fetchData } from '@/lib/fetch'
-import { CustomResponse } from '@/lib/response'
-import { Study } from '@/types'
-
-interface StudyWithState {
-  study: Study
-  state: 'Accept' | 'Wait' | 'Reject'
-}
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { Study, StudyWithState } from '@/types'
 
 export default function MyStudy() {
   const session = useSession()
   const [activeTab, setActiveTab] = useState<'joined' | 'created'>('joined')
-  const [joinedStudies, setJoinedStudies] = useState<StudyWithState[]>([])
-  const [createdStudies, setCreatedStudies] = useState<Study[]>([])
-  const [isLoading, setIsLoading] = useState(true)
+  const isLoggedIn = !!session?.data?.accessToken
+  const {
+    data: createdStudies,
+    error: createdStudiesError,
+    isLoading: isCreatedStudiesLoading
+  } = useApiQuery((client) => (isLoggedIn ? client.profile.createdStudies() : null), [isLoggedIn])
+  const {
+    data: joinedStudies,
+    error: joinedStudiesError,
+    isLoading: isJoinedStudiesLoading,
+    setData: setJoinedStudies
+  } = useApiQuery((client) => (isLoggedIn ? client.profile.joinedStudies() : null), [isLoggedIn])
+  const { data: attendances } = useApiQuery((client) => (isLoggedIn ? client.profile.attendance() : null), [isLoggedIn])
+  const attendanceMap = useMemo(
+    () =>
+      new Map(
+        attendances?.map(({ studyId, records }) => [studyId, summarizeAttendance(records.map(({ status }) => status))])
+      ),
+    [attendances]
+  )
+  const isLoading = isCreatedStudiesLoading || isJoinedStudiesLoading
+  const client = useApiClient()
   const { toast } = useToast()
 
   useEffect(() => {
-    const fetchStudies = async () => {
-      if (!session?.data?.accessToken) {
-        return
-      }
-
-      try {
-        // Fetch created studies
-        const createdStudiesRes = await fetchData(API_ENDPOINTS.CLIENT.PROFILE.CREATED_STUDY as ApiEndpoint, {
-          headers: {
-            Authorization: `Bearer ${session.data.accessToken}`
-          },
-          credentials: 'include',
-          cache: 'no-cache'
-        })
-        if (!createdStudiesRes.ok) {
-          throw new Error('스터디 정보를 불러오는 중 오류가 발생했습니다.')
-        }
-
-        const createdStudiesJson: CustomResponse = await createdStudiesRes.json()
-        setCreatedStudies(createdStudiesJson.data)
-
-        // Fetch joined studies
-        const joinedStudiesRes = await fetchData(API_ENDPOINTS.CLIENT.PROFILE.JOINED_STUDY as ApiEndpoint, {
-          headers: {
-            Authorization: `Bearer ${session.data.accessToken}`
-          },
-          credentials: 'include',
-          cache: 'no-cache'
-        })
-        if (!joinedStudiesRes.ok) {
-          throw new Error('스터디 정보를 불러오는 중 오류가 발생했습니다.')
-        }
-
-        const joinedStudiesJson: CustomResponse = await joinedStudiesRes.json()
-        setJoinedStudies(joinedStudiesJson.data)
-      } catch (error) {
-        console.error('Failed to fetch studies:', error)
-      } finally {
-        setIsLoading(false)
-      }
+    const error = createdStudiesError ?? joinedStudiesError
+    if (error) {
+      console.error('Failed to fetch studies:', error)
     }
-
-    fetchStudies()
-  }, [session])
+  }, [createdStudiesError, joinedStudiesError])
 
   const handleLeaveStudy = async (studyId: number) => {
     if (!session?.data?.accessToken) return
 
-    try {
-      const res = await fetchData(API_ENDPOINTS.CLIENT.STUDY.LEAVE(studyId) as ApiEndpoint, {
-        method: 'DELETE',
-        headers: {
-          Authorization: `Bearer ${session.data.accessToken}`
-        }
-      })
-
-      if (!res.ok) {
-        throw new Error('스터디를 목록에서 삭제에 실패했습니다.')
-      }
-
-      // Remove the study from joinedStudies
-      setJoinedStudies((prev) => prev.filter((study) => study.study.id !== studyId))
-
-      toast({
-        description: '스터디를 목록에서 삭제했습니다.'
-      })
-    } catch (error) {
+    const { error } = await client.study.leave(studyId)
+    if (error) {
       console.error('Failed to delete study:', error)
       toast({
         variant: 'destructive',
-        description: '스터디를 목록에서 삭제에 실패했습니다.'
+        description: getErrorMessage(error, '스터디를 목록에서 삭제에 실패했습니다.')
       })
+      return
     }
+
+    // Remove the study from joinedStudies
+    setJoinedStudies((prev) => prev?.filter((study) => study.study.id !== studyId) ?? null)
+
+    toast({
+      description: '스터디를 목록에서 삭제했습니다.'
+    })
   }
 
-  const StudyContent = ({ study, state, type }: { study: Study; state: string | null; type: 'joined' | 'created' }) => (
+  const StudyContent = ({
+    study,
+    state,
+    type,
+    attendance
+  }: {
+    study: Study
+    state: string | null
+    type: 'joined' | 'created'
+    attendance?: AttendanceSummary
+  }) => (
     <div className="border-b-solid flex border-b border-b-[#dee2e6] px-0 py-[18px] sm:px-4">
       <div className="flex-auto">
         <div className="mb-1 flex-col items-center gap-2 sm:flex sm:flex-row">
@@ -182,6 +158,18 @@ export default function MyStudy() {
               {study.startTime && '~'}
               {study.endTime}
             </span>
+            {attendance && (
+              <>
+                <span> · </span>
+                <span className="font-medium text-[#495057]">출석률 {formatAttendanceRate(attendance)}</span>
+                {attendance.total > 0 && (
+                  <span>
+                    {' '}
+                    (출석 {attendance.present} · 지각 {attendance.late} · 결석 {attendance.absent})
+                  </span>
+                )}
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -207,6 +195,11 @@ export default function MyStudy() {
             <Link href={`/mystudy/${study.id}`} className="cursor-pointer" key={index}>
               <StudyContent study={study} state={state} type={type} />
             </Link>
+          ) : state === 'Accept' ? (
+            // 참여가 승인된 스터디는 커리큘럼과 진행 기록을 볼 수 있습니다.
+            <Link href={`/mystudy/${study.id}/logs`} className="cursor-pointer" key={index}>
+              <StudyContent study={study} state={state} type={type} attendance={attendanceMap.get(study.id)} />
+            </Link>
           ) : (
             <div key={index}>
               <StudyContent study={study} state={state} type={type} />
@@ -245,7 +238,9 @@ export default function MyStudy() {
           스터디장
         </button>
       </div>
-      {activeTab === 'joined' ? renderStudyList(joinedStudies, 'joined') : renderStudyList(createdStudies, 'created')}
+      {activeTab === 'joined'
+        ? renderStudyList(joinedStudies ?? [], 'joined')
+        : renderStudyList(createdStudies ?? [], 'created')}
     </div>
   )
 }
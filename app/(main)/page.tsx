@@ -7,6 +7,7 @@ import { FaAngleRight } from 'react-icons/fa6'
 
 import LoadingSpinner from '@/components/common/LoadingSpinner'
 import { Motion } from '@/components/common/MotionWrapper'
+import AboutStats from '@/components/main/AboutStats'
 import ExampleStudyList from '@/components/main/ExampleStudyList'
 import { MainCarousel } from '@/components/main/MainCarousel'
 import { Button } from '@/components/ui/button'
@@ -17,21 +18,6 @@ const mainIntroduceTextFirstLine: Array<string> = ['개발자', '를 꿈꾸는']
 const mainIntroduceTextSecondLine: Array<string> = ['모든 ', '학생', '들을 ', '위해서']
 const subIntroduceTextFirstLine: Array<string> = ['자유롭게 ', '지식을 ', '공유하고 ', '개발할 ', '수 ', '있는']
 const subIntroduceTextSecondLine: Array<string> = ['성균관대학교 ', '중앙 ', '코딩 ', '동아리']
-const aboutData: { description: string; number: number }[] = [
-  {
-    description: '누적 스터디 개설',
-    number: 70
-  },
-  {
-    description: '평균 신규 지원',
-    number: 80
-  },
-  {
-    description: '평균 스터디 개설',
-    number: 10
-  }
-]
-
 const Home = () => {
   const renderAnimatedText = (text: Array<string>) => {
     return text.map((item: string, index: number) => {
@@ -129,22 +115,7 @@ const Home = () => {
           >
             <p className="mb-8 text-center text-5xl text-[70px] font-semibold max-xl:hidden lg:text-left">About</p>
           </Motion>
-          <div className="flex justify-center gap-x-16 font-semibold max-lg:flex-col xl:justify-between">
-            {aboutData.map((about, index) => (
-              <Motion
-                key={about.description}
-                animation={{
-                  initial: { opacity: 0, y: 100 },
-                  whileInView: { opacity: 1, y: 0 },
-                  viewport: { once: true },
-                  transition: { duration: 1, ease: [0.6, -0.05, 0.01, 0.9], delay: index * 0.5 }
-                }}
-              >
-                <p className="text-[40px]">{about.description}</p>
-                <p className="text-left text-[90px] max-lg:mb-12 max-lg:text-center">{about.number}+</p>
-              </Motion>
-            ))}
-          </div>
+          <AboutStats />
         </div>
         <div className="mt-48 flex justify-center xl:mt-72">
           <div className="w-full font-semibold">
@@ -7,43 +7,10 @@ import removeMd from 'remove-markdown'
 
 import { Button } from '@/components/ui/button'
 import { toast } from '@/components/ui/use-toast'
-import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
+import { useApiClient } from '@/lib/api/hooks'
 import { useSession } from '@/lib/auth/SessionProvider'
-import { fetchData } from '@/lib/fetch'
-import { CustomResponse } from '@/lib/response'
-import { Event, Study } from '@/types'
-
-interface Author {
-  id: number
-  username: string
-  phoneNumber: string
-  studentId: string
-  email: string
-  position: string
-  bio: string | null
-  github: string | null
-  blog: string | null
-  profileImage: string | null
-}
-
-interface Comment {
-  id: number
-  postId: number
-  content: string
-  author: Author
-}
-
-interface Post {
-  id: number
-  groupId: number
-  groupType: 'STUDY' | 'EVENT'
-  title: string
-  content: string
-  author: Author
-  imageSrc: string | null
-  likeCount: number
-  comments: Comment[]
-}
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { Post } from '@/types'
 
 interface Group {
   id: number
@@ -126,18 +93,17 @@ export default function PostBoard() {
   const selectedType = searchParams.get('groupType')
   const router = useRouter()
   const session = useSession()
+  const client = useApiClient()
 
   // Load groups first
   useEffect(() => {
     const fetchGroups = async () => {
       try {
         // Fetch studies
-        const studyRes = await fetchData(API_ENDPOINTS.CLIENT.STUDY.LIST as ApiEndpoint)
-        if (!studyRes.ok) {
+        const { data: studies, error: studyError } = await client.study.list()
+        if (studyError) {
           throw new Error('스터디 목록을 불러오는 중 오류가 발생했습니다.')
         }
-        const studyJson: CustomResponse = await studyRes.json()
-        const studies: Study[] = studyJson.data
         const studyGroups: Group[] = studies.map((study) => ({
           id: study.id,
           title: study.title,
@@ -145,12 +111,10 @@ export default function PostBoard() {
         }))
 
         // Fetch events
-        const eventRes = await fetchData(API_ENDPOINTS.CLIENT.EVENT.LIST as ApiEndpoint)
-        if (!eventRes.ok) {
+        const { data: events, error: eventError } = await client.event.list()
+        if (eventError) {
           throw new Error('이벤트 목록을 불러오는 중 오류가 발생했습니다.')
         }
-        const eventJson: CustomResponse = await eventRes.json()
-        const events: Event[] = eventJson.data
         const eventGroups: Group[] = events.map((event) => ({
           id: event.id,
           title: event.title,
@@ -187,13 +151,11 @@ export default function PostBoard() {
       try {
         setIsPostsLoading(true)
         const groupType = selectedType.toUpperCase() as 'STUDY' | 'EVENT'
-        const res = await fetchData(API_ENDPOINTS.CLIENT.POST.LIST(groupType))
+        const { data: posts, error } = await client.post.list(groupType)
 
-        if (!res.ok) {
+        if (error) {
           throw new Error('게시글을 불러오는 중 오류가 발생했습니다.')
         }
-        const json: CustomResponse = await res.json()
-        const posts: Post[] = json.data
         // Filter posts by selected group
         setPosts(posts.filter((post) => post.groupId.toString() === selectedId))
       } catch (error) {
@@ -205,7 +167,7 @@ export default function PostBoard() {
     }
 
     fetchPosts()
-  }, [selectedId, selectedType])
+  }, [selectedId, selectedType, client])
 
   if (error) {
     return (
@@ -234,33 +196,20 @@ export default function PostBoard() {
                 }
 
                 if (selectedType === 'study') {
-                  try {
-                    const res = await fetchData(
-                      API_ENDPOINTS.CLIENT.STUDY.IS_JOINED(Number(selectedId)) as ApiEndpoint,
-                      {
-                        headers: {
-                          Authorization: `Bearer ${session.data.accessToken}`
-                        }
-                      }
-                    )
-
-                    if (!res.ok) {
-                      throw new Error('스터디 참여 여부를 확인하는데 실패했습니다.')
-                    }
-
-                    const json = await res.json()
-                    if (!json.data) {
-                      toast({
-                        variant: 'destructive',
-                        description: '스터디에 참여하지 않아 게시글을 작성할 수 없습니다.'
-                      })
-                      return
-                    }
-                  } catch (error) {
+                  const { data: isJoined, error } = await client.study.isJoined(Number(selectedId))
+                  if (error) {
                     console.error('Failed to check study membership:', error)
                     toast({
                       variant: 'destructive',
-                      description: '스터디 참여 여부를 확인하는데 실패했습니다.'
+                      description: getErrorMessage(error, '스터디 참여 여부를 확인하는데 실패했습니다.')
+                    })
+                    return
+                  }
+
+                  if (!isJoined) {
+                    toast({
+                      variant: 'destructive',
+                      description: '스터디에 참여하지 않아 게시글을 작성할 수 없습니다.'
                     })
                     return
                   }
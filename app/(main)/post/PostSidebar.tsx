@@ -4,10 +4,7 @@ import Link from 'next/link'
 import { useSearchParams } from 'next/navigation'
 import { useEffect, useState } from 'react'
 
-import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
-import { fetchData } from '@/lib/fetch'
-import { CustomResponse } from '@/lib/response'
-import { Event, Study } from '@/types'
+import { useApiClient } from '@/lib/api/hooks'
 
 interface Group {
   id: number
@@ -21,17 +18,16 @@ export default function PostSidebar() {
   const searchParams = useSearchParams()
   const selectedId = searchParams.get('id')
   const selectedType = searchParams.get('groupType')
+  const client = useApiClient()
 
   useEffect(() => {
     const fetchGroups = async () => {
       try {
         // Fetch studies
-        const studyRes = await fetchData(API_ENDPOINTS.CLIENT.STUDY.LIST as ApiEndpoint)
-        if (!studyRes.ok) {
+        const { data: studies, error: studyError } = await client.study.list()
+        if (studyError) {
           throw new Error('스터디 목록을 불러오는 중 오류가 발생했습니다.')
         }
-        const studyJson: CustomResponse = await studyRes.json()
-        const studies: Study[] = studyJson.data
         const studyGroups: Group[] = studies.map((study) => ({
           id: study.id,
           title: study.title,
@@ -39,12 +35,10 @@ export default function PostSidebar() {
         }))
 
         // Fetch events
-        const eventRes = await fetchData(API_ENDPOINTS.CLIENT.EVENT.LIST as ApiEndpoint)
-        if (!eventRes.ok) {
+        const { data: events, error: eventError } = await client.event.list()
+        if (eventError) {
           throw new Error('이벤트 목록을 불러오는 중 오류가 발생했습니다.')
         }
-        const eventJson: CustomResponse = await eventRes.json()
-        const events: Event[] = eventJson.data
         const eventGroups: Group[] = events.map((event) => ({
           id: event.id,
           title: event.title,
@@ -61,7 +55,7 @@ export default function PostSidebar() {
     }
 
     fetchGroups()
-  }, [])
+  }, [client])
 
   if (error) {
     return <div className="p-4 text-center text-gray-500">{error}</div>
@@ -13,8 +13,11 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { useToast } from '@/components/ui/use-toast'
 import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
+import { invalidateQueries } from '@/lib/api/cache'
+import { useDraftGuard } from '@/lib/auth/hooks'
 import { useSession } from '@/lib/auth/SessionProvider'
 import { fetchData } from '@/lib/fetch'
+import { getErrorMessage, toApiError } from '@/lib/response/catalogue'
 import { useSupabaseFile } from '@/lib/supabase/hooks'
 import { Post } from '@/types'
 
@@ -40,19 +43,25 @@ export default function EditPost() {
   const [imageFile, setImageFile] = useState<File | null>(null)
   const [image, setImage] = useState<string>('')
   const [content, setContent] = useState<string>('')
+  const [savedContent, setSavedContent] = useState<string>('')
   const [isLoading, setIsLoading] = useState(true)
+  const isPostLoadedRef = useRef(false)
 
   const {
     handleSubmit,
     register,
     setValue,
-    formState: { errors, isSubmitting }
+    formState: { errors, isDirty, isSubmitting, isSubmitSuccessful }
   } = useForm<PostForm>({
     resolver: zodResolver(schema)
   })
 
+  useDraftGuard((isDirty || content !== savedContent) && !isSubmitSuccessful)
+
   useEffect(() => {
     const fetchPost = async () => {
+      // 토큰 재발급으로 세션이 바뀌어도 수정 중인 내용을 덮어쓰지 않도록 한 번만 불러옴
+      if (isPostLoadedRef.current) return
       if (!session?.data?.accessToken) {
         router.push('/login')
         return
@@ -60,13 +69,11 @@ export default function EditPost() {
 
       try {
         const res = await fetchData(API_ENDPOINTS.CLIENT.POST.RETRIEVE(Number(params.id)) as ApiEndpoint, {
-          headers: {
-            Authorization: `Bearer ${session.data.accessToken}`
-          }
+          authenticated: true
         })
 
         if (!res.ok) {
-          throw new Error('게시글을 불러오는데 실패했습니다.')
+          throw await toApiError(res)
         }
 
         const json = await res.json()
@@ -86,6 +93,8 @@ export default function EditPost() {
         setValue('title', post.title)
         setValue('content', post.content)
         setContent(post.content)
+        setSavedContent(post.content)
+        isPostLoadedRef.current = true
         if (post.imageSrc) {
           setImage(post.imageSrc)
           setValue('imageSrc', post.imageSrc)
@@ -94,7 +103,7 @@ export default function EditPost() {
         console.error('Failed to load post:', error)
         toast({
           variant: 'destructive',
-          description: '게시글을 불러오는데 실패했습니다.'
+          description: getErrorMessage(error, '게시글을 불러오는데 실패했습니다.')
         })
         router.back()
       } finally {
@@ -127,10 +136,7 @@ export default function EditPost() {
 
       const res = await fetchData(API_ENDPOINTS.CLIENT.POST.UPDATE(Number(params.id)) as ApiEndpoint, {
         method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${session.data.accessToken}`
-        },
+        authenticated: true,
         body: JSON.stringify({
           title: data.title,
           content: content || '',
@@ -141,8 +147,13 @@ export default function EditPost() {
       if (!res.ok) {
         const errorData = await res.json()
         console.error('Error response:', errorData)
-        throw new Error('게시글 수정에 실패했습니다.')
+        throw await toApiError(res)
       }
+      invalidateQueries(
+        API_ENDPOINTS.CLIENT.POST.RETRIEVE(Number(params.id)).url,
+        API_ENDPOINTS.CLIENT.POST.LIST('STUDY').url,
+        API_ENDPOINTS.CLIENT.POST.LIST('EVENT').url
+      )
 
       toast({
         title: '게시글 수정 완료',
@@ -155,7 +166,7 @@ export default function EditPost() {
       console.error('Failed to update post:', error)
       toast({
         title: '게시글 수정 실패',
-        description: '게시글 수정 중 오류가 발생했습니다.',
+        description: getErrorMessage(error, '게시글 수정 중 오류가 발생했습니다.'),
         variant: 'destructive'
       })
     }
@@ -22,9 +22,11 @@ import { Button } from '@/components/ui/button'
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
 import { useToast } from '@/components/ui/use-toast'
 import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
+import { invalidateQueries } from '@/lib/api/cache'
 import { useSession } from '@/lib/auth/SessionProvider'
 import { fetchData } from '@/lib/fetch'
 import { CustomResponse } from '@/lib/response'
+import { getErrorMessage, toApiError } from '@/lib/response/catalogue'
 import { Post } from '@/types'
 
 export default function PostDetail() {
@@ -50,13 +52,11 @@ export default function PostDetail() {
 
     try {
       const res = await fetchData(API_ENDPOINTS.CLIENT.POST.RETRIEVE(Number(params.id)) as ApiEndpoint, {
-        headers: {
-          Authorization: `Bearer ${session.data.accessToken}`
-        }
+        authenticated: true
       })
 
       if (!res.ok) {
-        throw new Error('게시글을 불러오는데 실패했습니다.')
+        throw await toApiError(res)
       }
 
       const json: CustomResponse = await res.json()
@@ -71,7 +71,7 @@ export default function PostDetail() {
       console.error('Failed to load post:', error)
       toast({
         variant: 'destructive',
-        description: '게시글을 불러오는데 실패했습니다.'
+        description: getErrorMessage(error, '게시글을 불러오는데 실패했습니다.')
       })
     } finally {
       setIsLoading(false)
@@ -90,21 +90,20 @@ export default function PostDetail() {
     try {
       const res = await fetchData(API_ENDPOINTS.CLIENT.POST.COMMENT.DELETE(commentId) as ApiEndpoint, {
         method: 'DELETE',
-        headers: {
-          Authorization: `Bearer ${session.data.accessToken}`
-        }
+        authenticated: true
       })
 
       if (!res.ok) {
-        throw new Error('댓글 삭제에 실패했습니다.')
+        throw await toApiError(res)
       }
+      invalidateQueries(API_ENDPOINTS.CLIENT.POST.LIST('STUDY').url, API_ENDPOINTS.CLIENT.POST.LIST('EVENT').url)
 
       fetchPost()
     } catch (error) {
       console.error('Failed to delete comment:', error)
       toast({
         variant: 'destructive',
-        description: '댓글 삭제에 실패했습니다.'
+        description: getErrorMessage(error, '댓글 삭제에 실패했습니다.')
       })
     }
   }
@@ -115,14 +114,16 @@ export default function PostDetail() {
     try {
       const res = await fetchData(API_ENDPOINTS.CLIENT.POST.DELETE(post.id) as ApiEndpoint, {
         method: 'DELETE',
-        headers: {
-          Authorization: `Bearer ${session.data.accessToken}`
-        }
+        authenticated: true
       })
 
       if (!res.ok) {
-        throw new Error('게시글 삭제에 실패했습니다.')
+        throw await toApiError(res)
       }
+      invalidateQueries(
+        API_ENDPOINTS.CLIENT.POST.RETRIEVE(post.id).url,
+        API_ENDPOINTS.CLIENT.POST.LIST(post.groupType).url
+      )
 
       toast({
         title: '게시글이 삭제되었습니다.',
@@ -135,7 +136,7 @@ export default function PostDetail() {
       console.error('Failed to delete post:', error)
       toast({
         variant: 'destructive',
-        description: '게시글 삭제에 실패했습니다.'
+        description: getErrorMessage(error, '게시글 삭제에 실패했습니다.')
       })
     }
   }
@@ -155,13 +156,11 @@ export default function PostDetail() {
       setIsLikeLoading(true)
       const endpoint = isLiked ? API_ENDPOINTS.CLIENT.POST.LIKE.DELETE : API_ENDPOINTS.CLIENT.POST.LIKE.CREATE
       const res = await fetchData(endpoint(Number(params.id)) as ApiEndpoint, {
-        headers: {
-          Authorization: `Bearer ${session.data.accessToken}`
-        }
+        authenticated: true
       })
 
       if (!res.ok) {
-        throw new Error('좋아요 처리 중 오류가 발생했습니다.')
+        throw await toApiError(res)
       }
 
       // 로컬 스토리지 업데이트
@@ -178,7 +177,7 @@ export default function PostDetail() {
       console.error('Failed to toggle like:', error)
       toast({
         variant: 'destructive',
-        description: '좋아요 처리 중 오류가 발생했습니다.'
+        description: getErrorMessage(error, '좋아요 처리 중 오류가 발생했습니다.')
       })
     } finally {
       setIsLikeLoading(false)
@@ -13,8 +13,11 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { useToast } from '@/components/ui/use-toast'
 import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
+import { invalidateQueries } from '@/lib/api/cache'
+import { useDraftGuard } from '@/lib/auth/hooks'
 import { useSession } from '@/lib/auth/SessionProvider'
 import { fetchData } from '@/lib/fetch'
+import { getErrorMessage, toApiError } from '@/lib/response/catalogue'
 import { useSupabaseFile } from '@/lib/supabase/hooks'
 
 const schema = z.object({
@@ -46,11 +49,13 @@ function CreatePostForm() {
     handleSubmit,
     register,
     setValue,
-    formState: { errors, isSubmitting }
+    formState: { errors, isDirty, isSubmitting, isSubmitSuccessful }
   } = useForm<PostForm>({
     resolver: zodResolver(schema)
   })
 
+  useDraftGuard((isDirty || content.length > 0) && !isSubmitSuccessful)
+
   // 로그인 체크
   if (!session?.data?.accessToken) {
     return null
@@ -84,10 +89,7 @@ function CreatePostForm() {
         API_ENDPOINTS.CLIENT.POST.CREATE(groupType as 'STUDY' | 'EVENT', Number(groupId)) as ApiEndpoint,
         {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${session.data.accessToken}`
-          },
+          authenticated: true,
           body: JSON.stringify({
             title: data.title,
             content: content || '', // 직접 content state 값을 사용
@@ -99,8 +101,9 @@ function CreatePostForm() {
       if (!res.ok) {
         const errorData = await res.json()
         console.error('Error response:', errorData)
-        throw new Error('게시글 작성에 실패했습니다.')
+        throw await toApiError(res)
       }
+      invalidateQueries(API_ENDPOINTS.CLIENT.POST.LIST(groupType as 'STUDY' | 'EVENT').url)
 
       toast({
         title: '게시글 작성 완료',
@@ -113,7 +116,7 @@ function CreatePostForm() {
       console.error('Failed to create post:', error)
       toast({
         title: '게시글 작성 실패',
-        description: '게시글 작성 중 오류가 발생했습니다.',
+        description: getErrorMessage(error, '게시글 작성 중 오류가 발생했습니다.'),
         variant: 'destructive'
       })
     }
@@ -0,0 +1,49 @@
+'use client'
+
+import Link from 'next/link'
+
+import { Button } from '@/components/ui/button'
+import { ROUTES } from '@/constants/routes'
+import { useApiQuery } from '@/lib/api/hooks'
+import { formatHours } from '@/lib/certificate'
+import { formatKst } from '@/lib/date'
+import { formatSemester } from '@/lib/semester'
+
+const Certificates = () => {
+  const { data: certificates, error } = useApiQuery((client) => client.profile.certificates(), [])
+
+  return (
+    <div className="flex w-full flex-col gap-4 rounded-xl border border-gray-200 p-8 max-sm:p-5">
+      <div>
+        <p className="text-xl font-bold">수료증</p>
+        <p className="text-sm text-gray-400">스터디장이 스터디를 종료하면 수료한 스터디의 수료증이 발급됩니다</p>
+      </div>
+      {error ? (
+        <p className="text-sm text-gray-500">수료증을 불러오지 못했습니다.</p>
+      ) : certificates?.length === 0 ? (
+        <p className="text-sm text-gray-500">발급받은 수료증이 없습니다.</p>
+      ) : (
+        <ul className="flex flex-col divide-y divide-gray-200">
+          {certificates?.map((certificate) => (
+            <li key={certificate.id} className="flex items-center justify-between gap-4 py-3">
+              <div>
+                <p className="font-semibold">{certificate.studyTitle}</p>
+                <p className="text-sm text-gray-500">
+                  {formatSemester(certificate)} · {formatHours(certificate.hours)} · {certificate.mentorName} ·{' '}
+                  {formatKst(certificate.issuedAt, 'yyyy.MM.dd')} 발급
+                </p>
+              </div>
+              <Button variant="outline" size="sm" asChild>
+                <Link href={ROUTES.CERTIFICATE(`${certificate.id}`).url} target="_blank">
+                  수료증 보기
+                </Link>
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default Certificates
@@ -2,7 +2,6 @@
 
 import { zodResolver } from '@hookform/resolvers/zod'
 import Image from 'next/image'
-import { Session } from 'next-auth'
 import { useRef, useState } from 'react'
 import { useForm } from 'react-hook-form'
 
@@ -22,11 +21,10 @@ type ProfileForm = {
 }
 
 type ProfileProps = {
-  session: Session
   user: UserProfile
 }
 
-const ProfileCards = ({ session, user }: ProfileProps) => {
+const ProfileCards = ({ user }: ProfileProps) => {
   const { toast } = useToast()
 
   const { handleSubmit, register, setValue } = useForm<ProfileForm>({
@@ -81,10 +79,7 @@ const ProfileCards = ({ session, user }: ProfileProps) => {
           ...data,
           profileImage: fileUrl
         }),
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${session.data?.accessToken}`
-        },
+        authenticated: true,
         credentials: 'include'
       })
       if (!res.ok) {
@@ -99,10 +94,7 @@ const ProfileCards = ({ session, user }: ProfileProps) => {
           ...data,
           profileImage: user.profileImage
         }),
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${session.data?.accessToken}`
-        },
+        authenticated: true,
         credentials: 'include'
       })
       if (!res.ok) {
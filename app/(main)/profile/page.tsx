@@ -8,6 +8,7 @@ import { fetchData } from '@/lib/fetch'
 import { CustomResponse } from '@/lib/response'
 import { UserProfile } from '@/types'
 
+import Certificates from './_components/Certificates'
 import ProfileCards from './_components/ProfileCards'
 
 const Profile = async () => {
@@ -34,8 +35,9 @@ const Profile = async () => {
   return (
     <div className="flex flex-col items-center justify-center">
       <SectionBanner title="내 프로필" />
-      <div className="flex max-w-7xl flex-col items-center justify-center pb-12 sm:pb-24">
-        <ProfileCards session={session} user={user} />
+      <div className="flex max-w-7xl flex-col items-center justify-center gap-6 pb-12 sm:pb-24">
+        <ProfileCards user={user} />
+        <Certificates />
       </div>
     </div>
   )
@@ -14,6 +14,7 @@ import { useToast } from '@/components/ui/use-toast'
 import { ROUTES } from '@/constants/routes'
 import { extendedSignUpSchema } from '@/constants/zodSchema/signup'
 import { DuplicatedCredentialsErrorCode, InvalidSignupCredentialsErrorCode } from '@/lib/auth/errors'
+import { getErrorMessage } from '@/lib/response/catalogue'
 import { cn } from '@/lib/utils'
 import Welcome from '@/public/welcome.svg'
 
@@ -65,12 +66,12 @@ export default function Signup() {
       ;['username', 'phoneNumber', 'studentId', 'email'].forEach((key) => {
         setError(key as keyof FormData, {
           type: 'manual',
-          message: '이미 가입된 회원 정보입니다.'
+          message: getErrorMessage(res.code)
         })
       })
       toast({
         title: '회원가입 실패',
-        description: '이미 가입된 회원 정보입니다.',
+        description: getErrorMessage(res.code),
         variant: 'destructive'
       })
       return
@@ -79,12 +80,12 @@ export default function Signup() {
       ;['username', 'phoneNumber', 'studentId', 'email', 'password', 'confirmPassword'].forEach((key) => {
         setError(key as keyof FormData, {
           type: 'manual',
-          message: '회원가입 정보가 올바르지 않습니다.'
+          message: getErrorMessage(res.code)
         })
       })
       toast({
         title: '회원가입 실패',
-        description: '회원가입 정보가 올바르지 않습니다.',
+        description: getErrorMessage(res.code),
         variant: 'destructive'
       })
       return
@@ -3,8 +3,9 @@
 import { zodResolver } from '@hookform/resolvers/zod'
 import { Clock } from 'lucide-react'
 import Image from 'next/image'
+import Link from 'next/link'
 import { redirect, useRouter } from 'next/navigation'
-import { SetStateAction, useRef, useState } from 'react'
+import { useRef, useState } from 'react'
 import { Controller, useForm } from 'react-hook-form'
 import { MdHelpOutline } from 'react-icons/md'
 import { z } from 'zod'
@@ -12,6 +13,9 @@ import { z } from 'zod'
 import ScrollToTopButton from '@/components/common/ScrollToTopButton'
 import SectionBanner from '@/components/common/SectionBanner'
 import StudyCard from '@/components/common/StudyCard'
+import TagInput from '@/components/common/TagInput'
+import ApplicationQuestionEditor from '@/components/study/open/ApplicationQuestionEditor'
+import CurriculumEditor from '@/components/study/open/CurriculumEditor'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -23,7 +27,6 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger
 } from '@/components/ui/alert-dialog'
-import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
@@ -32,10 +35,15 @@ import { Textarea } from '@/components/ui/textarea'
 import { formatDateToTime } from '@/components/ui/time-picker-utils'
 import { TimePicker } from '@/components/ui/timepicker'
 import { useToast } from '@/components/ui/use-toast'
-import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
 import { ROUTES } from '@/constants/routes'
+import { isRequestFailed } from '@/lib/api/client'
+import { useApiClient, useApiQuery } from '@/lib/api/hooks'
+import { applicationQuestionsSchema, normalizeApplicationQuestions } from '@/lib/application'
 import { useSession } from '@/lib/auth/SessionProvider'
-import { fetchData } from '@/lib/fetch'
+import { curriculumSchema, normalizeCurriculum } from '@/lib/curriculum'
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { estimateSemester, findOpenSemester, findUpcomingSemester, formatPeriod, formatSemester } from '@/lib/semester'
+import { MAX_STUDY_MEMBERS, maxMembersSchema, toMaxMembers } from '@/lib/study'
 import { useSupabaseFile } from '@/lib/supabase/hooks'
 import { Campus, Day, Level, Study } from '@/types'
 
@@ -64,7 +72,10 @@ const schema = z.object({
   description: z
     .string()
     .min(1, { message: '설명을 입력해주세요' })
-    .max(800, { message: '설명은 800자 이내로 입력해주세요' })
+    .max(800, { message: '설명은 800자 이내로 입력해주세요' }),
+  maxMembers: maxMembersSchema,
+  curriculum: curriculumSchema,
+  applicationQuestions: applicationQuestionsSchema
 })
 
 // Iterators
@@ -76,6 +87,7 @@ const levelOptions: Level[] = ['초급', '중급', '고급']
 export default function OpenStudy() {
   const session = useSession()
   const router = useRouter()
+  const client = useApiClient()
   const { toast } = useToast()
   const fileHandler = useSupabaseFile({ pathPrefix: 'image/study' })
   const fileRef = useRef<HTMLInputElement>(null)
@@ -86,28 +98,34 @@ export default function OpenStudy() {
     register,
     setValue,
     getValues,
-    watch,
     control,
-    setError,
-    clearErrors,
     formState: { errors, isValid, isSubmitting }
   } = useForm<StudyForm>({
     resolver: zodResolver(schema),
     defaultValues: {
-      tags: []
+      tags: [],
+      maxMembers: null,
+      curriculum: [],
+      applicationQuestions: []
     }
   })
 
   // State management
   const [imageFile, setImageFile] = useState<File | null>(null)
   const [image, setImage] = useState<string>('')
-  const [stackError, setTagError] = useState<string>('')
-  const [currentTag, setCurrentTag] = useState<string>('')
   const [startTime, setStartTime] = useState<TimeInput>(undefined)
   const [endTime, setEndTime] = useState<TimeInput>(undefined)
+  const {
+    data: semesters,
+    error: semesterError,
+    isLoading: isSemesterLoading
+  } = useApiQuery((client) => client.semester.list(), [])
+  const openingSemester = semesters ? findOpenSemester(semesters, 'openingPeriod') : undefined
+  // 학기 설정을 불러오지 못하면 스터디 목록처럼 개설 기간 검사는 서버에 맡기고, 날짜로 추정한 학기로 개설합니다.
+  const targetSemester = openingSemester ?? (semesterError ? estimateSemester() : undefined)
 
   // Authentication check
-  if (session === null) {
+  if (session === null || isSemesterLoading) {
     return null // Wait for session to load
   }
 
@@ -115,11 +133,23 @@ export default function OpenStudy() {
     redirect(ROUTES.LOGIN.url)
   }
 
-  // Check if user can open study
-  const canOpenStudy = session.data.role ? ['ROLE_VERIFIED', 'ROLE_ADMIN'].includes(session.data.role) : false
-
-  if (!canOpenStudy) {
-    redirect(ROUTES.STUDY.index.url)
+  if (!targetSemester) {
+    const upcoming = semesters ? findUpcomingSemester(semesters, 'openingPeriod') : undefined
+    return (
+      <div className="flex flex-col items-center">
+        <SectionBanner title="Open Study" description="지금은 스터디 개설 기간이 아닙니다" />
+        <div className="flex flex-col items-center gap-6 px-3 text-center">
+          <p className="text-gray-600">
+            {upcoming
+              ? `${formatSemester(upcoming)} 스터디 개설 기간은 ${formatPeriod(upcoming.openingPeriod)} 입니다.`
+              : '예정된 스터디 개설 기간이 없습니다. 운영진에게 문의해주세요.'}
+          </p>
+          <Button asChild>
+            <Link href={ROUTES.STUDY.index.url}>스터디 목록으로</Link>
+          </Button>
+        </div>
+      </div>
+    )
   }
 
   const onSubmit = async (data: StudyForm) => {
@@ -128,22 +158,23 @@ export default function OpenStudy() {
     if (!imageFile) return
     const file = await fileHandler.upload(imageFile)
     const fileUrl = file.supabaseFileData.url
-    const res = await fetchData(API_ENDPOINTS.CLIENT.STUDY.CREATE as ApiEndpoint, {
-      body: JSON.stringify({
-        ...data,
-        imageSrc: fileUrl,
-        isRecruiting: true,
-        semester: 'Spring',
-        year: 2025
-      }),
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${session.data.accessToken}`
-      },
-      credentials: 'include'
+    const { error } = await client.study.create({
+      ...data,
+      applicationQuestions: normalizeApplicationQuestions(data.applicationQuestions),
+      curriculum: normalizeCurriculum(data.curriculum),
+      imageSrc: fileUrl,
+      isRecruiting: true,
+      semester: targetSemester.semester,
+      year: targetSemester.year
     })
-    if (!res.ok) {
+    // 스터디가 생성되었다면 응답 형식이 맞지 않더라도 이미지를 지우지 않습니다.
+    if (isRequestFailed(error)) {
       await file.delete()
+      toast({
+        variant: 'destructive',
+        title: '스터디 생성 실패',
+        description: getErrorMessage(error, '스터디를 생성하는 중 오류가 발생했습니다.')
+      })
       return
     }
     file.commit()
@@ -164,38 +195,6 @@ export default function OpenStudy() {
     }
   }
 
-  // Tag
-  const watchedTags: string[] = watch('tags')
-
-  const handleTagChange = (e: { target: { value: SetStateAction<string> } }) => {
-    setCurrentTag(e.target.value)
-  }
-  const handleTagAdd = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    const newTag = e.currentTarget.value.trim()
-
-    if (watchedTags.length === 4) {
-      newTag !== '' ? setTagError('스택은 최대 4개까지만 입력 가능합니다') : setTagError('')
-    }
-
-    if (e.key === 'Enter' && newTag !== '') {
-      watchedTags.length !== 4 ? handleDuplicateTag() : setCurrentTag('')
-    }
-  }
-  const handleDuplicateTag = () => {
-    const newTag = getValues('tags').concat(currentTag)
-
-    if (new Set(newTag).size === getValues('tags').length) {
-      setError('tags', {
-        type: 'Duplicate',
-        message: '중복 스택이 존재합니다'
-      })
-    } else {
-      clearErrors('tags')
-      setValue('tags', getValues('tags') ? newTag : [currentTag])
-    }
-    setCurrentTag('')
-  }
-
   // Time
   type TimeInput = Date | undefined
 
@@ -216,6 +215,10 @@ export default function OpenStudy() {
   return (
     <div className="flex flex-col items-center">
       <SectionBanner title="Open Study" description="새로운 스터디 분반을 개설합니다!" />
+      <p className="-mt-4 mb-6 text-sm text-gray-500">
+        {formatSemester(targetSemester)} 스터디로 개설됩니다
+        {openingSemester && ` · 개설 기간 ${formatPeriod(openingSemester.openingPeriod)}`}
+      </p>
       <form className="flex flex-col gap-4 max-sm:px-3" onSubmit={handleSubmit(onSubmit)}>
         <div className="flex gap-8 max-md:flex-col max-md:gap-4">
           <div className="flex flex-col gap-1">
@@ -327,6 +330,20 @@ export default function OpenStudy() {
             />
             {errors.level && <p className="text-sm text-red-500">{errors.level.message}</p>}
           </div>
+
+          <div className="flex flex-col gap-1">
+            <p className="text-xl font-semibold">최대 인원</p>
+            <Input
+              type="number"
+              min={1}
+              max={MAX_STUDY_MEMBERS}
+              placeholder="제한 없음"
+              className="w-32"
+              {...register('maxMembers', { setValueAs: toMaxMembers })}
+            />
+            <p className="text-sm text-gray-500">정원이 차면 이후 신청자는 대기 순서대로 자동 승인됩니다.</p>
+            {errors.maxMembers && <p className="text-sm text-red-500">{errors.maxMembers.message}</p>}
+          </div>
         </div>
 
         <div className="flex flex-col gap-1">
@@ -346,50 +363,20 @@ export default function OpenStudy() {
               </PopoverContent>
             </Popover>
           </div>
-          {stackError && <p className="text-sm text-red-500">{stackError}</p>}
-          <div className="flex flex-col gap-4">
-            <div className="flex items-center gap-4">
-              <div className="relative">
-                <Input
-                  placeholder="주제를 입력해주세요"
-                  id="tags"
-                  value={currentTag}
-                  onChange={handleTagChange}
-                  onKeyUp={handleTagAdd}
-                  className="w-60"
-                />
-                <Button
-                  type="button"
-                  className="absolute right-2 top-1/2 z-10 h-4 w-4 -translate-y-1/2 p-3 text-xl"
-                  disabled={currentTag.trim() === '' || (watchedTags && watchedTags.length >= 4)}
-                  onClick={handleDuplicateTag}
-                >
-                  +
-                </Button>
-              </div>
-              <Button
-                variant={'secondary'}
-                className="p-3"
-                type="button"
-                onClick={() => {
-                  setTagError('')
-                  clearErrors('tags')
-                  setValue('tags', [])
-                }}
-              >
-                Reset
-              </Button>
-            </div>
-            {errors.tags && <p className="-mt-2 text-sm text-red-500">{errors.tags.message}</p>}
-            <div className="flex gap-4">
-              {watchedTags &&
-                watchedTags.map((tags, index) => (
-                  <Badge variant="secondary" key={index}>
-                    {tags}
-                  </Badge>
-                ))}
-            </div>
-          </div>
+          <Controller
+            control={control}
+            name="tags"
+            render={({ field }) => (
+              <TagInput
+                id="tags"
+                noun="스택"
+                placeholder="주제를 입력해주세요"
+                value={field.value}
+                onChange={field.onChange}
+                error={errors.tags?.message}
+              />
+            )}
+          />
         </div>
 
         <div className="flex flex-col gap-1">
@@ -405,17 +392,38 @@ export default function OpenStudy() {
           />
           {errors.description && <p className="text-sm text-red-500">{errors.description.message}</p>}
         </div>
+
+        <div className="flex flex-col gap-1">
+          <p className="text-xl font-semibold">커리큘럼</p>
+          <p className="mb-2 text-sm text-gray-500">
+            주차별로 다룰 내용을 작성해주세요. 신청자는 스터디 상세 정보에서 커리큘럼을 확인할 수 있습니다.
+          </p>
+          <Controller
+            control={control}
+            name="curriculum"
+            render={({ field: { onChange, value } }) => (
+              <CurriculumEditor value={value} onChange={onChange} errors={errors.curriculum} />
+            )}
+          />
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <p className="text-xl font-semibold">신청서 문항</p>
+          <p className="mb-2 text-sm text-gray-500">
+            신청자에게 받을 질문을 추가해주세요. 답변은 나의 스터디에서 신청자별로 확인할 수 있습니다.
+          </p>
+          <Controller
+            control={control}
+            name="applicationQuestions"
+            render={({ field: { onChange, value } }) => (
+              <ApplicationQuestionEditor value={value} onChange={onChange} errors={errors.applicationQuestions} />
+            )}
+          />
+        </div>
         <div className="my-8 flex justify-end">
           <AlertDialog>
             <AlertDialogTrigger asChild>
-              <Button
-                type="button"
-                className="px-8 font-extrabold"
-                onClick={() => {
-                  trigger()
-                  isValid && setTagError('')
-                }}
-              >
+              <Button type="button" className="px-8 font-extrabold" onClick={() => trigger()}>
                 제출하기
               </Button>
             </AlertDialogTrigger>
@@ -452,10 +460,14 @@ export default function OpenStudy() {
                       isStaff: false,
                       username: ''
                     },
-                    semester: '1',
+                    semester: targetSemester.semester,
                     tags: getValues('tags') || [],
                     startTime: getValues('startTime') || '00:00',
-                    title: getValues('title') || ''
+                    title: getValues('title') || '',
+                    applicationQuestions: [],
+                    curriculum: [],
+                    maxMembers: getValues('maxMembers') ?? null,
+                    closedAt: null
                   }}
                 />
               </div>
@@ -3,6 +3,7 @@ import { Suspense } from 'react'
 import LoadingSpinner from '@/components/common/LoadingSpinner'
 import SectionBanner from '@/components/common/SectionBanner'
 import DescriptionCard, { DescriptionCardProps } from '@/components/common/Study/DescriptionCard'
+import EnrollmentBanner from '@/components/study/EnrollmentBanner'
 import StudyList from '@/components/study/StudyList'
 
 const descriptions: DescriptionCardProps[] = [
@@ -57,6 +58,8 @@ export default function Study() {
           />
         </section>
 
+        <EnrollmentBanner />
+
         <Suspense fallback={<LoadingSpinner />}>
           <StudyList />
         </Suspense>
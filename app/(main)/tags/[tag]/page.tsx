@@ -0,0 +1,92 @@
+'use client'
+
+import Link from 'next/link'
+import { useMemo } from 'react'
+
+import EventCard from '@/components/common/EventCard'
+import LoadingSpinner from '@/components/common/LoadingSpinner'
+import SectionBanner from '@/components/common/SectionBanner'
+import StudyCard from '@/components/common/StudyCard'
+import { Button } from '@/components/ui/button'
+import { ROUTES } from '@/constants/routes'
+import { useApiQuery } from '@/lib/api/hooks'
+import { DEFAULT_EVENT_FILTERS, DEFAULT_STUDY_FILTERS, toEventSearchParams, toStudySearchParams } from '@/lib/search'
+import { filterByTag, findTag, normalizeTag } from '@/lib/tag'
+
+interface TagProps {
+  params: {
+    tag: string
+  }
+}
+
+// 별칭으로 들어온 경우에도 등록된 태그 이름으로 보여주고, 별칭이 붙은 스터디, 행사까지 함께 보여줍니다.
+export default function TagDetail({ params }: TagProps) {
+  const { data: registry } = useApiQuery((client) => client.tag.list(), [])
+  const { data: studies, isLoading: isStudyLoading } = useApiQuery((client) => client.study.list(), [])
+  const { data: events, isLoading: isEventLoading } = useApiQuery((client) => client.event.list(), [])
+
+  const registeredTag = findTag(registry ?? [], decodeURIComponent(params.tag))
+  const name = registeredTag?.name ?? normalizeTag(decodeURIComponent(params.tag))
+  const taggedStudies = useMemo(() => filterByTag(registry ?? [], studies ?? [], name), [registry, studies, name])
+  const taggedEvents = useMemo(() => filterByTag(registry ?? [], events ?? [], name), [registry, events, name])
+
+  const studyListUrl = (query = '') =>
+    `${ROUTES.STUDY.index.url}?${toStudySearchParams({ ...DEFAULT_STUDY_FILTERS, query, tags: [name] })}`
+  const eventListUrl = (query = '') =>
+    `${ROUTES.EVENT.index.url}?${toEventSearchParams({ ...DEFAULT_EVENT_FILTERS, query, tags: [name] })}`
+
+  return (
+    <div className="flex flex-col items-center justify-center">
+      <SectionBanner
+        title={`#${name}`}
+        description={registeredTag?.aliases.length ? `별칭: ${registeredTag.aliases.join(', ')}` : undefined}
+        descriptionClassName="text-base font-normal text-gray-500 lg:text-lg"
+      />
+      <div className="mb-20 flex w-full max-w-7xl flex-col gap-16 px-4">
+        <section className="flex flex-col gap-6">
+          <div className="flex items-center justify-between">
+            <p className="text-2xl font-semibold">스터디 {taggedStudies.length}개</p>
+            <Button variant="outline" asChild>
+              <Link href={studyListUrl()}>스터디 목록에서 보기</Link>
+            </Button>
+          </div>
+          {isStudyLoading ? (
+            <LoadingSpinner />
+          ) : taggedStudies.length === 0 ? (
+            <p className="text-center text-gray-500">이 태그가 붙은 스터디가 없습니다.</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-3 sm:gap-y-12 lg:grid-cols-4 lg:gap-x-14">
+              {taggedStudies.map((study) => (
+                <Link key={study.id} href={studyListUrl(study.title)} className="flex justify-center">
+                  <StudyCard study={study} />
+                </Link>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="flex flex-col gap-6">
+          <div className="flex items-center justify-between">
+            <p className="text-2xl font-semibold">행사 {taggedEvents.length}개</p>
+            <Button variant="outline" asChild>
+              <Link href={eventListUrl()}>행사 목록에서 보기</Link>
+            </Button>
+          </div>
+          {isEventLoading ? (
+            <LoadingSpinner />
+          ) : taggedEvents.length === 0 ? (
+            <p className="text-center text-gray-500">이 태그가 붙은 행사가 없습니다.</p>
+          ) : (
+            <div className="grid grid-cols-2 gap-3 sm:gap-y-12 lg:grid-cols-4 lg:gap-x-14">
+              {taggedEvents.map((event) => (
+                <Link key={event.id} href={eventListUrl(event.title)} className="flex justify-center">
+                  <EventCard event={event} />
+                </Link>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import Link from 'next/link'
+
+import LoadingSpinner from '@/components/common/LoadingSpinner'
+import SectionBanner from '@/components/common/SectionBanner'
+import { ROUTES } from '@/constants/routes'
+import { useApiQuery } from '@/lib/api/hooks'
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { getTagUsage } from '@/lib/tag'
+
+export default function Tags() {
+  const { data: tags, error, isLoading } = useApiQuery((client) => client.tag.list(), [])
+  const sortedTags = [...(tags ?? [])]
+    .filter((tag) => getTagUsage(tag) > 0)
+    .sort((a, b) => getTagUsage(b) - getTagUsage(a) || a.name.localeCompare(b.name))
+
+  return (
+    <div className="flex flex-col items-center justify-center">
+      <SectionBanner title="Tags" description="관심 있는 주제의 스터디와 행사를 찾아보세요!" />
+      <div className="mb-20 flex w-full max-w-5xl flex-wrap justify-center gap-3 px-4">
+        {isLoading ? (
+          <LoadingSpinner />
+        ) : error ? (
+          <p className="text-lg text-gray-500">{getErrorMessage(error, '태그 목록을 불러오는데 실패했습니다.')}</p>
+        ) : sortedTags.length === 0 ? (
+          <p className="text-lg text-gray-500">등록된 태그가 없습니다.</p>
+        ) : (
+          sortedTags.map((tag) => (
+            <Link
+              key={tag.name}
+              href={ROUTES.TAG.DETAIL(tag.name).url}
+              className="flex items-center gap-2 rounded-full border bg-white px-4 py-2 shadow-sm transition-colors hover:bg-gray-100"
+            >
+              <span className="font-medium">#{tag.name}</span>
+              <span className="text-sm text-gray-500">{getTagUsage(tag)}</span>
+            </Link>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
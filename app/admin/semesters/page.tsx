@@ -0,0 +1,12 @@
+import SemesterManager from '@/components/admin/SemesterManager'
+
+const SemesterManagePage = () => {
+  return (
+    <div className="overflow-auto px-5 py-12" style={{ scrollbarWidth: 'thin', scrollbarColor: 'gray transparent' }}>
+      <p className="mb-3 flex w-full items-center justify-start text-3xl font-semibold">학기 관리</p>
+      <SemesterManager />
+    </div>
+  )
+}
+
+export default SemesterManagePage
@@ -0,0 +1,12 @@
+import TagManager from '@/components/admin/TagManager'
+
+const TagManagePage = () => {
+  return (
+    <div className="overflow-auto px-5 py-12" style={{ scrollbarWidth: 'thin', scrollbarColor: 'gray transparent' }}>
+      <p className="mb-3 flex w-full items-center justify-start text-3xl font-semibold">태그 관리</p>
+      <TagManager />
+    </div>
+  )
+}
+
+export default TagManagePage
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+import { createApiClient } from '@/lib/api/client'
+import { createCalendar, feedToCalendarEvents } from '@/lib/ical'
+import { constructServerResponse } from '@/lib/response'
+import { InternalServerError, InvalidCalendarToken, NetworkError } from '@/lib/response/errors'
+
+/**
+ * 캘린더 구독 피드 (`.ics`)
+ * Google 캘린더 등의 구독 요청에는 로그인 정보가 없으므로, 주소에 포함된 캘린더 토큰으로 사용자를 확인합니다.
+ */
+const GET = async (req: NextRequest) => {
+  const { pathname } = req.nextUrl
+  const token = decodeURIComponent(pathname.split('/').pop() ?? '')
+  if (!token) {
+    return constructServerResponse({ error: InvalidCalendarToken, data: null })
+  }
+
+  // 토큰을 직접 다루므로 세션 토큰을 사용하지 않도록 `accessToken: null`로 생성합니다.
+  const client = createApiClient({ accessToken: null })
+  const [{ data: feed, error }, { data: semesters }] = await Promise.all([
+    client.calendar.feed(token),
+    client.semester.list()
+  ])
+  if (error) {
+    // 백엔드에 연결하지 못한 경우를 제외하면 토큰이 올바르지 않거나 만료된 경우 입니다.
+    const isNetworkError = error.errorType === NetworkError.errorType
+    return constructServerResponse({ error: isNetworkError ? InternalServerError : InvalidCalendarToken, data: null })
+  }
+
+  // 학기 설정을 불러오지 못하면 스터디 일정을 제외하고 응답합니다.
+  return new NextResponse(createCalendar(feedToCalendarEvents(feed, semesters ?? [])), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="jsp-calendar.ics"',
+      'Cache-Control': 'private, max-age=900'
+    }
+  })
+}
+
+export { GET }
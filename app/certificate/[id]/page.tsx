@@ -0,0 +1,49 @@
+'use client'
+
+import Link from 'next/link'
+
+import LoadingSpinner from '@/components/common/LoadingSpinner'
+import CertificateDocument from '@/components/study/CertificateDocument'
+import { Button } from '@/components/ui/button'
+import { ROUTES } from '@/constants/routes'
+import { useApiQuery } from '@/lib/api/hooks'
+import { getErrorMessage } from '@/lib/response/catalogue'
+
+interface CertificateProps {
+  params: {
+    id: string
+  }
+}
+
+// 인쇄할 때 머리글, 바닥글이 함께 나오지 않도록 `(main)` 레이아웃 밖에 둡니다.
+export default function CertificatePage({ params }: CertificateProps) {
+  const { data: certificate, error } = useApiQuery(
+    (client) => client.certificate.retrieve(Number(params.id)),
+    [params.id]
+  )
+
+  return (
+    <main className="min-h-screen bg-gray-100 px-4 py-10 print:bg-white print:p-0">
+      <div className="mx-auto mb-6 flex max-w-[210mm] justify-end gap-2 print:hidden">
+        <Button variant="outline" asChild>
+          <Link href={ROUTES.PROFILE.url}>프로필로 돌아가기</Link>
+        </Button>
+        <Button onClick={() => window.print()} disabled={!certificate}>
+          인쇄 / PDF로 저장
+        </Button>
+      </div>
+
+      {error ? (
+        <p className="text-center text-gray-500">
+          {getErrorMessage(error, '수료증을 불러오는 중 오류가 발생했습니다.')}
+        </p>
+      ) : certificate ? (
+        <CertificateDocument certificate={certificate} />
+      ) : (
+        <div className="flex justify-center">
+          <LoadingSpinner />
+        </div>
+      )}
+    </main>
+  )
+}
@@ -8,9 +8,9 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { useToast } from '@/components/ui/use-toast'
 import { ApiEndpoint } from '@/constants/apiEndpoint'
-import { useSession } from '@/lib/auth/SessionProvider'
 import { fetchData } from '@/lib/fetch'
 import { CustomResponseDTO } from '@/lib/response'
+import { getErrorMessage, toApiError } from '@/lib/response/catalogue'
 import { cn } from '@/lib/utils'
 
 const roleOptions = [
@@ -38,7 +38,6 @@ interface EditableCellProps {
 }
 
 const EditableCell: React.FC<EditableCellProps> = ({ fieldName, row, readonly, submitApiEndpoint }) => {
-  const session = useSession()
   const { toast } = useToast()
   const initialValue = row.original[fieldName]
   const [open, setOpen] = useState<boolean>(false)
@@ -84,17 +83,14 @@ const EditableCell: React.FC<EditableCellProps> = ({ fieldName, row, readonly, s
     const res = await fetchData(submitApiEndpoint, {
       body: JSON.stringify({ [fieldName]: inputValue }),
       cache: 'no-cache',
-      headers: {
-        Authorization: `Bearer ${session?.data?.accessToken}`,
-        'Content-Type': 'application/json'
-      },
+      authenticated: true,
       credentials: 'include'
     })
 
     if (!res.ok) {
       toast({
         title: '수정 실패',
-        description: '수정 중 서버 에러 발생, 로그를 확인해주세요!',
+        description: getErrorMessage(await toApiError(res), '수정 중 서버 에러 발생, 로그를 확인해주세요!'),
         variant: 'destructive'
       })
       console.error('Failed to update', fieldName, id, inputValue)
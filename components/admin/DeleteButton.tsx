@@ -16,8 +16,8 @@ import {
 } from '@/components/ui/alert-dialog'
 import { Button } from '@/components/ui/button'
 import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
-import { useSession } from '@/lib/auth/SessionProvider'
 import { fetchData } from '@/lib/fetch'
+import { getErrorMessage, toApiError } from '@/lib/response/catalogue'
 
 import { useToast } from '../ui/use-toast'
 
@@ -27,7 +27,6 @@ interface DeleteButtonProps {
 }
 
 const DeleteButton = ({ id, type }: DeleteButtonProps) => {
-  const session = useSession()
   const { toast } = useToast()
   const router = useRouter()
 
@@ -51,17 +50,14 @@ const DeleteButton = ({ id, type }: DeleteButtonProps) => {
 
     const res = await fetchData(apiEndpoint, {
       cache: 'no-cache',
-      headers: {
-        Authorization: `Bearer ${session?.data?.accessToken}`,
-        'Content-Type': 'application/json'
-      },
+      authenticated: true,
       credentials: 'include'
     })
 
     if (!res.ok) {
       toast({
         title: '삭제 실패',
-        description: '삭제 중 서버 오류 발생',
+        description: getErrorMessage(await toApiError(res), '삭제 중 서버 오류 발생'),
         variant: 'destructive'
       })
       return
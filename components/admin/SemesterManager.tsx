@@ -0,0 +1,268 @@
+'use client'
+
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useState } from 'react'
+import { Controller, useForm } from 'react-hook-form'
+import { GoTrash } from 'react-icons/go'
+import { MdEdit } from 'react-icons/md'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useToast } from '@/components/ui/use-toast'
+import { useApiClient, useApiQuery } from '@/lib/api/hooks'
+import { getErrorMessage } from '@/lib/response/catalogue'
+import {
+  formatPeriod,
+  formatSemester,
+  getPeriodStatus,
+  SEMESTER_PERIODS,
+  SEMESTER_TERMS,
+  semesterFormSchema,
+  SemesterFormValues,
+  SemesterPeriodKey
+} from '@/lib/semester'
+import { Semester } from '@/types'
+
+const PERIOD_KEYS = Object.keys(SEMESTER_PERIODS) as SemesterPeriodKey[]
+
+const EMPTY_PERIOD = { start: '', end: '' }
+
+const getDefaultValues = (semester?: Semester): SemesterFormValues =>
+  semester
+    ? {
+        year: semester.year,
+        semester: semester.semester,
+        openingPeriod: semester.openingPeriod,
+        applicationPeriod: semester.applicationPeriod,
+        activityPeriod: semester.activityPeriod
+      }
+    : {
+        year: new Date().getFullYear(),
+        semester: '',
+        openingPeriod: EMPTY_PERIOD,
+        applicationPeriod: EMPTY_PERIOD,
+        activityPeriod: EMPTY_PERIOD
+      }
+
+/**
+ * 학기별 스터디 개설, 신청, 활동 기간을 설정합니다.
+ * 설정한 기간은 스터디 개설 페이지, 스터디 참여 버튼, 행사의 학기 지정에 사용됩니다.
+ */
+export default function SemesterManager() {
+  const { data: semesters, isLoading } = useApiQuery((client) => client.semester.list(), [])
+  const client = useApiClient()
+  const { toast } = useToast()
+  // `null`이면 새 학기 추가, `Semester`면 해당 학기 수정
+  const [editing, setEditing] = useState<Semester | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+
+  const {
+    control,
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors, isSubmitting }
+  } = useForm<SemesterFormValues>({
+    resolver: zodResolver(semesterFormSchema),
+    defaultValues: getDefaultValues()
+  })
+
+  const sortedSemesters = [...(semesters ?? [])].sort(
+    (a, b) => b.activityPeriod.start.localeCompare(a.activityPeriod.start) || b.year - a.year
+  )
+
+  const openDialog = (semester: Semester | null) => {
+    setEditing(semester)
+    reset(getDefaultValues(semester ?? undefined))
+    setIsDialogOpen(true)
+  }
+
+  const onSubmit = async (values: SemesterFormValues) => {
+    const isDuplicated = semesters?.some(
+      (semester) =>
+        semester.id !== editing?.id && semester.year === values.year && semester.semester === values.semester
+    )
+    if (isDuplicated) {
+      setError('semester', { message: '이미 설정된 학기입니다' })
+      return
+    }
+
+    const { error } = editing ? await client.semester.update(editing.id, values) : await client.semester.create(values)
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: '학기 저장 실패',
+        description: getErrorMessage(error, '학기를 저장하는 중 오류가 발생했습니다.')
+      })
+      return
+    }
+
+    toast({ description: `${formatSemester(values)} 설정이 저장되었습니다.` })
+    setIsDialogOpen(false)
+  }
+
+  const handleDelete = async (semester: Semester) => {
+    const { error } = await client.semester.delete(semester.id)
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: '학기 삭제 실패',
+        description: getErrorMessage(error, '학기를 삭제하는 중 오류가 발생했습니다.')
+      })
+      return
+    }
+    toast({ description: `${formatSemester(semester)} 설정이 삭제되었습니다.` })
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          기간은 시작일 0시부터 종료일 24시까지 입니다. 스터디 개설과 참여 신청은 해당 기간에만 가능합니다.
+        </p>
+        <Button onClick={() => openDialog(null)}>학기 추가</Button>
+      </div>
+
+      <div className="rounded-md border bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>학기</TableHead>
+              {PERIOD_KEYS.map((key) => (
+                <TableHead key={key}>{SEMESTER_PERIODS[key]} 기간</TableHead>
+              ))}
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedSemesters.map((semester) => (
+              <TableRow key={semester.id}>
+                <TableCell className="font-medium">{formatSemester(semester)}</TableCell>
+                {PERIOD_KEYS.map((key) => (
+                  <TableCell key={key}>
+                    <div className="flex items-center gap-2">
+                      {formatPeriod(semester[key])}
+                      {getPeriodStatus(semester[key]) === 'open' && <Badge>진행 중</Badge>}
+                    </div>
+                  </TableCell>
+                ))}
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => openDialog(semester)}>
+                      <MdEdit />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <GoTrash />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>{formatSemester(semester)} 설정을 삭제하시겠습니까?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            삭제하면 해당 학기의 스터디 개설, 참여 신청이 불가능해집니다.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>취소</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleDelete(semester)}>삭제</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {!isLoading && sortedSemesters.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={PERIOD_KEYS.length + 2} className="h-24 text-center text-gray-500">
+                  설정된 학기가 없습니다.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[520px]">
+          <DialogHeader>
+            <DialogTitle>{editing ? `${formatSemester(editing)} 수정` : '학기 추가'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col gap-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="year">연도</Label>
+                <Input id="year" type="number" {...register('year', { valueAsNumber: true })} />
+                {errors.year && <p className="text-sm text-red-500">{errors.year.message}</p>}
+              </div>
+              <div className="flex flex-col gap-2">
+                <Label>학기</Label>
+                <Controller
+                  control={control}
+                  name="semester"
+                  render={({ field: { value, onChange } }) => (
+                    <Select value={value} onValueChange={onChange}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="학기를 선택해주세요" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(SEMESTER_TERMS).map(([semester, label]) => (
+                          <SelectItem key={semester} value={semester}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+                {errors.semester && <p className="text-sm text-red-500">{errors.semester.message}</p>}
+              </div>
+            </div>
+
+            {PERIOD_KEYS.map((key) => (
+              <div key={key} className="flex flex-col gap-2">
+                <Label>{SEMESTER_PERIODS[key]} 기간</Label>
+                <div className="flex items-center gap-2">
+                  <Input type="date" {...register(`${key}.start`)} />
+                  <span>~</span>
+                  <Input type="date" {...register(`${key}.end`)} />
+                </div>
+                {(errors[key]?.start || errors[key]?.end) && (
+                  <p className="text-sm text-red-500">{errors[key]?.start?.message ?? errors[key]?.end?.message}</p>
+                )}
+              </div>
+            ))}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                취소
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                저장
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
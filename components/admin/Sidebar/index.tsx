@@ -3,7 +3,7 @@
 import { GoBook } from 'react-icons/go'
 import { IoHomeOutline } from 'react-icons/io5'
 import { IoPeopleOutline } from 'react-icons/io5'
-import { MdOutlineEvent } from 'react-icons/md'
+import { MdOutlineCalendarMonth, MdOutlineEvent, MdOutlineLocalOffer } from 'react-icons/md'
 import { RiFileListLine } from 'react-icons/ri'
 
 import NavLink from '@/components/admin/Sidebar/NavLink'
@@ -41,6 +41,12 @@ export default function SideBar({ className }: { className?: string }) {
             <NavLink href={ROUTES.ADMIN.POSTS.url} icon={<RiFileListLine size={24} />} collapsed={true}>
               Posts
             </NavLink>
+            <NavLink href={ROUTES.ADMIN.SEMESTER.url} icon={<MdOutlineCalendarMonth size={24} />} collapsed={true}>
+              Semesters
+            </NavLink>
+            <NavLink href={ROUTES.ADMIN.TAG.url} icon={<MdOutlineLocalOffer size={24} />} collapsed={true}>
+              Tags
+            </NavLink>
           </nav>
         </div>
       </aside>
@@ -0,0 +1,250 @@
+'use client'
+
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { MdCallMerge, MdEdit } from 'react-icons/md'
+import { z } from 'zod'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useToast } from '@/components/ui/use-toast'
+import { useApiClient, useApiQuery } from '@/lib/api/hooks'
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { findTag, getTagUsage, tagNameSchema, toTagKey } from '@/lib/tag'
+import { Tag } from '@/types'
+
+const renameFormSchema = z.object({ name: tagNameSchema })
+
+type RenameFormValues = z.input<typeof renameFormSchema>
+type RenameFormOutput = z.output<typeof renameFormSchema>
+
+/**
+ * 스터디, 행사에서 사용 중인 태그를 관리합니다.
+ * 이름을 바꾸거나 다른 태그로 합치면 해당 태그가 붙은 스터디, 행사의 태그도 함께 바뀌며,
+ * 합쳐진 태그는 별칭으로 남아 이후에 입력해도 합친 태그로 저장됩니다.
+ */
+export default function TagManager() {
+  const { data: tags, isLoading } = useApiQuery((client) => client.tag.list(), [])
+  const client = useApiClient()
+  const { toast } = useToast()
+  const [search, setSearch] = useState('')
+  const [renaming, setRenaming] = useState<Tag | null>(null)
+  const [merging, setMerging] = useState<Tag | null>(null)
+  const [mergeTarget, setMergeTarget] = useState('')
+  const [isMerging, setIsMerging] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors, isSubmitting }
+  } = useForm<RenameFormValues, unknown, RenameFormOutput>({
+    resolver: zodResolver(renameFormSchema),
+    defaultValues: { name: '' }
+  })
+
+  const registry = tags ?? []
+  const sortedTags = registry
+    .filter(({ name, aliases }) => [name, ...aliases].some((tag) => toTagKey(tag).includes(toTagKey(search))))
+    .sort((a, b) => getTagUsage(b) - getTagUsage(a) || a.name.localeCompare(b.name))
+
+  const openRenameDialog = (tag: Tag) => {
+    setRenaming(tag)
+    reset({ name: tag.name })
+  }
+
+  const openMergeDialog = (tag: Tag) => {
+    setMerging(tag)
+    setMergeTarget('')
+  }
+
+  const onRename = async ({ name }: RenameFormOutput) => {
+    if (!renaming) return
+
+    // 대소문자, 공백만 바꾸는 경우는 허용하고, 다른 태그와 겹치면 합치기를 안내합니다.
+    const duplicated = findTag(registry, name)
+    if (duplicated && duplicated.name !== renaming.name) {
+      setError('name', { message: `이미 있는 태그(${duplicated.name})입니다. 태그 합치기를 이용해주세요` })
+      return
+    }
+
+    const { error } = await client.tag.rename(renaming.name, { name })
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: '태그 이름 변경 실패',
+        description: getErrorMessage(error, '태그 이름을 변경하는 중 오류가 발생했습니다.')
+      })
+      return
+    }
+
+    toast({ description: `${renaming.name} 태그의 이름이 ${name}(으)로 변경되었습니다.` })
+    setRenaming(null)
+  }
+
+  const handleMerge = async () => {
+    if (!merging || !mergeTarget) return
+
+    setIsMerging(true)
+    const { error } = await client.tag.merge({ sources: [merging.name], target: mergeTarget })
+    setIsMerging(false)
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: '태그 합치기 실패',
+        description: getErrorMessage(error, '태그를 합치는 중 오류가 발생했습니다.')
+      })
+      return
+    }
+
+    toast({ description: `${merging.name} 태그를 ${mergeTarget} 태그로 합쳤습니다.` })
+    setMerging(null)
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          태그 입력란은 이 목록에서 자동완성되며, 별칭으로 입력한 태그는 원래 태그로 저장됩니다.
+        </p>
+        <Input
+          placeholder="태그 검색"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="w-60 bg-white"
+        />
+      </div>
+
+      <div className="rounded-md border bg-white">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>태그</TableHead>
+              <TableHead>별칭</TableHead>
+              <TableHead className="w-24 text-right">스터디</TableHead>
+              <TableHead className="w-24 text-right">행사</TableHead>
+              <TableHead className="w-24" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sortedTags.map((tag) => (
+              <TableRow key={tag.name}>
+                <TableCell className="font-medium">{tag.name}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {tag.aliases.map((alias) => (
+                      <Badge key={alias} variant="secondary">
+                        {alias}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">{tag.studyCount}</TableCell>
+                <TableCell className="text-right">{tag.eventCount}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-1">
+                    <Button variant="ghost" size="icon" title="이름 변경" onClick={() => openRenameDialog(tag)}>
+                      <MdEdit />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="다른 태그로 합치기"
+                      disabled={registry.length < 2}
+                      onClick={() => openMergeDialog(tag)}
+                    >
+                      <MdCallMerge />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+            {!isLoading && sortedTags.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="h-24 text-center text-gray-500">
+                  {search ? '검색된 태그가 없습니다.' : '사용 중인 태그가 없습니다.'}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={!!renaming} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>{renaming?.name} 이름 변경</DialogTitle>
+            <DialogDescription>이 태그가 붙은 스터디, 행사의 태그도 함께 변경됩니다.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSubmit(onRename)} className="flex flex-col gap-4">
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="name">태그 이름</Label>
+              <Input id="name" {...register('name')} />
+              {errors.name && <p className="text-sm text-red-500">{errors.name.message}</p>}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setRenaming(null)}>
+                취소
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                저장
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!merging} onOpenChange={(open) => !open && setMerging(null)}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>{merging?.name} 합치기</DialogTitle>
+            <DialogDescription>
+              {merging?.name} 태그가 붙은 스터디 {merging?.studyCount}개, 행사 {merging?.eventCount}개의 태그가 선택한
+              태그로 바뀌고, {merging?.name}은(는) 선택한 태그의 별칭이 됩니다.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col gap-2">
+            <Label>합칠 태그</Label>
+            <Select value={mergeTarget} onValueChange={setMergeTarget}>
+              <SelectTrigger>
+                <SelectValue placeholder="태그를 선택해주세요" />
+              </SelectTrigger>
+              <SelectContent>
+                {registry
+                  .filter(({ name }) => name !== merging?.name)
+                  .map(({ name }) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setMerging(null)}>
+              취소
+            </Button>
+            <Button onClick={handleMerge} disabled={!mergeTarget || isMerging}>
+              합치기
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
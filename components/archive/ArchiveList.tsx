@@ -0,0 +1,208 @@
+'use client'
+
+import Link from 'next/link'
+import { useMemo } from 'react'
+import { IoLocationOutline, IoPersonSharp } from 'react-icons/io5'
+import { MdCalendarMonth, MdOutlineArticle } from 'react-icons/md'
+
+import UserHoverCard from '@/components/common/User/HoverCard'
+import { badgeVariants } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { ROUTES } from '@/constants/routes'
+import { useApiQuery } from '@/lib/api/hooks'
+import { ArchiveGroup, groupBySemester, groupPostsByGroup } from '@/lib/archive'
+import { formatDateRange } from '@/lib/date'
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { Post } from '@/types'
+
+// 카드마다 보여줄 최근 게시글 수
+const MAX_RECENT_POSTS = 3
+
+const ArchivePosts = ({
+  groupId,
+  groupType,
+  posts
+}: {
+  groupId: number
+  groupType: Post['groupType']
+  posts: Post[]
+}) => {
+  if (posts.length === 0) {
+    return <p className="text-sm text-gray-400">작성된 게시글이 없습니다.</p>
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      <Link
+        href={`${ROUTES.POST.index.url}?id=${groupId}&groupType=${groupType.toLowerCase()}`}
+        className="flex items-center gap-1 text-sm font-medium hover:underline"
+      >
+        <MdOutlineArticle />
+        게시글 {posts.length}개
+      </Link>
+      <ul className="flex flex-col gap-0.5 pl-5 text-sm text-gray-600">
+        {posts.slice(0, MAX_RECENT_POSTS).map((post) => (
+          <li key={post.id} className="truncate">
+            <Link href={`${ROUTES.POST.index.url}/${post.id}`} className="hover:underline">
+              {post.title}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+const ArchiveSection = <T,>({
+  groups,
+  noun,
+  renderItem
+}: {
+  groups: ArchiveGroup<T>[]
+  noun: string
+  renderItem: (item: T) => React.ReactNode
+}) => {
+  if (groups.length === 0) {
+    return <p className="py-12 text-center text-lg text-gray-500">지난 {noun}가 없습니다.</p>
+  }
+
+  return (
+    <div className="flex flex-col gap-12">
+      {groups.map((group) => (
+        <section key={group.key} className="flex flex-col gap-4">
+          <h2 className="text-2xl font-semibold">
+            {group.label}
+            <span className="ml-2 text-base font-normal text-gray-500">
+              {noun} {group.items.length}개
+            </span>
+          </h2>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">{group.items.map(renderItem)}</div>
+        </section>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * 모집이 끝난 지난 스터디, 행사를 학기별로 보여줍니다.
+ * 각 스터디, 행사의 게시판에 작성된 게시글 수와 최근 게시글을 함께 보여줍니다.
+ */
+export default function ArchiveList() {
+  const { data: archive, error, isLoading } = useApiQuery((client) => client.archive.list(), [])
+  // 게시글을 불러오지 못해도 아카이브는 보여줍니다.
+  const { data: studyPosts } = useApiQuery((client) => client.post.list('STUDY'), [])
+  const { data: eventPosts } = useApiQuery((client) => client.post.list('EVENT'), [])
+
+  const studyGroups = useMemo(() => groupBySemester(archive?.studies ?? []), [archive])
+  const eventGroups = useMemo(() => groupBySemester(archive?.events ?? []), [archive])
+  const studyPostMap = useMemo(() => groupPostsByGroup(studyPosts ?? []), [studyPosts])
+  const eventPostMap = useMemo(() => groupPostsByGroup(eventPosts ?? []), [eventPosts])
+
+  if (isLoading) {
+    return <p className="text-center text-lg text-gray-500">Loading...</p>
+  }
+
+  if (error || !archive) {
+    return (
+      <p className="text-center text-lg text-gray-500">
+        {getErrorMessage(error, '지난 활동을 불러오는데 실패했습니다.')}
+      </p>
+    )
+  }
+
+  return (
+    <Tabs defaultValue="study" className="w-full">
+      <TabsList className="mb-8">
+        <TabsTrigger value="study">스터디 {archive.studies.length}</TabsTrigger>
+        <TabsTrigger value="event">행사 {archive.events.length}</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="study">
+        <ArchiveSection
+          groups={studyGroups}
+          noun="스터디"
+          renderItem={(study) => (
+            <Card key={study.id} className="flex flex-col">
+              <CardHeader className="pb-3">
+                <CardTitle className="break-words text-xl">{study.title}</CardTitle>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600">
+                  <span className="flex items-center gap-1">
+                    <IoPersonSharp />
+                    <UserHoverCard user={study.mentor} />
+                  </span>
+                  {study.memberCount !== undefined && <span>멤버 {study.memberCount}명</span>}
+                  <span>
+                    {study.level} · {study.campus}
+                  </span>
+                </div>
+              </CardHeader>
+              <CardContent className="mt-auto flex flex-col gap-3">
+                {study.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {study.tags.map((tag) => (
+                      <Link
+                        key={tag}
+                        href={ROUTES.TAG.DETAIL(tag).url}
+                        className={badgeVariants({ variant: 'secondary' })}
+                      >
+                        {tag}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+                <ArchivePosts groupId={study.id} groupType="STUDY" posts={studyPostMap.get(study.id) ?? []} />
+              </CardContent>
+            </Card>
+          )}
+        />
+      </TabsContent>
+
+      <TabsContent value="event">
+        <ArchiveSection
+          groups={eventGroups}
+          noun="행사"
+          renderItem={(event) => (
+            <Card key={event.id} className="flex flex-col">
+              <CardHeader className="pb-3">
+                <CardTitle className="break-words text-xl">{event.title}</CardTitle>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-600">
+                  <span className="flex items-center gap-1">
+                    <MdCalendarMonth />
+                    {formatDateRange(event.startDate, event.endDate)}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <IoLocationOutline />
+                    {event.location}
+                  </span>
+                  {event.organizer && (
+                    <span className="flex items-center gap-1">
+                      <IoPersonSharp />
+                      <UserHoverCard user={event.organizer} />
+                    </span>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="mt-auto flex flex-col gap-3">
+                {event.tags.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {event.tags.map((tag) => (
+                      <Link
+                        key={tag}
+                        href={ROUTES.TAG.DETAIL(tag).url}
+                        className={badgeVariants({ variant: 'secondary' })}
+                      >
+                        {tag}
+                      </Link>
+                    ))}
+                  </div>
+                )}
+                <ArchivePosts groupId={event.id} groupType="EVENT" posts={eventPostMap.get(event.id) ?? []} />
+              </CardContent>
+            </Card>
+          )}
+        />
+      </TabsContent>
+    </Tabs>
+  )
+}
@@ -0,0 +1,89 @@
+'use client'
+
+import { MdEventAvailable } from 'react-icons/md'
+
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { useToast } from '@/components/ui/use-toast'
+import { useApiClient } from '@/lib/api/hooks'
+import { getCalendarFeedPath } from '@/lib/ical'
+import { getErrorMessage, toApiError } from '@/lib/response/catalogue'
+
+/**
+ * 승인된 동아리방 예약과 참여 중인 스터디, 행사를 캘린더 앱으로 내보내는 메뉴 입니다.
+ */
+export default function CalendarExportMenu() {
+  const client = useApiClient()
+  const { toast } = useToast()
+
+  const getFeedUrl = async (reissue = false) => {
+    const { data, error } = reissue ? await client.profile.reissueCalendarToken() : await client.profile.calendarToken()
+    if (error) {
+      toast({
+        title: getErrorMessage(error, '캘린더 구독 주소를 불러오지 못했습니다.'),
+        variant: 'destructive'
+      })
+      return null
+    }
+    return `${window.location.origin}${getCalendarFeedPath(data.token)}`
+  }
+
+  const handleDownload = async () => {
+    const feedUrl = await getFeedUrl()
+    if (!feedUrl) return
+
+    const res = await fetch(feedUrl)
+    if (!res.ok) {
+      toast({
+        title: getErrorMessage(await toApiError(res), '캘린더 파일을 만들지 못했습니다.'),
+        variant: 'destructive'
+      })
+      return
+    }
+
+    const url = URL.createObjectURL(await res.blob())
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'jsp-calendar.ics'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleCopy = async (reissue = false) => {
+    const feedUrl = await getFeedUrl(reissue)
+    if (!feedUrl) return
+
+    await navigator.clipboard.writeText(feedUrl)
+    toast({
+      title: reissue ? '새 구독 주소를 복사했습니다.' : '구독 주소를 복사했습니다.',
+      description: reissue
+        ? '이전 주소로는 더 이상 일정을 불러올 수 없습니다.'
+        : 'Google 캘린더의 "URL로 추가"에 붙여넣어 주세요. 주소는 다른 사람과 공유하지 마세요.'
+    })
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1">
+          <MdEventAvailable className="h-4 w-4" />
+          캘린더로 내보내기
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>승인된 예약, 스터디, 행사</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={handleDownload}>.ics 파일 다운로드</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleCopy()}>구독 주소 복사</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleCopy(true)}>구독 주소 재발급</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
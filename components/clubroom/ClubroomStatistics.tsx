@@ -0,0 +1,329 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useToast } from '@/components/ui/use-toast'
+import { useApiClient } from '@/lib/api/hooks'
+import { useSession } from '@/lib/auth/SessionProvider'
+import { getKstYearMonth } from '@/lib/date'
+import { RESERVATION_HOURS } from '@/lib/reservation'
+import {
+  createUsageHeatmap,
+  rankReservers,
+  rankStudies,
+  reservationsToCsv,
+  summarizeMonthlyStatus,
+  summarizeWeeklyUsage,
+  uniqueReservations,
+  UsageRank,
+  WEEKDAYS
+} from '@/lib/reservationStatistics'
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { Reservation } from '@/types'
+
+// 한 번에 불러올 수 있는 최대 개월 수
+const MAX_MONTHS = 12
+
+const toMonthValue = ({ year, month }: { year: number; month: number }) => `${year}-${`${month}`.padStart(2, '0')}`
+
+const shiftMonth = ({ year, month }: { year: number; month: number }, offset: number) => {
+  const index = year * 12 + month - 1 + offset
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 }
+}
+
+// `yyyy-MM` 두 값 사이의 모든 달 (최대 `MAX_MONTHS`개)
+function getMonthsBetween(from: string, to: string) {
+  const [fromYear, fromMonth] = from.split('-').map(Number)
+  const [toYear, toMonth] = to.split('-').map(Number)
+  const count = Math.min(MAX_MONTHS, (toYear - fromYear) * 12 + toMonth - fromMonth + 1)
+  return Array.from({ length: Math.max(0, count) }, (_, offset) =>
+    shiftMonth({ year: fromYear, month: fromMonth }, offset)
+  )
+}
+
+const formatHours = (hours: number) => `${Math.round(hours * 10) / 10}시간`
+
+const formatRate = (count: number, total: number) => (total === 0 ? '-' : `${Math.round((count / total) * 100)}%`)
+
+function RankTable({ title, ranks }: { title: string; ranks: UsageRank[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {ranks.length === 0 ? (
+          <p className="text-sm text-gray-500">승인된 예약이 없습니다.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>이름</TableHead>
+                <TableHead className="text-right">예약</TableHead>
+                <TableHead className="text-right">이용 시간</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ranks.map((rank) => (
+                <TableRow key={rank.name}>
+                  <TableCell>{rank.name}</TableCell>
+                  <TableCell className="text-right">{rank.count}건</TableCell>
+                  <TableCell className="text-right">{formatHours(rank.hours)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * 운영진이 동아리방 이용 현황을 확인하는 통계 입니다.
+ * 선택한 기간의 월별 예약 목록을 불러와 브라우저에서 계산하며, 예약 목록을 CSV로 내려받을 수 있습니다.
+ */
+export default function ClubroomStatistics() {
+  // 기본으로 이번 달까지 최근 6개월을 보여줍니다.
+  const [from, setFrom] = useState(() => toMonthValue(shiftMonth(getKstYearMonth(), -5)))
+  const [to, setTo] = useState(() => toMonthValue(getKstYearMonth()))
+  const [reservations, setReservations] = useState<Reservation[]>([])
+  const [studyTitles, setStudyTitles] = useState<Map<number, string>>(new Map())
+  const [isLoading, setIsLoading] = useState(true)
+  const session = useSession()
+  const client = useApiClient()
+  const { toast } = useToast()
+
+  const months = useMemo(() => (from && to && from <= to ? getMonthsBetween(from, to) : []), [from, to])
+
+  useEffect(() => {
+    if (!session?.data?.accessToken || months.length === 0) return
+
+    let ignore = false
+    const loadReservations = async () => {
+      setIsLoading(true)
+      const [studies, ...results] = await Promise.all([
+        client.study.list(),
+        ...months.map(({ year, month }) => client.reservation.list(year, month))
+      ])
+      if (ignore) return
+      setIsLoading(false)
+
+      const error = results.find((result) => result.error)?.error
+      if (error) {
+        toast({
+          title: getErrorMessage(error, '예약 목록을 불러오는데 실패했습니다.'),
+          variant: 'destructive'
+        })
+      }
+      setReservations(uniqueReservations(results.flatMap(({ data }) => data ?? [])))
+      setStudyTitles(new Map((studies.data ?? []).map((study) => [study.id, study.title])))
+    }
+
+    loadReservations()
+    return () => {
+      ignore = true
+    }
+  }, [client, session?.data?.accessToken, months, toast])
+
+  const statistics = useMemo(() => {
+    const weeklyUsage = summarizeWeeklyUsage(reservations)
+    const totalHours = weeklyUsage.reduce((sum, { hours }) => sum + hours, 0)
+    const monthlyStatus = summarizeMonthlyStatus(reservations)
+    const accepted = monthlyStatus.reduce((sum, { accepted }) => sum + accepted, 0)
+    const declined = monthlyStatus.reduce((sum, { declined }) => sum + declined, 0)
+
+    return {
+      weeklyUsage,
+      totalHours,
+      maxWeeklyHours: Math.max(0, ...weeklyUsage.map(({ hours }) => hours)),
+      heatmap: createUsageHeatmap(reservations),
+      topReservers: rankReservers(reservations),
+      topStudies: rankStudies(reservations, studyTitles),
+      monthlyStatus,
+      accepted,
+      declined
+    }
+  }, [reservations, studyTitles])
+
+  const heatmapHours = useMemo(() => {
+    const start = Number(RESERVATION_HOURS.start.split(':')[0])
+    const end = Number(RESERVATION_HOURS.end.split(':')[0])
+    return Array.from({ length: end - start }, (_, index) => start + index)
+  }, [])
+  const maxHeat = Math.max(0, ...statistics.heatmap.flatMap((hours) => heatmapHours.map((hour) => hours[hour])))
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(
+      new Blob([reservationsToCsv(reservations, studyTitles)], { type: 'text/csv;charset=utf-8' })
+    )
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `clubroom-reservations-${from}-${to}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-1">
+          <Label>기간</Label>
+          <div className="flex items-center gap-2">
+            <Input type="month" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className="w-40" />
+            <span>~</span>
+            <Input type="month" value={to} min={from} onChange={(e) => setTo(e.target.value)} className="w-40" />
+          </div>
+          <p className="text-xs text-gray-500">최대 {MAX_MONTHS}개월까지 조회할 수 있습니다.</p>
+        </div>
+        <Button variant="outline" onClick={handleDownload} disabled={isLoading || reservations.length === 0}>
+          CSV 내보내기
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader>
+            <CardDescription>총 이용 시간</CardDescription>
+            <CardTitle>{formatHours(statistics.totalHours)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardDescription>주 평균 이용 시간</CardDescription>
+            <CardTitle>
+              {formatHours(
+                statistics.weeklyUsage.length === 0 ? 0 : statistics.totalHours / statistics.weeklyUsage.length
+              )}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardDescription>예약 신청</CardDescription>
+            <CardTitle>{reservations.length}건</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardDescription>승인율</CardDescription>
+            <CardTitle>{formatRate(statistics.accepted, statistics.accepted + statistics.declined)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">주별 이용 시간</CardTitle>
+          <CardDescription>승인된 예약 기준, 월요일부터 한 주로 계산합니다.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {statistics.weeklyUsage.length === 0 && <p className="text-sm text-gray-500">승인된 예약이 없습니다.</p>}
+          {statistics.weeklyUsage.map(({ weekStart, hours }) => (
+            <div key={weekStart} className="flex items-center gap-3 text-sm">
+              <span className="w-24 shrink-0 text-gray-500">{weekStart}</span>
+              <div className="h-4 flex-1 rounded bg-gray-100">
+                <div
+                  className="h-4 rounded bg-primary"
+                  style={{
+                    width: `${statistics.maxWeeklyHours === 0 ? 0 : (hours / statistics.maxWeeklyHours) * 100}%`
+                  }}
+                />
+              </div>
+              <span className="w-16 shrink-0 text-right">{formatHours(hours)}</span>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">요일, 시간대별 이용 현황</CardTitle>
+          <CardDescription>색이 진할수록 많이 이용한 시간대 입니다.</CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full border-separate border-spacing-1 text-xs">
+            <thead>
+              <tr>
+                <th />
+                {heatmapHours.map((hour) => (
+                  <th key={hour} className="font-normal text-gray-500">
+                    {hour}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {WEEKDAYS.map((weekday, dayIndex) => (
+                <tr key={weekday}>
+                  <th className="pr-2 font-normal text-gray-500">{weekday}</th>
+                  {heatmapHours.map((hour) => {
+                    const hours = statistics.heatmap[dayIndex][hour]
+                    return (
+                      <td
+                        key={hour}
+                        title={`${weekday}요일 ${hour}시: ${formatHours(hours)}`}
+                        className="h-6 min-w-6 rounded bg-gray-100"
+                        style={
+                          hours > 0 ? { backgroundColor: `rgba(34, 197, 94, ${0.15 + (hours / maxHeat) * 0.85})` } : {}
+                        }
+                      />
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <RankTable title="많이 이용한 예약자" ranks={statistics.topReservers} />
+        <RankTable title="많이 이용한 스터디" ranks={statistics.topStudies} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">월별 승인/거절</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>월</TableHead>
+                <TableHead className="text-right">승인</TableHead>
+                <TableHead className="text-right">거절</TableHead>
+                <TableHead className="text-right">대기</TableHead>
+                <TableHead className="text-right">승인율</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {statistics.monthlyStatus.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-24 text-center">
+                    {isLoading ? '불러오는 중...' : '예약 내역이 없습니다.'}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                statistics.monthlyStatus.map(({ month, accepted, declined, waiting }) => (
+                  <TableRow key={month}>
+                    <TableCell>{month}</TableCell>
+                    <TableCell className="text-right">{accepted}</TableCell>
+                    <TableCell className="text-right">{declined}</TableCell>
+                    <TableCell className="text-right">{waiting}</TableCell>
+                    <TableCell className="text-right">{formatRate(accepted, accepted + declined)}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
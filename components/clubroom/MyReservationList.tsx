@@ -14,14 +14,16 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger
 } from '@/components/ui/alert-dialog'
+import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
+import { useApiClient, useApiQuery } from '@/lib/api/hooks'
 import { useSession } from '@/lib/auth/SessionProvider'
-import { fetchData } from '@/lib/fetch'
-import { CustomResponse } from '@/lib/response'
+import { formatKst } from '@/lib/date'
+import { getErrorMessage } from '@/lib/response/catalogue'
 import { Reservation } from '@/types'
 
 import { toast } from '../ui/use-toast'
+import CalendarExportMenu from './CalendarExportMenu'
 import { CurrentMonth } from './ReservationSection'
 
 const statusColors = {
@@ -42,85 +44,53 @@ interface MyReservationListProps {
 }
 
 export default function MyReservationList({ currentMonth, onRefresh }: MyReservationListProps) {
-  const [reservations, setReservations] = useState<Reservation[]>([])
-  const [isLoading, setIsLoading] = useState(true)
   const [reservationToDelete, setReservationToDelete] = useState<Reservation | null>(null)
   const session = useSession()
+  const client = useApiClient()
+  const isLoggedIn = !!session?.data?.accessToken
+  const {
+    data: myReservations,
+    error,
+    isLoading,
+    setData: setMyReservations
+  } = useApiQuery(
+    (client) => (isLoggedIn ? client.reservation.my(currentMonth.year, currentMonth.month) : null),
+    [isLoggedIn, currentMonth.year, currentMonth.month]
+  )
+  const reservations = myReservations ?? []
 
-  const loadMyReservations = async () => {
-    if (!session?.data?.accessToken) {
-      setIsLoading(false)
-      return
-    }
-
-    try {
-      const res = await fetchData(
-        API_ENDPOINTS.CLIENT.RESERVATION.MY(currentMonth.year, currentMonth.month) as ApiEndpoint,
-        {
-          headers: {
-            Authorization: `Bearer ${session.data.accessToken}`
-          }
-        }
-      )
-
-      if (!res.ok) {
-        throw new Error('Failed to load reservations')
-      }
-
-      const json: CustomResponse = await res.json()
-      setReservations(json.data)
-    } catch (error) {
-      console.error('Failed to load reservations:', error)
-      toast({
-        title: '예약 내역을 불러오는데 실패했습니다.',
-        variant: 'destructive'
-      })
-    } finally {
-      setIsLoading(false)
-    }
-  }
+  useEffect(() => {
+    if (!error) return
+    console.error('Failed to load reservations:', error)
+    toast({
+      title: getErrorMessage(error, '예약 내역을 불러오는데 실패했습니다.'),
+      variant: 'destructive'
+    })
+  }, [error])
 
   const handleDelete = async () => {
     if (!session?.data?.accessToken || !reservationToDelete) return
 
-    try {
-      const res = await fetchData(API_ENDPOINTS.CLIENT.RESERVATION.DELETE(reservationToDelete.id) as ApiEndpoint, {
-        method: 'DELETE',
-        headers: {
-          Authorization: `Bearer ${session.data.accessToken}`
-        }
-      })
-
-      if (!res.ok) {
-        throw new Error('Failed to delete reservation')
-      }
-
-      setReservations((prev) => prev.filter((reservation) => reservation.id !== reservationToDelete.id))
-      onRefresh()
-      toast({
-        title: '예약이 성공적으로 삭제되었습니다.',
-        variant: 'default'
-      })
-    } catch (error) {
+    const { error } = await client.reservation.delete(reservationToDelete.id)
+    setReservationToDelete(null)
+    if (error) {
       console.error('Failed to delete reservation:', error)
       toast({
-        title: '예약 삭제에 실패했습니다.',
+        title: getErrorMessage(error, '예약 삭제에 실패했습니다.'),
         variant: 'destructive'
       })
-    } finally {
-      setReservationToDelete(null)
+      return
     }
-  }
-
-  useEffect(() => {
-    loadMyReservations()
-  }, [session, currentMonth])
 
-  useEffect(() => {
-    loadMyReservations()
-  }, [onRefresh])
+    setMyReservations((prev) => prev && prev.filter((reservation) => reservation.id !== reservationToDelete.id))
+    onRefresh()
+    toast({
+      title: '예약이 성공적으로 삭제되었습니다.',
+      variant: 'default'
+    })
+  }
 
-  if (!session?.data?.accessToken) {
+  if (!isLoggedIn) {
     return null
   }
 
@@ -128,20 +98,24 @@ export default function MyReservationList({ currentMonth, onRefresh }: MyReserva
     return <div className="text-center">로딩중...</div>
   }
 
-  if (reservations.length === 0) {
-    return null
-  }
-
   return (
     <div className="space-y-4">
-      <h2 className="text-xl font-semibold">나의 예약 내역</h2>
-      <div className="rounded-lg border">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold">나의 예약 내역</h2>
+        <CalendarExportMenu />
+      </div>
+      {reservations.length === 0 && <p className="text-sm text-gray-500">이번 달 예약 내역이 없습니다.</p>}
+      <div className="rounded-lg border empty:hidden">
         {reservations.map((reservation) => (
           <div key={reservation.id} className="flex items-center justify-between border-b p-4 last:border-b-0">
             <div className="flex flex-col gap-1">
-              <div className="font-medium">{reservation.title}</div>
+              <div className="flex items-center gap-2 font-medium">
+                {reservation.title}
+                {reservation.seriesId != null && <Badge variant="secondary">정기</Badge>}
+              </div>
               <div className="text-sm text-gray-500">
-                {new Date(reservation.startTime).toLocaleString()} - {new Date(reservation.endTime).toLocaleString()}
+                {formatKst(reservation.startTime, 'yyyy. M. d. (EEE) HH:mm')} -{' '}
+                {formatKst(reservation.endTime, 'HH:mm')}
               </div>
               <div className="text-sm">{reservation.description}</div>
             </div>
@@ -165,6 +139,7 @@ export default function MyReservationList({ currentMonth, onRefresh }: MyReserva
                     <AlertDialogTitle>예약을 삭제하시겠습니까?</AlertDialogTitle>
                     <AlertDialogDescription>
                       이 작업은 되돌릴 수 없습니다. 예약이 영구적으로 삭제됩니다.
+                      {reservation.seriesId != null && ' 정기 예약의 다른 회차는 그대로 유지됩니다.'}
                     </AlertDialogDescription>
                   </AlertDialogHeader>
                   <AlertDialogFooter>
@@ -0,0 +1,238 @@
+'use client'
+
+import { eachMonthOfInterval, parseISO } from 'date-fns'
+import { useEffect, useMemo, useState } from 'react'
+
+import StudySelect from '@/components/clubroom/StudySelect'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/components/ui/use-toast'
+import { useApiClient } from '@/lib/api/hooks'
+import { useDraftGuard } from '@/lib/auth/hooks'
+import { formatClubTime, formatKst } from '@/lib/date'
+import {
+  createWeeklyOccurrences,
+  findConflicts,
+  getSemesterEndDate,
+  MAX_WEEKLY_OCCURRENCES,
+  toRequestTimeRange,
+  validateTimeRange
+} from '@/lib/reservation'
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { Reservation, Study } from '@/types'
+
+interface RecurringReservationDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // 요일과 시간이 정해진 스터디만 전달해주세요.
+  studies: Study[]
+  onCreated: () => void
+}
+
+export default function RecurringReservationDialog({
+  open,
+  onOpenChange,
+  studies,
+  onCreated
+}: RecurringReservationDialogProps) {
+  const [studyId, setStudyId] = useState<number | null>(null)
+  const [from, setFrom] = useState(() => formatKst(new Date(), 'yyyy-MM-dd'))
+  const [until, setUntil] = useState(() => getSemesterEndDate())
+  const [title, setTitle] = useState('')
+  const [description, setDescription] = useState('')
+  // 사용자가 신청에서 제외한 회차의 시작 시간
+  const [excluded, setExcluded] = useState<Set<number>>(new Set())
+  const [reservations, setReservations] = useState<Reservation[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const client = useApiClient()
+  const { toast } = useToast()
+
+  const study = studies.find(({ id }) => id === studyId) ?? null
+
+  useDraftGuard(open && (title.length > 0 || description.length > 0))
+
+  // 기간에 포함된 모든 달의 예약을 불러와 회차별 충돌을 검사합니다.
+  useEffect(() => {
+    if (!open || !from || !until || from > until) return
+
+    let ignore = false
+    const loadReservations = async () => {
+      // 날짜 문자열의 연, 월만 사용하므로 브라우저 시간대로 변환해도 됩니다.
+      const months = eachMonthOfInterval({ start: parseISO(from), end: parseISO(until) })
+      const results = await Promise.all(
+        months.map((month) => client.reservation.list(month.getFullYear(), month.getMonth() + 1))
+      )
+      if (ignore) return
+      setReservations(results.flatMap(({ data }) => data ?? []))
+    }
+
+    loadReservations()
+    return () => {
+      ignore = true
+    }
+  }, [client, open, from, until])
+
+  const occurrences = useMemo(() => {
+    if (!study) return []
+    return createWeeklyOccurrences(study, from, until).map((range) => {
+      const timeError = validateTimeRange(range)
+      const conflicts = timeError ? [] : findConflicts(reservations, range)
+      return { range, timeError, conflicts, isAvailable: !timeError && conflicts.length === 0 }
+    })
+  }, [study, from, until, reservations])
+
+  const selectedOccurrences = occurrences.filter(
+    ({ range, isAvailable }) => isAvailable && !excluded.has(range.start.getTime())
+  )
+
+  const handleStudyChange = (id: number) => {
+    setStudyId(id)
+    setExcluded(new Set())
+    if (!title) {
+      setTitle(studies.find((study) => study.id === id)?.title ?? '')
+    }
+  }
+
+  const toggleOccurrence = (start: Date) => {
+    const next = new Set(excluded)
+    if (next.has(start.getTime())) {
+      next.delete(start.getTime())
+    } else {
+      next.add(start.getTime())
+    }
+    setExcluded(next)
+  }
+
+  const handleSubmit = async () => {
+    if (!study || selectedOccurrences.length === 0) return
+
+    setIsSubmitting(true)
+    const { error } = await client.reservation.series.create({
+      studyId: study.id,
+      title,
+      description,
+      reservations: selectedOccurrences.map(({ range }) => toRequestTimeRange(range))
+    })
+    setIsSubmitting(false)
+
+    if (error) {
+      toast({
+        title: getErrorMessage(error, '정기 예약 신청에 실패했습니다.'),
+        variant: 'destructive'
+      })
+      return
+    }
+
+    toast({
+      title: '정기 예약을 신청했습니다.',
+      description: `${selectedOccurrences.length}회의 예약이 운영진의 승인을 기다리고 있습니다.`,
+      variant: 'default'
+    })
+    setTitle('')
+    setDescription('')
+    setExcluded(new Set())
+    onOpenChange(false)
+    onCreated()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>정기 예약하기</DialogTitle>
+          <DialogDescription>스터디 일정에 맞춰 매주 반복되는 예약을 한 번에 신청합니다.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-6 items-center gap-4">
+            <Label className="text-right">스터디</Label>
+            <StudySelect studies={studies} value={studyId} onChange={handleStudyChange} className="col-span-5" />
+          </div>
+          {study && (
+            <p className="text-sm text-gray-600">
+              매주 {study.day}요일 {formatClubTime(study.startTime)} - {formatClubTime(study.endTime)}
+            </p>
+          )}
+          <div className="grid grid-cols-6 items-center gap-4">
+            <Label className="text-right">기간</Label>
+            <div className="col-span-5 flex items-center gap-2">
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              <span>~</span>
+              <Input type="date" value={until} min={from} onChange={(e) => setUntil(e.target.value)} />
+            </div>
+          </div>
+          <div className="grid grid-cols-6 items-center gap-4">
+            <Label className="text-right">제목</Label>
+            <Input
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="col-span-5"
+              placeholder="예약 제목을 입력하세요"
+            />
+          </div>
+          <div className="grid grid-cols-6 items-center gap-4">
+            <Label className="text-right">설명</Label>
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="col-span-5"
+              placeholder="예약 설명을 입력하세요"
+            />
+          </div>
+
+          {study && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium">
+                회차 미리보기 ({occurrences.length}회 중 {selectedOccurrences.length}회 신청)
+              </p>
+              {occurrences.length === MAX_WEEKLY_OCCURRENCES && (
+                <p className="text-sm text-gray-500">한 번에 최대 {MAX_WEEKLY_OCCURRENCES}회까지 신청할 수 있습니다.</p>
+              )}
+              <ul className="divide-y rounded-md border text-sm">
+                {occurrences.map(({ range, timeError, conflicts, isAvailable }) => (
+                  <li key={range.start.getTime()} className="flex items-center gap-3 px-3 py-2">
+                    <Checkbox
+                      checked={isAvailable && !excluded.has(range.start.getTime())}
+                      disabled={!isAvailable}
+                      onCheckedChange={() => toggleOccurrence(range.start)}
+                    />
+                    <span className="w-28">{formatKst(range.start, 'M월 d일 (EEE)')}</span>
+                    {timeError ? (
+                      <span className="text-gray-400">{timeError}</span>
+                    ) : conflicts.length > 0 ? (
+                      <span className="text-red-500">
+                        예약 충돌: {conflicts.map((reservation) => reservation.title).join(', ')}
+                      </span>
+                    ) : (
+                      <span className="text-green-600">예약 가능</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            취소
+          </Button>
+          <Button onClick={handleSubmit} disabled={!title || selectedOccurrences.length === 0 || isSubmitting}>
+            {selectedOccurrences.length}회 예약 신청
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
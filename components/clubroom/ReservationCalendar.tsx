@@ -1,12 +1,16 @@
 'use client'
 
-import { DatesSetArg, EventClickArg } from '@fullcalendar/core'
+import { DateSelectArg, DatesSetArg, EventClickArg, EventDropArg } from '@fullcalendar/core'
 import dayGridPlugin from '@fullcalendar/daygrid'
-import interactionPlugin from '@fullcalendar/interaction'
+import interactionPlugin, { DateClickArg, EventResizeDoneArg } from '@fullcalendar/interaction'
 import FullCalendar from '@fullcalendar/react'
 import timeGridPlugin from '@fullcalendar/timegrid'
-import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useMemo, useState } from 'react'
 
+import { HttpStatusCode } from '@/app/api/utils/httpConsts'
+import RecurringReservationDialog from '@/components/clubroom/RecurringReservationDialog'
+import StudySelect from '@/components/clubroom/StudySelect'
 import WaitingReservations from '@/components/clubroom/WaitingReservations'
 import { Button } from '@/components/ui/button'
 import {
@@ -21,11 +25,26 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { useToast } from '@/components/ui/use-toast'
-import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
+import { ROUTES } from '@/constants/routes'
+import { ApiClient, ApiResult } from '@/lib/api/client'
+import { useApiClient, useApiQuery } from '@/lib/api/hooks'
+import { useDraftGuard, usePermissions } from '@/lib/auth/hooks'
 import { useSession } from '@/lib/auth/SessionProvider'
-import { fetchData } from '@/lib/fetch'
-import { CustomResponse } from '@/lib/response'
-import { Reservation, User } from '@/types'
+import { formatKst, fromCalendarDate, getKstYearMonth, parseKst, toCalendarDate } from '@/lib/date'
+import {
+  createTimeRange,
+  findConflicts,
+  isWithinSingleDay,
+  RESERVATION_HOURS,
+  suggestFreeSlots,
+  TimeRange,
+  toRequestTimeRange,
+  validateTimeRange
+} from '@/lib/reservation'
+import { CustomErrorDTO } from '@/lib/response'
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { ReservationConflict } from '@/lib/response/errors'
+import { Reservation, Study } from '@/types'
 
 interface ReservationCalendarProps {
   onMonthChange: (year: number, month: number) => void
@@ -44,8 +63,35 @@ const statusText = {
   DECLINE: '거절됨'
 }
 
+// 백엔드가 에러 코드 없이 409만 보내는 경우에도 예약 충돌로 안내합니다.
+const isConflictError = ({ errorType }: CustomErrorDTO) =>
+  errorType === ReservationConflict.errorType || errorType === `HTTP/${HttpStatusCode.Conflict}`
+
+/**
+ * 예약에 사용할 수 있는 스터디 (내가 개설했거나 참여가 승인된 스터디)
+ */
+async function loadMyStudies(client: ApiClient): Promise<ApiResult<Study[]>> {
+  const [created, joined] = await Promise.all([client.profile.createdStudies(), client.profile.joinedStudies()])
+  if (created.error) return created
+  if (joined.error) return joined
+
+  const accepted = joined.data.filter(({ state }) => state === 'Accept').map(({ study }) => study)
+  const studies = [...created.data, ...accepted].filter(
+    (study, index, studies) => studies.findIndex(({ id }) => id === study.id) === index
+  )
+  return { error: null, data: studies }
+}
+
 export default function ReservationCalendar({ onMonthChange, onRefresh }: ReservationCalendarProps) {
-  const [reservations, setReservations] = useState<Reservation[]>([])
+  const [visibleMonth, setVisibleMonth] = useState(() => getKstYearMonth())
+  const { data: monthReservations, setData: setMonthReservations } = useApiQuery(
+    (client) => client.reservation.list(visibleMonth.year, visibleMonth.month),
+    [visibleMonth.year, visibleMonth.month]
+  )
+  const reservations = useMemo(
+    () => (monthReservations ?? []).filter((reservation) => reservation.isVerified !== 'DECLINE'),
+    [monthReservations]
+  )
   const [selectedDate, setSelectedDate] = useState<string>('')
   const [selectedTime, setSelectedTime] = useState({ start: '09:00', end: '10:00' })
   const [title, setTitle] = useState('')
@@ -53,21 +99,34 @@ export default function ReservationCalendar({ onMonthChange, onRefresh }: Reserv
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [isDetailsDialogOpen, setIsDetailsDialogOpen] = useState(false)
   const [selectedReservation, setSelectedReservation] = useState<Reservation | null>(null)
-  const [isStaff, setIsStaff] = useState(false)
+  const [selectedStudyId, setSelectedStudyId] = useState<number | null>(null)
+  const [isRecurringDialogOpen, setIsRecurringDialogOpen] = useState(false)
+  const { isStaff, isLoggedIn, userId } = usePermissions()
+  const { data: myStudies } = useApiQuery((client) => (isLoggedIn ? loadMyStudies(client) : null), [isLoggedIn])
+  // 정기 예약은 요일과 시간이 정해진 스터디만 가능합니다.
+  const weeklyStudies = (myStudies ?? []).filter(({ day, startTime, endTime }) => day && startTime && endTime)
   const session = useSession()
+  const client = useApiClient()
   const { toast } = useToast()
 
-  const loadReservations = async (year: number, month: number) => {
-    const res = await fetchData(API_ENDPOINTS.CLIENT.RESERVATION.LIST(year, month) as ApiEndpoint)
-    if (!res.ok) {
-      console.error('Failed to load reservations')
-      return
+  useDraftGuard(isDialogOpen && (title.length > 0 || description.length > 0))
+
+  // 불러온 달의 예약으로 먼저 검사합니다. 다른 달의 예약과의 충돌은 서버의 409 응답으로 안내합니다.
+  const { timeError, conflicts, suggestions } = useMemo(() => {
+    if (!isDialogOpen || !selectedDate) {
+      return { timeError: null, conflicts: [], suggestions: [] }
     }
-    const json: CustomResponse = await res.json()
-    setReservations(json.data.filter((reservation: Reservation) => reservation.isVerified !== 'DECLINE'))
-  }
+    const range = createTimeRange(selectedDate, selectedTime.start, selectedTime.end)
+    const timeError = validateTimeRange(range)
+    const conflicts = timeError ? [] : findConflicts(reservations, range)
+    return {
+      timeError,
+      conflicts,
+      suggestions: conflicts.length > 0 ? suggestFreeSlots(reservations, range) : []
+    }
+  }, [isDialogOpen, selectedDate, selectedTime, reservations])
 
-  const handleDateClick = (info: { dateStr: string }) => {
+  const openReservationDialog = (date: string, time?: { start: string; end: string }) => {
     if (!session) {
       toast({
         variant: 'destructive',
@@ -75,46 +134,98 @@ export default function ReservationCalendar({ onMonthChange, onRefresh }: Reserv
       })
       return
     }
-    setSelectedDate(info.dateStr.split('T')[0])
+    setSelectedDate(date)
+    if (time) setSelectedTime(time)
+    if (selectedStudyId === null && myStudies?.length) setSelectedStudyId(myStudies[0].id)
     setIsDialogOpen(true)
   }
 
-  const handleReservation = async () => {
-    if (!session || !selectedDate) return
+  // 주간 보기의 시간 칸은 `handleSelect`에서 처리합니다.
+  const handleDateClick = (info: DateClickArg) => {
+    if (!info.allDay) return
+    openReservationDialog(info.dateStr.split('T')[0])
+  }
+
+  // 주간 보기에서 드래그한 시간으로 예약 창을 채웁니다.
+  const handleSelect = (arg: DateSelectArg) => {
+    arg.view.calendar.unselect()
+    if (arg.allDay) return
+    const start = fromCalendarDate(arg.start)
+    const end = fromCalendarDate(arg.end)
+    openReservationDialog(formatKst(start, 'yyyy-MM-dd'), {
+      start: formatKst(start, 'HH:mm'),
+      end: formatKst(end, 'HH:mm')
+    })
+  }
+
+  // 본인의 승인 대기 중인 예약은 직접, 운영진은 모든 예약의 시간을 옮길 수 있습니다.
+  const canReschedule = (reservation: Reservation) =>
+    isStaff || (reservation.isVerified === 'WAIT' && reservation.reserver.id === userId)
+
+  const handleReschedule = async ({ event, revert }: EventDropArg | EventResizeDoneArg) => {
+    const reservation = reservations.find((r) => r.id === parseInt(event.id))
+    if (!reservation || !event.start || !event.end) {
+      revert()
+      return
+    }
 
-    const startDateTime = new Date(`${selectedDate}T${selectedTime.start}`)
-    const endDateTime = new Date(`${selectedDate}T${selectedTime.end}`)
+    const range = { start: fromCalendarDate(event.start), end: fromCalendarDate(event.end) }
+    const timeError = validateTimeRange(range)
+    if (timeError || findConflicts(reservations, range, reservation.id).length > 0) {
+      revert()
+      toast({
+        title: timeError ?? getErrorMessage(ReservationConflict),
+        variant: 'destructive'
+      })
+      return
+    }
 
-    startDateTime.setTime(startDateTime.getTime() + 9 * 60 * 60 * 1000)
-    endDateTime.setTime(endDateTime.getTime() + 9 * 60 * 60 * 1000)
+    const { data: updated, error } = await client.reservation.update(reservation.id, toRequestTimeRange(range))
+    if (error) {
+      revert()
+      toast({
+        title: getErrorMessage(isConflictError(error) ? ReservationConflict : error, '예약 시간 변경에 실패했습니다.'),
+        variant: 'destructive'
+      })
+      return
+    }
+
+    setMonthReservations((prev) => prev && prev.map((r) => (r.id === updated.id ? updated : r)))
+    onRefresh()
+    toast({
+      title: '예약 시간이 변경되었습니다.',
+      description: `${formatKst(range.start, 'M월 d일 HH:mm')} - ${formatKst(range.end, 'HH:mm')}`,
+      variant: 'default'
+    })
+  }
+
+  const handleReservation = async () => {
+    if (!session || !selectedDate || selectedStudyId === null) return
+    if (timeError || conflicts.length > 0) {
+      toast({
+        title: timeError ?? getErrorMessage(ReservationConflict),
+        variant: 'destructive'
+      })
+      return
+    }
 
     const reservationData = {
-      studyId: 1,
-      startTime: startDateTime.toISOString(),
-      endTime: endDateTime.toISOString(),
+      studyId: selectedStudyId,
+      ...toRequestTimeRange(createTimeRange(selectedDate, selectedTime.start, selectedTime.end)),
       title,
       description
     }
 
-    const res = await fetchData(API_ENDPOINTS.CLIENT.RESERVATION.CREATE as ApiEndpoint, {
-      method: 'POST',
-      body: JSON.stringify(reservationData),
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${session?.data?.accessToken}`
-      },
-      credentials: 'include'
-    })
-    if (!res.ok) {
+    const { data: created, error } = await client.reservation.create(reservationData)
+    if (error) {
       toast({
-        title: '이미 예약된 시간입니다. 다른 시간을 선택해 주세요.',
+        title: getErrorMessage(isConflictError(error) ? ReservationConflict : error, '예약에 실패했습니다.'),
         variant: 'destructive'
       })
       return
     }
 
-    const json: CustomResponse = await res.json()
-    setReservations([...reservations, json.data])
+    setMonthReservations((prev) => [...(prev ?? []), created])
     onRefresh()
     setIsDialogOpen(false)
     setTitle('')
@@ -125,6 +236,10 @@ export default function ReservationCalendar({ onMonthChange, onRefresh }: Reserv
     })
   }
 
+  const handleSuggestionClick = ({ start, end }: TimeRange) => {
+    setSelectedTime({ start: formatKst(start, 'HH:mm'), end: formatKst(end, 'HH:mm') })
+  }
+
   const handleEventClick = (arg: EventClickArg) => {
     const reservationId = arg.event.id
     const reservation = reservations.find((r) => r.id === parseInt(reservationId))
@@ -134,59 +249,32 @@ export default function ReservationCalendar({ onMonthChange, onRefresh }: Reserv
     }
   }
 
-  useEffect(() => {
-    const today = new Date()
-    loadReservations(today.getFullYear(), today.getMonth() + 1)
-  }, [])
-
-  useEffect(() => {
-    const currentDate = new Date()
-    loadReservations(currentDate.getFullYear(), currentDate.getMonth() + 1)
-  }, [onRefresh])
-
   const events = reservations.map((reservation) => ({
     id: reservation.id.toString(),
     title: `${reservation.title} (${reservation.reserver.username})`,
-    start: reservation.startTime,
-    end: reservation.endTime,
-    backgroundColor: reservation.isVerified === 'ACCEPT' ? '#22c55e' : '#f59e0b'
+    start: toCalendarDate(parseKst(reservation.startTime)),
+    end: toCalendarDate(parseKst(reservation.endTime)),
+    editable: canReschedule(reservation),
+    backgroundColor: conflicts.some(({ id }) => id === reservation.id)
+      ? '#ef4444'
+      : reservation.isVerified === 'ACCEPT'
+        ? '#22c55e'
+        : '#f59e0b'
   }))
 
   const handleDatesSet = (arg: DatesSetArg) => {
-    const year = arg.view.currentStart.getFullYear()
-    const month = arg.view.currentStart.getMonth() + 1
-    loadReservations(year, month)
+    const { year, month } = getKstYearMonth(fromCalendarDate(arg.view.currentStart))
+    setVisibleMonth({ year, month })
     onMonthChange(year, month)
   }
 
-  const checkIsStaff = async () => {
-    if (!session?.data?.accessToken) return false
-
-    const res = await fetchData(API_ENDPOINTS.CLIENT.STAFF.LIST as ApiEndpoint, {
-      headers: {
-        Authorization: `Bearer ${session.data.accessToken}`
-      }
-    })
-
-    if (!res.ok) return false
-
-    const json: CustomResponse = await res.json()
-    const staffList: User[] = json.data
-    return staffList.some((staff) => staff.username === session.data?.username)
-  }
-
   const handleApproval = async () => {
     if (!selectedReservation) return
 
-    const res = await fetchData(API_ENDPOINTS.CLIENT.RESERVATION.ACCEPT(selectedReservation.id) as ApiEndpoint, {
-      headers: {
-        Authorization: `Bearer ${session?.data?.accessToken}`
-      }
-    })
-
-    if (!res.ok) {
+    const { error } = await client.reservation.accept(selectedReservation.id)
+    if (error) {
       toast({
-        title: '승인 처리 중 오류가 발생했습니다.',
+        title: getErrorMessage(error, '승인 처리 중 오류가 발생했습니다.'),
         variant: 'destructive'
       })
       return
@@ -203,15 +291,10 @@ export default function ReservationCalendar({ onMonthChange, onRefresh }: Reserv
   const handleRejection = async () => {
     if (!selectedReservation) return
 
-    const res = await fetchData(API_ENDPOINTS.CLIENT.RESERVATION.REJECT(selectedReservation.id) as ApiEndpoint, {
-      headers: {
-        Authorization: `Bearer ${session?.data?.accessToken}`
-      }
-    })
-
-    if (!res.ok) {
+    const { error } = await client.reservation.reject(selectedReservation.id)
+    if (error) {
       toast({
-        title: '거절 처리 중 오류가 발생했습니다.',
+        title: getErrorMessage(error, '거절 처리 중 오류가 발생했습니다.'),
         variant: 'destructive'
       })
       return
@@ -225,19 +308,23 @@ export default function ReservationCalendar({ onMonthChange, onRefresh }: Reserv
     onRefresh()
   }
 
-  useEffect(() => {
-    const checkStaffStatus = async () => {
-      const staffStatus = await checkIsStaff()
-      setIsStaff(staffStatus)
-    }
-
-    if (session?.data?.accessToken) {
-      checkStaffStatus()
-    }
-  }, [session])
-
   return (
     <div className="max-w-5xl">
+      {(weeklyStudies.length > 0 || isStaff) && (
+        <div className="mb-4 flex justify-end gap-2">
+          {isStaff && (
+            <Button variant="outline" asChild>
+              <Link href={ROUTES.CLUBROOM_STATISTICS.url}>{ROUTES.CLUBROOM_STATISTICS.name}</Link>
+            </Button>
+          )}
+          {weeklyStudies.length > 0 && (
+            <Button variant="outline" onClick={() => setIsRecurringDialogOpen(true)}>
+              정기 예약
+            </Button>
+          )}
+        </div>
+      )}
+      {/* 브라우저 시간대와 관계없이 한국 시간으로 그리기 위해 UTC 모드에서 `toCalendarDate`로 변환한 날짜를 사용합니다. */}
       <FullCalendar
         plugins={[dayGridPlugin, timeGridPlugin, interactionPlugin]}
         initialView="dayGridMonth"
@@ -248,16 +335,35 @@ export default function ReservationCalendar({ onMonthChange, onRefresh }: Reserv
         }}
         events={events}
         dateClick={handleDateClick}
+        selectable={!!session}
+        selectAllow={({ start, end }) =>
+          isWithinSingleDay({ start: fromCalendarDate(start), end: fromCalendarDate(end) })
+        }
+        select={handleSelect}
+        eventAllow={({ start, end }) =>
+          isWithinSingleDay({ start: fromCalendarDate(start), end: fromCalendarDate(end) })
+        }
+        eventDrop={handleReschedule}
+        eventResize={handleReschedule}
         eventClick={handleEventClick}
         datesSet={handleDatesSet}
         height="auto"
         locale="ko"
-        slotMinTime="09:00:00"
-        slotMaxTime="23:00:00"
+        timeZone="UTC"
+        now={() => toCalendarDate(new Date())}
+        slotMinTime={`${RESERVATION_HOURS.start}:00`}
+        slotMaxTime={`${RESERVATION_HOURS.end}:00`}
       />
 
       {isStaff && <WaitingReservations onRefresh={onRefresh} />}
 
+      <RecurringReservationDialog
+        open={isRecurringDialogOpen}
+        onOpenChange={setIsRecurringDialogOpen}
+        studies={weeklyStudies}
+        onCreated={onRefresh}
+      />
+
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
         <DialogContent>
           <DialogHeader>
@@ -266,6 +372,18 @@ export default function ReservationCalendar({ onMonthChange, onRefresh }: Reserv
           </DialogHeader>
 
           <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-6 items-center gap-4">
+              <Label className="text-right">스터디</Label>
+              <StudySelect
+                studies={myStudies ?? []}
+                value={selectedStudyId}
+                onChange={setSelectedStudyId}
+                className="col-span-5"
+              />
+            </div>
+            {myStudies?.length === 0 && (
+              <p className="text-sm text-red-500">동아리방은 참여 중인 스터디 활동을 위해서만 예약할 수 있습니다.</p>
+            )}
             <div className="grid grid-cols-6 items-center gap-4">
               <Label className="text-right">시작 시간</Label>
               <Input
@@ -284,6 +402,38 @@ export default function ReservationCalendar({ onMonthChange, onRefresh }: Reserv
                 className="col-span-5"
               />
             </div>
+            {timeError && <p className="text-sm text-red-500">{timeError}</p>}
+            {conflicts.length > 0 && (
+              <div className="space-y-2 rounded-md border border-red-200 bg-red-50 p-3 text-sm">
+                <p className="font-medium text-red-500">선택한 시간에 이미 예약이 있습니다.</p>
+                <ul className="space-y-1 text-gray-600">
+                  {conflicts.map((reservation) => (
+                    <li key={reservation.id}>
+                      {formatKst(reservation.startTime, 'HH:mm')} - {formatKst(reservation.endTime, 'HH:mm')}{' '}
+                      {reservation.title} ({statusText[reservation.isVerified]})
+                    </li>
+                  ))}
+                </ul>
+                {suggestions.length > 0 ? (
+                  <div className="flex flex-wrap items-center gap-2 pt-1">
+                    <span className="text-gray-600">추천 시간</span>
+                    {suggestions.map((slot) => (
+                      <Button
+                        key={slot.start.getTime()}
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleSuggestionClick(slot)}
+                      >
+                        {formatKst(slot.start, 'HH:mm')} - {formatKst(slot.end, 'HH:mm')}
+                      </Button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-600">같은 날 예약 가능한 빈 시간이 없습니다.</p>
+                )}
+              </div>
+            )}
             <div className="grid grid-cols-6 items-center gap-4">
               <Label className="text-right">제목</Label>
               <Input
@@ -308,7 +458,12 @@ export default function ReservationCalendar({ onMonthChange, onRefresh }: Reserv
             <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
               취소
             </Button>
-            <Button onClick={handleReservation}>예약하기</Button>
+            <Button
+              onClick={handleReservation}
+              disabled={selectedStudyId === null || !!timeError || conflicts.length > 0}
+            >
+              예약하기
+            </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -338,8 +493,8 @@ export default function ReservationCalendar({ onMonthChange, onRefresh }: Reserv
               <div className="space-y-2">
                 <Label>시간</Label>
                 <p className="text-base text-gray-600">
-                  {new Date(selectedReservation.startTime).toLocaleString()} -{' '}
-                  {new Date(selectedReservation.endTime).toLocaleString()}
+                  {formatKst(selectedReservation.startTime, 'yyyy. M. d. (EEE) HH:mm')} -{' '}
+                  {formatKst(selectedReservation.endTime, 'HH:mm')}
                 </p>
               </div>
               <div className="space-y-2">
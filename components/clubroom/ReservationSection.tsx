@@ -2,6 +2,8 @@
 
 import { useCallback, useState } from 'react'
 
+import { getKstYearMonth } from '@/lib/date'
+
 import MyReservationList from './MyReservationList'
 import ReservationCalendar from './ReservationCalendar'
 
@@ -11,13 +13,7 @@ export interface CurrentMonth {
 }
 
 export default function ReservationSection() {
-  const [currentMonth, setCurrentMonth] = useState<CurrentMonth>(() => {
-    const today = new Date()
-    return {
-      year: today.getFullYear(),
-      month: today.getMonth() + 1
-    }
-  })
+  const [currentMonth, setCurrentMonth] = useState<CurrentMonth>(() => getKstYearMonth())
   const [refreshTrigger, setRefreshTrigger] = useState(0)
 
   const handleMonthChange = (year: number, month: number) => {
@@ -0,0 +1,28 @@
+'use client'
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Study } from '@/types'
+
+interface StudySelectProps {
+  studies: Study[]
+  value: number | null
+  onChange: (studyId: number) => void
+  className?: string
+}
+
+export default function StudySelect({ studies, value, onChange, className }: StudySelectProps) {
+  return (
+    <Select value={value === null ? '' : `${value}`} onValueChange={(studyId) => onChange(Number(studyId))}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="스터디를 선택하세요" />
+      </SelectTrigger>
+      <SelectContent>
+        {studies.map((study) => (
+          <SelectItem key={study.id} value={`${study.id}`}>
+            {study.title}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
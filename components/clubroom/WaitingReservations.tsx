@@ -1,95 +1,331 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import {
+  ColumnDef,
+  flexRender,
+  getCoreRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  RowSelectionState,
+  SortingState,
+  useReactTable
+} from '@tanstack/react-table'
+import { MoreHorizontal } from 'lucide-react'
+import { useCallback, useMemo, useState } from 'react'
 
+import { DataTableColumnHeader } from '@/components/common/DataTable/ColumnHeader'
+import rowSelect from '@/components/common/DataTable/Columns/RowSelect'
+import { DataTablePagination } from '@/components/common/DataTable/Pagination'
+import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Textarea } from '@/components/ui/textarea'
 import { useToast } from '@/components/ui/use-toast'
-import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
+import { ApiResult } from '@/lib/api/client'
+import { useApiClient, useApiQuery } from '@/lib/api/hooks'
 import { useSession } from '@/lib/auth/SessionProvider'
-import { fetchData } from '@/lib/fetch'
-import { CustomResponse } from '@/lib/response'
+import { formatKst } from '@/lib/date'
+import { findConflicts, toTimeRange } from '@/lib/reservation'
+import { getErrorMessage } from '@/lib/response/catalogue'
 import { Reservation } from '@/types'
 
 interface WaitingReservationsProps {
   onRefresh: () => void
 }
 
+// 거절 사유를 입력받을 대상
+type RejectTarget = { reservationIds: number[] } | { seriesId: number }
+
+interface WaitingReservationColumnsOptions {
+  overlaps: Map<number, Reservation[]>
+  seriesSizes: Map<number, number>
+  onSelectSeries: (seriesId: number) => void
+  onAccept: (reservationIds: number[]) => void
+  onReject: (target: RejectTarget) => void
+  onAcceptSeries: (seriesId: number) => void
+}
+
+const formatReservationTime = (reservation: Reservation) =>
+  `${formatKst(reservation.startTime, 'M월 d일 (EEE) HH:mm')} - ${formatKst(reservation.endTime, 'HH:mm')}`
+
+function createColumns({
+  overlaps,
+  seriesSizes,
+  onSelectSeries,
+  onAccept,
+  onReject,
+  onAcceptSeries
+}: WaitingReservationColumnsOptions): ColumnDef<Reservation>[] {
+  return [
+    rowSelect as ColumnDef<Reservation>,
+    {
+      accessorKey: 'startTime',
+      header: ({ column }) => <DataTableColumnHeader column={column} title="일시" />,
+      cell: ({ row }) => <span className="whitespace-nowrap">{formatReservationTime(row.original)}</span>
+    },
+    {
+      accessorKey: 'title',
+      header: ({ column }) => <DataTableColumnHeader column={column} title="제목" />,
+      cell: ({ row }) => (
+        <div className="space-y-1">
+          <p className="font-medium">{row.original.title}</p>
+          {row.original.description && (
+            <p className="line-clamp-2 whitespace-pre-line text-xs text-gray-500">{row.original.description}</p>
+          )}
+        </div>
+      )
+    },
+    {
+      id: 'reserver',
+      accessorFn: (reservation) => reservation.reserver.username,
+      header: ({ column }) => <DataTableColumnHeader column={column} title="예약자" />
+    },
+    {
+      id: 'flags',
+      header: '확인 사항',
+      cell: ({ row }) => {
+        const { id, seriesId } = row.original
+        const overlapping = overlaps.get(id) ?? []
+
+        return (
+          <div className="flex flex-wrap gap-1">
+            {seriesId != null && (
+              <Badge
+                variant="secondary"
+                className="cursor-pointer"
+                title="이 정기 예약의 모든 회차를 선택합니다."
+                onClick={() => onSelectSeries(seriesId)}
+              >
+                정기 {seriesSizes.get(seriesId)}회
+              </Badge>
+            )}
+            {overlapping.length > 0 && (
+              <Badge
+                variant="destructive"
+                title={overlapping
+                  .map((reservation) => `${reservation.title} (${reservation.reserver.username})`)
+                  .join('\n')}
+              >
+                {overlapping.length}건과 겹침
+              </Badge>
+            )}
+          </div>
+        )
+      }
+    },
+    {
+      id: 'actions',
+      cell: ({ row }) => {
+        const { id, seriesId } = row.original
+
+        return (
+          <div className="text-center">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" className="h-8 w-8 p-0">
+                  <span className="sr-only">Open menu</span>
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Actions</DropdownMenuLabel>
+                <DropdownMenuItem onClick={() => onAccept([id])}>승인</DropdownMenuItem>
+                <DropdownMenuItem className="text-red-500" onClick={() => onReject({ reservationIds: [id] })}>
+                  거절
+                </DropdownMenuItem>
+                {seriesId != null && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => onAcceptSeries(seriesId)}>정기 예약 전체 승인</DropdownMenuItem>
+                    <DropdownMenuItem className="text-red-500" onClick={() => onReject({ seriesId })}>
+                      정기 예약 전체 거절
+                    </DropdownMenuItem>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        )
+      }
+    }
+  ]
+}
+
+/**
+ * 운영진이 승인 대기 중인 예약을 한 번에 검토하는 표 입니다.
+ * 대기 중인 예약끼리 시간이 겹치면 표시해, 어느 쪽을 승인할지 판단할 수 있도록 합니다.
+ */
 export default function WaitingReservations({ onRefresh }: WaitingReservationsProps) {
-  const [waitingReservations, setWaitingReservations] = useState<Reservation[]>([])
+  const [from, setFrom] = useState('')
+  const [until, setUntil] = useState('')
+  const [reserver, setReserver] = useState('')
+  const [sorting, setSorting] = useState<SortingState>([{ id: 'startTime', desc: false }])
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({})
+  const [rejectTarget, setRejectTarget] = useState<RejectTarget | null>(null)
+  const [rejectReason, setRejectReason] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
   const session = useSession()
+  const client = useApiClient()
   const { toast } = useToast()
 
-  const loadWaitingReservations = async () => {
-    if (!session?.data?.accessToken) return
+  const { data } = useApiQuery(
+    (client) => (session?.data?.accessToken ? client.reservation.waiting() : null),
+    [session?.data?.accessToken]
+  )
+  const waitingReservations = useMemo(() => data ?? [], [data])
 
-    const res = await fetchData(API_ENDPOINTS.CLIENT.RESERVATION.WAITING as ApiEndpoint, {
-      headers: {
-        Authorization: `Bearer ${session.data.accessToken}`
-      }
+  // 필터와 관계없이 대기 중인 모든 예약을 기준으로 겹침 여부를 계산합니다.
+  const overlaps = useMemo(
+    () =>
+      new Map(
+        waitingReservations.map((reservation) => [
+          reservation.id,
+          findConflicts(waitingReservations, toTimeRange(reservation), reservation.id)
+        ])
+      ),
+    [waitingReservations]
+  )
+
+  const seriesSizes = useMemo(() => {
+    const sizes = new Map<number, number>()
+    waitingReservations.forEach(({ seriesId }) => {
+      if (seriesId) sizes.set(seriesId, (sizes.get(seriesId) ?? 0) + 1)
     })
+    return sizes
+  }, [waitingReservations])
 
-    if (!res.ok) {
-      toast({
-        title: '대기 중인 예약 목록을 불러오는데 실패했습니다.',
-        variant: 'destructive'
-      })
-      return
-    }
+  const filteredReservations = useMemo(() => {
+    const keyword = reserver.trim().toLowerCase()
+    return waitingReservations.filter((reservation) => {
+      const date = formatKst(reservation.startTime, 'yyyy-MM-dd')
+      if (from && date < from) return false
+      if (until && date > until) return false
+      return !keyword || reservation.reserver.username.toLowerCase().includes(keyword)
+    })
+  }, [waitingReservations, from, until, reserver])
 
-    const json: CustomResponse = await res.json()
-    setWaitingReservations(json.data)
-  }
+  const runModeration = useCallback(
+    async (request: Promise<ApiResult<unknown>>, successMessage: string, errorMessage: string) => {
+      setIsSubmitting(true)
+      const { error } = await request
+      setIsSubmitting(false)
 
-  const handleApproval = async (reservationId: number) => {
-    const res = await fetchData(API_ENDPOINTS.CLIENT.RESERVATION.ACCEPT(reservationId) as ApiEndpoint, {
-      headers: {
-        Authorization: `Bearer ${session?.data?.accessToken}`
+      if (error) {
+        toast({
+          title: getErrorMessage(error, errorMessage),
+          variant: 'destructive'
+        })
+        return false
       }
-    })
 
-    if (!res.ok) {
       toast({
-        title: '승인 처리 중 오류가 발생했습니다.',
-        variant: 'destructive'
+        title: successMessage,
+        variant: 'default'
       })
-      return
-    }
+      setRowSelection({})
+      onRefresh()
+      return true
+    },
+    [toast, onRefresh]
+  )
 
-    toast({
-      title: '예약이 승인되었습니다.',
-      variant: 'default'
-    })
-    loadWaitingReservations()
-    onRefresh()
-  }
+  const handleAccept = useCallback(
+    (reservationIds: number[]) =>
+      runModeration(
+        client.reservation.bulkAccept({ reservationIds }),
+        `${reservationIds.length}건의 예약이 승인되었습니다.`,
+        '승인 처리 중 오류가 발생했습니다.'
+      ),
+    [client, runModeration]
+  )
 
-  const handleRejection = async (reservationId: number) => {
-    const res = await fetchData(API_ENDPOINTS.CLIENT.RESERVATION.REJECT(reservationId) as ApiEndpoint, {
-      headers: {
-        Authorization: `Bearer ${session?.data?.accessToken}`
-      }
-    })
+  const handleAcceptSeries = useCallback(
+    (seriesId: number) =>
+      runModeration(
+        client.reservation.series.accept(seriesId),
+        '정기 예약이 모두 승인되었습니다.',
+        '승인 처리 중 오류가 발생했습니다.'
+      ),
+    [client, runModeration]
+  )
 
-    if (!res.ok) {
-      toast({
-        title: '거절 처리 중 오류가 발생했습니다.',
-        variant: 'destructive'
-      })
-      return
-    }
+  const handleReject = async () => {
+    if (!rejectTarget) return
 
-    toast({
-      title: '예약이 거절되었습니다.',
-      variant: 'default'
-    })
-    loadWaitingReservations()
-    onRefresh()
+    const reason = rejectReason.trim() || undefined
+    const isDone = await runModeration(
+      'seriesId' in rejectTarget
+        ? client.reservation.series.reject(rejectTarget.seriesId, { reason })
+        : client.reservation.bulkReject({ reservationIds: rejectTarget.reservationIds, reason }),
+      'seriesId' in rejectTarget
+        ? '정기 예약이 모두 거절되었습니다.'
+        : `${rejectTarget.reservationIds.length}건의 예약이 거절되었습니다.`,
+      '거절 처리 중 오류가 발생했습니다.'
+    )
+    if (isDone) {
+      setRejectTarget(null)
+      setRejectReason('')
+    }
   }
 
-  useEffect(() => {
-    loadWaitingReservations()
-  }, [session])
+  const handleSelectSeries = useCallback(
+    (seriesId: number) =>
+      setRowSelection((selection) => ({
+        ...selection,
+        ...Object.fromEntries(
+          filteredReservations.filter((reservation) => reservation.seriesId === seriesId).map(({ id }) => [id, true])
+        )
+      })),
+    [filteredReservations]
+  )
+
+  const columns = useMemo(
+    () =>
+      createColumns({
+        overlaps,
+        seriesSizes,
+        onSelectSeries: handleSelectSeries,
+        onAccept: handleAccept,
+        onReject: setRejectTarget,
+        onAcceptSeries: handleAcceptSeries
+      }),
+    [overlaps, seriesSizes, handleSelectSeries, handleAccept, handleAcceptSeries]
+  )
+
+  const table = useReactTable({
+    data: filteredReservations,
+    columns,
+    getRowId: (reservation) => `${reservation.id}`,
+    getCoreRowModel: getCoreRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    onSortingChange: setSorting,
+    getSortedRowModel: getSortedRowModel(),
+    onRowSelectionChange: setRowSelection,
+    state: {
+      sorting,
+      rowSelection
+    }
+  })
+
+  const selectedIds = table.getSelectedRowModel().rows.map(({ original }) => original.id)
 
   if (waitingReservations.length === 0) {
     return null
@@ -97,41 +333,105 @@ export default function WaitingReservations({ onRefresh }: WaitingReservationsPr
 
   return (
     <div className="mb-8 mt-16">
-      <h2 className="my-4 text-xl font-semibold">승인 대기 중인 예약</h2>
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-        {waitingReservations.map((reservation) => (
-          <Card key={reservation.id} className="flex flex-col">
-            <div className="flex-1">
-              <CardHeader>
-                <CardTitle>{reservation.title}</CardTitle>
-                <CardDescription>예약자: {reservation.reserver.username}</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-2">
-                  <p className="text-sm text-gray-500">
-                    {new Date(reservation.startTime).toLocaleDateString()}{' '}
-                    {new Date(reservation.startTime).toLocaleTimeString()} -{' '}
-                    {new Date(reservation.endTime).toLocaleTimeString()}
-                  </p>
-                  <p className="whitespace-pre-line text-sm text-gray-500">{reservation.description}</p>
-                </div>
-              </CardContent>
+      <h2 className="my-4 text-xl font-semibold">승인 대기 중인 예약 ({waitingReservations.length})</h2>
+
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label>기간</Label>
+            <div className="flex items-center gap-2">
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-40" />
+              <span>~</span>
+              <Input type="date" value={until} min={from} onChange={(e) => setUntil(e.target.value)} className="w-40" />
             </div>
-            <CardFooter className="flex justify-end gap-2">
-              <Button
-                onClick={() => handleApproval(reservation.id)}
-                variant="default"
-                className="bg-green-600 hover:bg-green-700"
-              >
-                승인
-              </Button>
-              <Button onClick={() => handleRejection(reservation.id)} variant="destructive">
-                거절
-              </Button>
-            </CardFooter>
-          </Card>
-        ))}
+          </div>
+          <div className="space-y-1">
+            <Label>예약자</Label>
+            <Input
+              value={reserver}
+              onChange={(e) => setReserver(e.target.value)}
+              placeholder="이름으로 검색"
+              className="w-40"
+            />
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            onClick={() => handleAccept(selectedIds)}
+            disabled={selectedIds.length === 0 || isSubmitting}
+            className="bg-green-600 hover:bg-green-700"
+          >
+            선택 승인 ({selectedIds.length})
+          </Button>
+          <Button
+            onClick={() => setRejectTarget({ reservationIds: selectedIds })}
+            disabled={selectedIds.length === 0 || isSubmitting}
+            variant="destructive"
+          >
+            선택 거절 ({selectedIds.length})
+          </Button>
+        </div>
       </div>
+
+      <Table className="my-5">
+        <TableHeader>
+          {table.getHeaderGroups().map((headerGroup) => (
+            <TableRow key={headerGroup.id}>
+              {headerGroup.headers.map((header) => (
+                <TableHead key={header.id}>
+                  {header.isPlaceholder ? null : flexRender(header.column.columnDef.header, header.getContext())}
+                </TableHead>
+              ))}
+            </TableRow>
+          ))}
+        </TableHeader>
+        <TableBody>
+          {table.getRowModel().rows.length ? (
+            table.getRowModel().rows.map((row) => (
+              <TableRow key={row.id} data-state={row.getIsSelected() && 'selected'}>
+                {row.getVisibleCells().map((cell) => (
+                  <TableCell key={cell.id}>{flexRender(cell.column.columnDef.cell, cell.getContext())}</TableCell>
+                ))}
+              </TableRow>
+            ))
+          ) : (
+            <TableRow>
+              <TableCell colSpan={columns.length} className="h-24 text-center">
+                조건에 맞는 예약이 없습니다.
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+
+      <DataTablePagination table={table} />
+
+      <Dialog open={rejectTarget !== null} onOpenChange={(open) => !open && setRejectTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>예약 거절</DialogTitle>
+            <DialogDescription>
+              {rejectTarget && 'seriesId' in rejectTarget
+                ? '정기 예약의 대기 중인 모든 회차를 거절합니다.'
+                : `${rejectTarget?.reservationIds.length ?? 0}건의 예약을 거절합니다.`}{' '}
+              입력한 사유는 예약자에게 전달됩니다.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={rejectReason}
+            onChange={(e) => setRejectReason(e.target.value)}
+            placeholder="거절 사유 (선택)"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRejectTarget(null)}>
+              취소
+            </Button>
+            <Button variant="destructive" onClick={handleReject} disabled={isSubmitting}>
+              거절
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -2,7 +2,8 @@ import Image from 'next/image'
 
 import { Badge } from '@/components/ui/badge'
 import { Card } from '@/components/ui/card'
-import { Event } from '@/types'
+import { formatDateRange } from '@/lib/date'
+import { Event, JoinState } from '@/types'
 
 const RecruitingStatus = ({ isRecruiting }: { isRecruiting: boolean }) => {
   return isRecruiting ? (
@@ -12,6 +13,17 @@ const RecruitingStatus = ({ isRecruiting }: { isRecruiting: boolean }) => {
   )
 }
 
+const JoinStatus = ({ joinState }: { joinState: JoinState }) => {
+  switch (joinState) {
+    case 'Accept':
+      return <Badge className="absolute left-2 top-2 bg-green-600 font-bold">참여 중</Badge>
+    case 'Wait':
+      return <Badge className="absolute left-2 top-2 bg-yellow-500 font-bold">승인 대기</Badge>
+    case 'Reject':
+      return <Badge className="absolute left-2 top-2 bg-red-500 font-normal">거절됨</Badge>
+  }
+}
+
 const DateAndLocation = ({
   startDate,
   endDate,
@@ -21,7 +33,7 @@ const DateAndLocation = ({
   endDate: string
   location: string
 }) => {
-  const dateText = startDate === endDate ? startDate : `${startDate} ~ ${endDate}`
+  const dateText = formatDateRange(startDate, endDate)
 
   return (
     <div className="flex flex-col items-center gap-1">
@@ -36,9 +48,10 @@ export interface EventCardProps {
   imageSize?: number
   showStatus?: boolean
   imageWrapperClassName?: string
+  joinState?: JoinState | null
 }
 
-export default function EventCard({ event, imageSize, showStatus, imageWrapperClassName }: EventCardProps) {
+export default function EventCard({ event, imageSize, showStatus, imageWrapperClassName, joinState }: EventCardProps) {
   // Set default for parameters
   imageSize = imageSize ?? 144
   showStatus = showStatus ?? true
@@ -49,6 +62,7 @@ export default function EventCard({ event, imageSize, showStatus, imageWrapperCl
   return (
     <Card className="relative flex w-44 transform cursor-pointer flex-col items-center justify-center overflow-hidden px-2 py-4 shadow-md transition-transform hover:scale-105 hover:shadow-2xl sm:w-60 sm:px-4 sm:py-8">
       {showStatus && <RecruitingStatus isRecruiting={event.isRecruiting} />}
+      {joinState && <JoinStatus joinState={joinState} />}
 
       <div className={imageWrapperClassName}>
         <Image
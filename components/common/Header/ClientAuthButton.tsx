@@ -1,9 +1,10 @@
 'use client'
 
-import { signIn, signOut } from 'next-auth/react'
+import { signIn } from 'next-auth/react'
 import React from 'react'
 
 import { Button } from '@/components/ui/button'
+import { logout } from '@/lib/auth/token'
 
 interface ButtonProps {
   children: React.ReactNode
@@ -25,7 +26,7 @@ export const SignOutButton = ({ children, asChild = false, className }: ButtonPr
   const Comp = asChild ? Button : 'button'
 
   return (
-    <Comp onClick={() => signOut()} className={className}>
+    <Comp onClick={() => logout()} className={className}>
       {children}
     </Comp>
   )
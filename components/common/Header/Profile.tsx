@@ -2,7 +2,6 @@
 
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
-import { signOut } from 'next-auth/react'
 import React from 'react'
 import { CiSettings } from 'react-icons/ci'
 import { HiOutlineUserCircle } from 'react-icons/hi2'
@@ -22,6 +21,7 @@ import {
 } from '@/components/ui/dropdown-menu'
 import { ROUTES } from '@/constants/routes'
 import { useSession } from '@/lib/auth/SessionProvider'
+import { logout } from '@/lib/auth/token'
 
 interface MenuItemProps {
   icon: React.ReactNode
@@ -95,7 +95,7 @@ function Profile() {
 
         <DropdownMenuSeparator />
         <DropdownMenuItem
-          onSelect={() => signOut()}
+          onSelect={() => logout()}
           className="flex h-full w-full items-center justify-start gap-x-3 p-2 hover:cursor-pointer"
         >
           <IoIosLogOut size={iconSize} />
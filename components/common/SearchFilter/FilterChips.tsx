@@ -0,0 +1,38 @@
+'use client'
+
+import { cn } from '@/lib/utils'
+
+interface FilterChipsProps<T extends string> {
+  label: string
+  options: readonly T[]
+  value: T[]
+  onChange: (value: T[]) => void
+}
+
+/**
+ * 여러 개를 고를 수 있는 검색 조건 입니다. 아무것도 고르지 않으면 전체를 보여줍니다.
+ */
+export default function FilterChips<T extends string>({ label, options, value, onChange }: FilterChipsProps<T>) {
+  const toggle = (option: T) =>
+    onChange(value.includes(option) ? value.filter((current) => current !== option) : [...value, option])
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="w-10 shrink-0 text-sm font-semibold text-gray-600">{label}</span>
+      {options.map((option) => (
+        <button
+          key={option}
+          type="button"
+          aria-pressed={value.includes(option)}
+          onClick={() => toggle(option)}
+          className={cn(
+            'rounded-full border px-3 py-1 text-sm transition-colors',
+            value.includes(option) ? 'border-primary bg-primary text-primary-foreground' : 'hover:bg-gray-100'
+          )}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+'use client'
+
+import { useDebounce } from '@uidotdev/usehooks'
+import { useEffect, useState } from 'react'
+import { IoSearch } from 'react-icons/io5'
+
+import { Input } from '@/components/ui/input'
+
+interface SearchInputProps {
+  value: string
+  onChange: (value: string) => void
+  placeholder?: string
+}
+
+// 입력이 멈춘 뒤 URL을 바꿔, 글자마다 방문 기록과 렌더링이 반복되지 않도록 합니다.
+const DEBOUNCE_DELAY = 300
+
+export default function SearchInput({ value, onChange, placeholder }: SearchInputProps) {
+  const [query, setQuery] = useState(value)
+  const debouncedQuery = useDebounce(query, DEBOUNCE_DELAY)
+
+  // 뒤로 가기, 초기화 등으로 URL이 바뀌면 입력값도 맞춥니다.
+  useEffect(() => {
+    setQuery(value)
+  }, [value])
+
+  useEffect(() => {
+    if (debouncedQuery.trim() !== value) {
+      onChange(debouncedQuery.trim())
+    }
+    // `value`가 바뀔 때마다 다시 반영하면 방금 지운 검색어가 되살아날 수 있습니다.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedQuery])
+
+  return (
+    <div className="relative w-full">
+      <IoSearch className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+      <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder={placeholder} className="pl-9" />
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+'use client'
+
+import { useState } from 'react'
+import { IoClose } from 'react-icons/io5'
+
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { hasTag, normalizeTag } from '@/lib/tag'
+
+interface TagFilterProps {
+  value: string[]
+  onChange: (tags: string[]) => void
+}
+
+/**
+ * 태그 검색 조건 입니다. 스터디 개설 폼과 같은 규칙으로 태그를 정리하며, 고른 태그를 모두 가진 항목만 보여줍니다.
+ */
+export default function TagFilter({ value, onChange }: TagFilterProps) {
+  const [currentTag, setCurrentTag] = useState('')
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // 한글 입력 중 Enter는 조합을 끝내는 입력이므로 무시합니다.
+    if (e.key !== 'Enter' || e.nativeEvent.isComposing) return
+    e.preventDefault()
+
+    const tag = normalizeTag(currentTag)
+    if (tag && !hasTag(value, tag)) {
+      onChange([...value, tag])
+    }
+    setCurrentTag('')
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="w-10 shrink-0 text-sm font-semibold text-gray-600">태그</span>
+      <Input
+        value={currentTag}
+        onChange={(e) => setCurrentTag(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="태그 입력 후 Enter"
+        className="h-8 w-44"
+      />
+      {value.map((tag) => (
+        <Badge key={tag} variant="secondary" className="gap-1">
+          {tag}
+          <button
+            type="button"
+            aria-label={`${tag} 태그 제거`}
+            onClick={() => onChange(value.filter((t) => t !== tag))}
+          >
+            <IoClose />
+          </button>
+        </Badge>
+      ))}
+    </div>
+  )
+}
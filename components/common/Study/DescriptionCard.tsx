@@ -15,6 +15,7 @@ import {
 import { ROUTES } from '@/constants/routes'
 import { KAKAO_OPEN_CHAT_LINK } from '@/constants/social'
 import { auth } from '@/lib/auth/auth'
+import { hasRole } from '@/lib/auth/permissions'
 
 type Description = {
   title: string
@@ -64,8 +65,7 @@ export interface DescriptionCardProps {
 
 export default async function DescriptionCard({ description, hasButton }: DescriptionCardProps) {
   const session = await auth()
-  const role = session?.data?.role
-  const canOpenStudy = role ? ['ROLE_VERIFIED', 'ROLE_ADMIN'].includes(role) : false
+  const canOpenStudy = hasRole(session?.data?.role, 'ROLE_VERIFIED')
 
   return (
     <div className="relative flex w-full max-w-[550px]  flex-col items-start justify-start gap-2 rounded-3xl bg-[#F4F7FA] px-4 py-6 shadow-md sm:gap-4 sm:px-6 lg:w-[45%] xl:p-10">
@@ -2,7 +2,8 @@ import Image from 'next/image'
 
 import { Badge } from '@/components/ui/badge'
 import { Card } from '@/components/ui/card'
-import { Study } from '@/types'
+import { formatTimeRange } from '@/lib/date'
+import { JoinState, Study } from '@/types'
 
 const RecruitingStatus = ({ isRecruiting }: { isRecruiting: boolean }) => {
   return isRecruiting ? (
@@ -12,6 +13,17 @@ const RecruitingStatus = ({ isRecruiting }: { isRecruiting: boolean }) => {
   )
 }
 
+const JoinStatus = ({ joinState }: { joinState: JoinState }) => {
+  switch (joinState) {
+    case 'Accept':
+      return <Badge className="absolute left-2 top-2 bg-green-600 font-bold">참여 중</Badge>
+    case 'Wait':
+      return <Badge className="absolute left-2 top-2 bg-yellow-500 font-bold">승인 대기</Badge>
+    case 'Reject':
+      return <Badge className="absolute left-2 top-2 bg-red-500 font-normal">거절됨</Badge>
+  }
+}
+
 const WeekDayAndDuration = ({
   day,
   startTime,
@@ -24,7 +36,7 @@ const WeekDayAndDuration = ({
   if (day && startTime && endTime) {
     return (
       <p className="text-center text-sm text-gray-500">
-        {day} {startTime.substring(0, 5)} ~ {endTime.substring(0, 5)}
+        {day} {formatTimeRange(startTime, endTime)}
       </p>
     )
   } else if (day) {
@@ -53,9 +65,10 @@ export interface StudyCardProps {
   imageSize?: number
   showStatus?: boolean
   imageWrapperClassName?: string
+  joinState?: JoinState | null
 }
 
-export default function StudyCard({ study, imageSize, showStatus, imageWrapperClassName }: StudyCardProps) {
+export default function StudyCard({ study, imageSize, showStatus, imageWrapperClassName, joinState }: StudyCardProps) {
   // Set default for parameters
   imageSize = imageSize ?? 144
   showStatus = showStatus ?? true
@@ -66,6 +79,7 @@ export default function StudyCard({ study, imageSize, showStatus, imageWrapperCl
   return (
     <Card className="relative flex w-44 transform cursor-pointer flex-col items-center justify-center overflow-hidden px-2 py-4 shadow-md transition-transform hover:scale-105 hover:shadow-2xl sm:w-60 sm:px-4 sm:py-8">
       {showStatus && <RecruitingStatus isRecruiting={study.isRecruiting} />}
+      {joinState && <JoinStatus joinState={joinState} />}
 
       <div className={imageWrapperClassName}>
         <Image
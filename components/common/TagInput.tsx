@@ -0,0 +1,169 @@
+'use client'
+
+import { useState } from 'react'
+import { IoClose } from 'react-icons/io5'
+
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { useApiQuery } from '@/lib/api/hooks'
+import { getTagUsage, hasTag, MAX_TAG_LENGTH, MAX_TAGS, resolveTag, suggestTags } from '@/lib/tag'
+import { cn } from '@/lib/utils'
+
+interface TagInputProps {
+  value: string[]
+  onChange: (tags: string[]) => void
+  id?: string
+  // 폼 검증 오류 메시지
+  error?: string
+  // 안내 문구에 사용할 이름 (ex. 스택, 태그)
+  noun?: string
+  placeholder?: string
+  max?: number
+  className?: string
+}
+
+/**
+ * 태그 레지스트리에서 자동완성하는 태그 입력란 입니다.
+ * 입력한 태그는 `resolveTag`로 정리되어, 이미 등록된 태그나 별칭과 같으면 등록된 이름으로 추가됩니다.
+ */
+export default function TagInput({
+  value,
+  onChange,
+  id,
+  error,
+  noun = '태그',
+  placeholder,
+  max = MAX_TAGS,
+  className
+}: TagInputProps) {
+  const { data: registry } = useApiQuery((client) => client.tag.list(), [])
+  const [input, setInput] = useState('')
+  const [inputError, setInputError] = useState('')
+  const [isFocused, setIsFocused] = useState(false)
+  const [highlighted, setHighlighted] = useState(-1)
+
+  const suggestions = suggestTags(registry ?? [], input, value)
+  const isFull = value.length >= max
+  const showSuggestions = isFocused && !isFull && suggestions.length > 0
+
+  const addTag = (raw: string) => {
+    const tag = resolveTag(registry ?? [], raw)
+    setInput('')
+    setHighlighted(-1)
+    if (!tag) return
+
+    if (tag.length > MAX_TAG_LENGTH) {
+      setInputError(`${MAX_TAG_LENGTH}자 이내로 입력해주세요`)
+    } else if (isFull) {
+      setInputError(`최대 ${max}개까지만 입력 가능합니다`)
+    } else if (hasTag(value, tag)) {
+      setInputError(`이미 입력한 ${noun}입니다`)
+    } else {
+      setInputError('')
+      onChange([...value, tag])
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // 한글 입력 중 Enter는 조합을 끝내는 입력이므로 무시합니다.
+    if (e.nativeEvent.isComposing) return
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setHighlighted((prev) => Math.min(prev + 1, suggestions.length - 1))
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setHighlighted((prev) => Math.max(prev - 1, -1))
+        break
+      case 'Escape':
+        setIsFocused(false)
+        break
+      case 'Enter':
+        e.preventDefault()
+        addTag(suggestions[highlighted]?.name ?? input)
+        break
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex items-center gap-4">
+        <div className={cn('relative w-60', className)}>
+          <Input
+            id={id}
+            placeholder={placeholder ?? `${noun} 입력`}
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value)
+              setHighlighted(-1)
+              setIsFocused(true)
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setIsFocused(true)}
+            onBlur={() => setIsFocused(false)}
+            disabled={isFull}
+          />
+          <Button
+            type="button"
+            className="absolute right-2 top-1/2 z-10 h-4 w-4 -translate-y-1/2 p-3 text-xl"
+            disabled={input.trim() === '' || isFull}
+            onClick={() => addTag(input)}
+          >
+            +
+          </Button>
+          {showSuggestions && (
+            <ul className="absolute left-0 top-full z-20 mt-1 w-full overflow-hidden rounded-md border bg-white py-1 shadow-md">
+              {suggestions.map((tag, index) => (
+                <li key={tag.name}>
+                  <button
+                    type="button"
+                    // 입력란의 `onBlur`보다 먼저 처리되도록 `onMouseDown`을 사용합니다.
+                    onMouseDown={(e) => {
+                      e.preventDefault()
+                      addTag(tag.name)
+                    }}
+                    className={cn(
+                      'flex w-full items-center justify-between gap-2 px-3 py-1.5 text-left text-sm hover:bg-gray-100',
+                      index === highlighted && 'bg-gray-100'
+                    )}
+                  >
+                    <span className="truncate">
+                      {tag.name}
+                      {tag.aliases.length > 0 && <span className="ml-1 text-gray-400">({tag.aliases.join(', ')})</span>}
+                    </span>
+                    <span className="shrink-0 text-xs text-gray-400">{getTagUsage(tag)}회</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <Button
+          variant="secondary"
+          className="p-3"
+          type="button"
+          onClick={() => {
+            setInputError('')
+            onChange([])
+          }}
+        >
+          Reset
+        </Button>
+      </div>
+      {(inputError || error) && <p className="-mt-2 text-sm text-red-500">{inputError || error}</p>}
+      <div className="flex flex-wrap gap-2">
+        {value.map((tag) => (
+          <Badge variant="secondary" key={tag} className="gap-1">
+            {tag}
+            <button type="button" aria-label={`${tag} 삭제`} onClick={() => onChange(value.filter((t) => t !== tag))}>
+              <IoClose />
+            </button>
+          </Badge>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+'use client'
+
+import SearchInput from '@/components/common/SearchFilter/SearchInput'
+import TagFilter from '@/components/common/SearchFilter/TagFilter'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  countEventFilters,
+  DEFAULT_EVENT_FILTERS,
+  EVENT_SORTS,
+  EventFilters as EventFilterValues,
+  EventSort
+} from '@/lib/search'
+import { SEMESTER_TERMS } from '@/lib/semester'
+
+// 전체 선택 (`Select`는 빈 값을 쓸 수 없습니다)
+const ALL = 'all'
+
+interface EventFiltersProps {
+  filters: EventFilterValues
+  onChange: (filters: Partial<EventFilterValues>) => void
+  // 목록에 있는 행사의 학기, 연도
+  semesters: string[]
+  years: number[]
+}
+
+export default function EventFilters({ filters, onChange, semesters, years }: EventFiltersProps) {
+  return (
+    <div className="flex w-full flex-col gap-4 rounded-xl border p-4 sm:p-6">
+      <div className="flex gap-2 max-sm:flex-col">
+        <SearchInput
+          value={filters.query}
+          onChange={(query) => onChange({ query })}
+          placeholder="행사 이름, 설명, 장소, 태그로 검색"
+        />
+        <Select value={filters.sort} onValueChange={(sort) => onChange({ sort: sort as EventSort })}>
+          <SelectTrigger className="w-40 shrink-0 max-sm:w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(EVENT_SORTS).map(([sort, label]) => (
+              <SelectItem key={sort} value={sort}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <span className="w-10 shrink-0 text-sm font-semibold text-gray-600">학기</span>
+          <Select value={filters.year || ALL} onValueChange={(year) => onChange({ year: year === ALL ? '' : year })}>
+            <SelectTrigger className="h-8 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>전체 연도</SelectItem>
+              {years.map((year) => (
+                <SelectItem key={year} value={`${year}`}>
+                  {year}년
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.semester || ALL}
+            onValueChange={(semester) => onChange({ semester: semester === ALL ? '' : semester })}
+          >
+            <SelectTrigger className="h-8 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>전체 학기</SelectItem>
+              {semesters.map((semester) => (
+                <SelectItem key={semester} value={semester}>
+                  {SEMESTER_TERMS[semester] ?? semester}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="w-10 shrink-0 text-sm font-semibold text-gray-600">기간</span>
+          <Input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e) => onChange({ from: e.target.value })}
+            className="h-8 w-40"
+          />
+          ~
+          <Input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e) => onChange({ to: e.target.value })}
+            className="h-8 w-40"
+          />
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="w-10 shrink-0 text-sm font-semibold text-gray-600">장소</span>
+          <SearchInput value={filters.location} onChange={(location) => onChange({ location })} placeholder="장소" />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <TagFilter value={filters.tags} onChange={(tags) => onChange({ tags })} />
+        {countEventFilters(filters) > 0 && (
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={() => onChange(DEFAULT_EVENT_FILTERS)}>
+            조건 초기화
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+'use client'
+
+import Link from 'next/link'
+import { FaAngleRight } from 'react-icons/fa6'
+
+import { Motion } from '@/components/common/MotionWrapper'
+import { ROUTES } from '@/constants/routes'
+import { useApiQuery } from '@/lib/api/hooks'
+import { ArchiveSummary, summarizeArchive } from '@/lib/archive'
+
+const ABOUT_ITEMS: { description: string; key: keyof ArchiveSummary }[] = [
+  { description: '누적 스터디 개설', key: 'studyCount' },
+  { description: '누적 스터디 참여', key: 'memberCount' },
+  { description: '평균 스터디 개설', key: 'averageStudyCount' }
+]
+
+// 메인 페이지의 동아리 소개 수치, 지난 활동(아카이브)에서 계산합니다.
+export default function AboutStats() {
+  const { data: archive } = useApiQuery((client) => client.archive.list(), [])
+  const summary = archive ? summarizeArchive(archive) : null
+
+  return (
+    <div className="flex flex-col">
+      <div className="flex justify-center gap-x-16 font-semibold max-lg:flex-col xl:justify-between">
+        {ABOUT_ITEMS.map((about, index) => (
+          <Motion
+            key={about.description}
+            animation={{
+              initial: { opacity: 0, y: 100 },
+              whileInView: { opacity: 1, y: 0 },
+              viewport: { once: true },
+              transition: { duration: 1, ease: [0.6, -0.05, 0.01, 0.9], delay: index * 0.5 }
+            }}
+          >
+            <p className="text-[40px]">{about.description}</p>
+            <p className="text-left text-[90px] max-lg:mb-12 max-lg:text-center">{summary?.[about.key] ?? '-'}</p>
+          </Motion>
+        ))}
+      </div>
+      <Link
+        href={ROUTES.ARCHIVE.url}
+        className="flex items-center gap-1 self-end text-lg font-semibold text-gray-600 hover:underline max-lg:self-center"
+      >
+        지난 활동 보기
+        <FaAngleRight />
+      </Link>
+    </div>
+  )
+}
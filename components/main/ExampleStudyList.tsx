@@ -4,26 +4,24 @@ import Link from 'next/link'
 import { useEffect, useState } from 'react'
 
 import StudyCard from '@/components/common/StudyCard'
-import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
-import { fetchData } from '@/lib/fetch'
-import { CustomResponse } from '@/lib/response'
+import { useApiClient } from '@/lib/api/hooks'
 import { Study } from '@/types'
 
 export const ExampleStudyList = () => {
   const [studyList, setStudyList] = useState<Study[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const client = useApiClient()
 
   useEffect(() => {
     const loadStudies = async () => {
       try {
-        const res = await fetchData(API_ENDPOINTS.CLIENT.STUDY.LIST as ApiEndpoint)
-        if (!res.ok) {
-          throw new Error(`Failed to fetch studies: ${res.status}`)
+        const { data: studies, error } = await client.study.list()
+        if (error) {
+          throw new Error(`Failed to fetch studies: ${error.errorType}`)
         }
 
-        const json: CustomResponse = await res.json()
-        setStudyList(json.data ?? [])
+        setStudyList(studies)
       } catch (error) {
         console.error('Failed to load studies:', error)
         setError('스터디 목록을 불러오는데 실패했습니다.')
@@ -33,7 +31,7 @@ export const ExampleStudyList = () => {
     }
 
     loadStudies()
-  }, [])
+  }, [client])
 
   if (isLoading) {
     return (
@@ -6,8 +6,11 @@ import { Button } from '@/components/ui/button'
 import { Textarea } from '@/components/ui/textarea'
 import { useToast } from '@/components/ui/use-toast'
 import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
+import { invalidateQueries } from '@/lib/api/cache'
+import { useDraftGuard } from '@/lib/auth/hooks'
 import { useSession } from '@/lib/auth/SessionProvider'
 import { fetchData } from '@/lib/fetch'
+import { getErrorMessage, toApiError } from '@/lib/response/catalogue'
 
 interface CommentFormProps {
   postId: number
@@ -17,6 +20,8 @@ interface CommentFormProps {
 export default function CommentForm({ postId, onCommentAdded }: CommentFormProps) {
   const [content, setContent] = useState('')
   const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useDraftGuard(content.trim().length > 0)
   const { toast } = useToast()
   const session = useSession()
 
@@ -43,16 +48,14 @@ export default function CommentForm({ postId, onCommentAdded }: CommentFormProps
       setIsSubmitting(true)
       const res = await fetchData(API_ENDPOINTS.CLIENT.POST.COMMENT.CREATE(postId) as ApiEndpoint, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${session.data.accessToken}`
-        },
+        authenticated: true,
         body: JSON.stringify({ content })
       })
 
       if (!res.ok) {
-        throw new Error('댓글 작성에 실패했습니다.')
+        throw await toApiError(res)
       }
+      invalidateQueries(API_ENDPOINTS.CLIENT.POST.LIST('STUDY').url, API_ENDPOINTS.CLIENT.POST.LIST('EVENT').url)
 
       // 입력 필드 초기화
       setContent('')
@@ -62,7 +65,7 @@ export default function CommentForm({ postId, onCommentAdded }: CommentFormProps
       console.error('Failed to create comment:', error)
       toast({
         variant: 'destructive',
-        description: '댓글 작성 중 오류가 발생했습니다.'
+        description: getErrorMessage(error, '댓글 작성 중 오류가 발생했습니다.')
       })
     } finally {
       setIsSubmitting(false)
@@ -0,0 +1,32 @@
+import { formatApplicationAnswer } from '@/lib/application'
+import { ApplicationAnswer, ApplicationQuestion } from '@/types'
+
+interface ApplicationAnswersProps {
+  questions: ApplicationQuestion[]
+  answers?: ApplicationAnswer[]
+}
+
+/**
+ * 신청자의 답변을 문항 순서대로 보여줍니다. 문항이 바뀌어 더 이상 없는 답변은 보여주지 않습니다.
+ */
+export default function ApplicationAnswers({ questions, answers = [] }: ApplicationAnswersProps) {
+  if (answers.length === 0) {
+    return <p className="text-sm text-gray-500">작성한 신청서가 없습니다.</p>
+  }
+
+  return (
+    <dl className="space-y-3 text-sm">
+      {questions.map((question) => {
+        const answer = answers.find(({ questionId }) => questionId === question.id)
+        return (
+          <div key={question.id}>
+            <dt className="font-medium text-gray-700">{question.title}</dt>
+            <dd className="whitespace-pre-line break-all text-gray-600">
+              {answer ? formatApplicationAnswer(answer) : <span className="text-gray-400">(응답 없음)</span>}
+            </dd>
+          </div>
+        )
+      })}
+    </dl>
+  )
+}
@@ -0,0 +1,242 @@
+'use client'
+
+import Link from 'next/link'
+import { useEffect, useMemo, useState } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useToast } from '@/components/ui/use-toast'
+import { useApiClient, useApiQuery } from '@/lib/api/hooks'
+import {
+  ATTENDANCE_STATUSES,
+  createSessionDates,
+  formatAttendanceRate,
+  getMemberStatuses,
+  summarizeAttendance
+} from '@/lib/attendance'
+import { useDraftGuard } from '@/lib/auth/hooks'
+import { formatKst } from '@/lib/date'
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { findSemester } from '@/lib/semester'
+import { cn } from '@/lib/utils'
+import { AttendanceStatus } from '@/types'
+
+const STATUS_KEYS = Object.keys(ATTENDANCE_STATUSES) as AttendanceStatus[]
+
+const STATUS_STYLES: Record<AttendanceStatus, string> = {
+  PRESENT: 'bg-green-100 text-green-800',
+  LATE: 'bg-yellow-100 text-yellow-800',
+  ABSENT: 'bg-red-100 text-red-800'
+}
+
+type AttendanceDraft = Record<number, AttendanceStatus>
+
+/**
+ * 스터디장이 회차별로 참여 중인 멤버의 출석, 지각, 결석을 기록합니다.
+ */
+export default function AttendanceSheet({ studyId }: { studyId: number }) {
+  const client = useApiClient()
+  const { toast } = useToast()
+  const { data: study } = useApiQuery((client) => client.study.retrieve(studyId), [studyId])
+  const { data: members } = useApiQuery((client) => client.study.members(studyId, 'Accept'), [studyId])
+  const { data: sessions, error } = useApiQuery((client) => client.study.attendance(studyId), [studyId])
+  const { data: semesters } = useApiQuery((client) => client.semester.list(), [])
+
+  const activityPeriod = study && semesters ? findSemester(semesters, study)?.activityPeriod : undefined
+  const dates = useMemo(
+    () => (study ? createSessionDates(study, activityPeriod, sessions ?? []) : []),
+    [study, activityPeriod, sessions]
+  )
+
+  const [selectedDate, setSelectedDate] = useState('')
+  const [draft, setDraft] = useState<AttendanceDraft>({})
+  const [isSaving, setIsSaving] = useState(false)
+
+  const savedDraft = useMemo<AttendanceDraft>(
+    () =>
+      Object.fromEntries(
+        sessions?.find(({ date }) => date === selectedDate)?.records.map(({ userId, status }) => [userId, status]) ?? []
+      ),
+    [sessions, selectedDate]
+  )
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(savedDraft)
+  useDraftGuard(isDirty)
+
+  // 기본으로 가장 최근 회차를 선택합니다.
+  useEffect(() => {
+    if (dates.length > 0 && !dates.includes(selectedDate)) {
+      setSelectedDate(dates[dates.length - 1])
+    }
+  }, [dates, selectedDate])
+
+  useEffect(() => {
+    setDraft(savedDraft)
+  }, [savedDraft])
+
+  useEffect(() => {
+    if (!error) return
+    toast({
+      variant: 'destructive',
+      description: getErrorMessage(error, '출석 기록을 불러오는데 실패했습니다.')
+    })
+  }, [error, toast])
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    const records = Object.entries(draft).map(([userId, status]) => ({ userId: Number(userId), status }))
+    const { error } = await client.study.updateAttendance(studyId, selectedDate, { records })
+    setIsSaving(false)
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: '출석 저장 실패',
+        description: getErrorMessage(error, '출석을 저장하는 중 오류가 발생했습니다.')
+      })
+      return
+    }
+    toast({ description: `${formatKst(selectedDate, 'M월 d일')} 출석이 저장되었습니다.` })
+  }
+
+  if (!study || !members || !sessions) {
+    return <p className="text-center text-gray-500">불러오는 중...</p>
+  }
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">{study.title} 출석 관리</h1>
+        <Button variant="outline" asChild>
+          <Link href={`/mystudy/${studyId}`}>스터디로 돌아가기</Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <div className="flex flex-col gap-1.5">
+            <CardTitle>회차별 출석</CardTitle>
+            <CardDescription>
+              매주 {study.day}요일 회차가 학기 활동 기간 동안 만들어집니다. 기록하지 않은 멤버는 출석률에서 제외됩니다.
+            </CardDescription>
+          </div>
+          {dates.length > 0 && (
+            <Select value={selectedDate} onValueChange={setSelectedDate}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {dates.map((date, index) => (
+                  <SelectItem key={date} value={date}>
+                    {index + 1}회차 · {formatKst(date, 'M월 d일 (EEE)')}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </CardHeader>
+        <CardContent>
+          {dates.length === 0 ? (
+            <p className="text-center text-gray-500">
+              {activityPeriod
+                ? '아직 진행된 회차가 없습니다.'
+                : '학기 활동 기간이 설정되지 않아 회차를 만들 수 없습니다.'}
+            </p>
+          ) : members.length === 0 ? (
+            <p className="text-center text-gray-500">참여 중인 멤버가 없습니다.</p>
+          ) : (
+            <div className="flex flex-col gap-4">
+              {members.map((member) => (
+                <div key={member.id} className="flex items-center justify-between rounded-lg border p-3">
+                  <p className="font-medium">{member.username}</p>
+                  <div className="flex gap-2">
+                    {STATUS_KEYS.map((status) => (
+                      <Button
+                        key={status}
+                        type="button"
+                        size="sm"
+                        variant={draft[member.id] === status ? 'default' : 'outline'}
+                        onClick={() => setDraft((prev) => ({ ...prev, [member.id]: status }))}
+                      >
+                        {ATTENDANCE_STATUSES[status]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setDraft(Object.fromEntries(members.map(({ id }) => [id, 'PRESENT'])))}
+                >
+                  모두 출석
+                </Button>
+                <Button onClick={handleSave} disabled={!isDirty || isSaving}>
+                  저장
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {dates.length > 0 && members.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>출석 현황</CardTitle>
+          </CardHeader>
+          <CardContent className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>멤버</TableHead>
+                  {dates.map((date) => (
+                    <TableHead key={date} className="whitespace-nowrap text-center">
+                      {formatKst(date, 'M/d')}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">출석률</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {members.map((member) => {
+                  const summary = summarizeAttendance(getMemberStatuses(sessions, member.id))
+                  return (
+                    <TableRow key={member.id}>
+                      <TableCell className="whitespace-nowrap font-medium">{member.username}</TableCell>
+                      {dates.map((date) => {
+                        const status = sessions
+                          .find((session) => session.date === date)
+                          ?.records.find(({ userId }) => userId === member.id)?.status
+                        return (
+                          <TableCell key={date} className="text-center">
+                            {status ? (
+                              <span className={cn('rounded px-1.5 py-0.5 text-xs font-bold', STATUS_STYLES[status])}>
+                                {ATTENDANCE_STATUSES[status]}
+                              </span>
+                            ) : (
+                              <span className="text-gray-300">-</span>
+                            )}
+                          </TableCell>
+                        )
+                      })}
+                      <TableCell className="whitespace-nowrap text-right">
+                        {formatAttendanceRate(summary)}
+                        {summary.total > 0 && (
+                          <span className="ml-1 text-xs text-gray-500">
+                            (출석 {summary.present} · 지각 {summary.late} · 결석 {summary.absent})
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
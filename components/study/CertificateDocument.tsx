@@ -0,0 +1,46 @@
+import { formatCertificateNumber, formatHours } from '@/lib/certificate'
+import { formatKst } from '@/lib/date'
+import { formatSemester } from '@/lib/semester'
+import { Certificate } from '@/types'
+
+/**
+ * 인쇄용 수료증 입니다. A4 세로 한 장에 맞춰 그리며, 브라우저의 인쇄(PDF로 저장)로 내려받습니다.
+ */
+export default function CertificateDocument({ certificate }: { certificate: Certificate }) {
+  const rows = [
+    { label: '성명', value: certificate.username },
+    { label: '학번', value: certificate.studentId },
+    { label: '스터디', value: certificate.studyTitle },
+    { label: '스터디장', value: certificate.mentorName },
+    { label: '학기', value: formatSemester(certificate) },
+    { label: '인정 시간', value: formatHours(certificate.hours) }
+  ]
+
+  return (
+    <article className="mx-auto flex aspect-[210/297] w-full max-w-[210mm] flex-col border-[12px] border-double border-gray-800 bg-white px-16 py-14 text-gray-900 print:max-w-none print:border-8">
+      <p className="text-sm text-gray-500">제 {formatCertificateNumber(certificate)} 호</p>
+      <h1 className="mt-12 text-center text-5xl font-bold tracking-[0.5em]">수료증</h1>
+
+      <dl className="mx-auto mt-16 grid w-full max-w-md grid-cols-[6rem_1fr] gap-y-4 text-lg">
+        {rows.map(({ label, value }) => (
+          <div key={label} className="contents">
+            <dt className="font-semibold text-gray-600">{label}</dt>
+            <dd>{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <p className="mt-16 text-center text-xl leading-relaxed">
+        위 사람은 성균관대학교 중앙 코딩 동아리 CoMit의
+        <br />
+        {formatSemester(certificate)} 스터디 과정을 성실히 이수하였으므로
+        <br />이 증서를 수여합니다.
+      </p>
+
+      <div className="mt-auto flex flex-col items-center gap-4">
+        <p className="text-lg">{formatKst(certificate.issuedAt, 'yyyy년 M월 d일')}</p>
+        <p className="text-2xl font-bold">성균관대학교 중앙 코딩 동아리 CoMit</p>
+      </div>
+    </article>
+  )
+}
@@ -0,0 +1,28 @@
+import { cn } from '@/lib/utils'
+import { CurriculumWeek } from '@/types'
+
+interface CurriculumProps {
+  curriculum: CurriculumWeek[]
+  className?: string
+}
+
+/**
+ * 스터디의 주차별 커리큘럼을 보여줍니다. 커리큘럼이 없으면 아무것도 보여주지 않습니다.
+ */
+export default function Curriculum({ curriculum, className }: CurriculumProps) {
+  if (curriculum.length === 0) return null
+
+  return (
+    <ol className={cn('space-y-2 text-sm', className)}>
+      {curriculum.map((week) => (
+        <li key={week.week} className="flex gap-3">
+          <span className="w-12 shrink-0 font-semibold text-gray-500">{week.week}주차</span>
+          <div>
+            <p className="font-medium text-gray-800">{week.title}</p>
+            {week.description && <p className="whitespace-pre-line break-all text-gray-600">{week.description}</p>}
+          </div>
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,69 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { IoTimeOutline } from 'react-icons/io5'
+
+import { useApiQuery } from '@/lib/api/hooks'
+import {
+  findOpenSemester,
+  findUpcomingSemester,
+  formatCountdown,
+  formatPeriod,
+  formatSemester,
+  getPeriodRange,
+  SEMESTER_PERIODS,
+  SemesterPeriodKey
+} from '@/lib/semester'
+import { cn } from '@/lib/utils'
+
+const BANNER_PERIODS: SemesterPeriodKey[] = ['openingPeriod', 'applicationPeriod']
+
+/**
+ * 스터디 개설, 신청 기간이 진행 중이면 마감까지, 예정되어 있으면 시작까지 남은 시간을 보여줍니다.
+ */
+export default function EnrollmentBanner() {
+  const { data: semesters } = useApiQuery((client) => client.semester.list(), [])
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  if (!semesters) return null
+
+  const banners = BANNER_PERIODS.flatMap((key) => {
+    const open = findOpenSemester(semesters, key, now)
+    if (open) {
+      return [{ key, isOpen: true, semester: open, target: getPeriodRange(open[key]).end }]
+    }
+    const upcoming = findUpcomingSemester(semesters, key, now)
+    return upcoming ? [{ key, isOpen: false, semester: upcoming, target: getPeriodRange(upcoming[key]).start }] : []
+  })
+
+  if (banners.length === 0) return null
+
+  return (
+    <div className="mb-10 flex w-full flex-col gap-3 px-3 lg:flex-row">
+      {banners.map(({ key, isOpen, semester, target }) => (
+        <div
+          key={key}
+          className={cn(
+            'flex flex-1 items-center gap-4 rounded-xl border p-4',
+            isOpen ? 'border-primary/40 bg-primary/5' : 'bg-gray-50'
+          )}
+        >
+          <IoTimeOutline size={32} className={isOpen ? 'text-primary' : 'text-gray-400'} />
+          <div className="flex flex-col gap-1">
+            <p className="text-sm text-gray-500">
+              {formatSemester(semester)} {SEMESTER_PERIODS[key]} 기간 · {formatPeriod(semester[key])}
+            </p>
+            <p className="text-lg font-semibold">
+              {isOpen ? '마감까지' : '시작까지'} <span className="tabular-nums">{formatCountdown(target, now)}</span>
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,279 @@
+'use client'
+
+import '@uiw/react-markdown-preview/markdown.css'
+
+import { zodResolver } from '@hookform/resolvers/zod'
+import dynamic from 'next/dynamic'
+import { useState } from 'react'
+import { Controller, useForm } from 'react-hook-form'
+import { GoTrash } from 'react-icons/go'
+import { MdEdit } from 'react-icons/md'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { useToast } from '@/components/ui/use-toast'
+import { useApiClient, useApiQuery } from '@/lib/api/hooks'
+import {
+  getDefaultSessionLogValues,
+  isHttpUrl,
+  SessionLogFormOutput,
+  sessionLogFormSchema,
+  SessionLogFormValues,
+  toSessionLogRequest
+} from '@/lib/curriculum'
+import { formatKst } from '@/lib/date'
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { SessionLog, Study } from '@/types'
+
+const MarkdownPreview = dynamic(() => import('@uiw/react-markdown-preview'), { ssr: false })
+
+// 커리큘럼과 연결하지 않는 회차 (`Select`는 빈 값을 쓸 수 없습니다)
+const NO_WEEK = 'none'
+
+interface SessionLogsProps {
+  study: Pick<Study, 'id' | 'curriculum'>
+  // 스터디장만 기록을 작성, 수정, 삭제할 수 있으며 참여 중인 멤버에게는 읽기 전용으로 보여줍니다.
+  editable?: boolean
+}
+
+/**
+ * 스터디장이 회차마다 진행 내용, 자료 링크, 과제를 기록합니다. 기록은 최근 회차부터 보여줍니다.
+ */
+export default function SessionLogs({ study, editable = false }: SessionLogsProps) {
+  const client = useApiClient()
+  const { toast } = useToast()
+  const { data: logs } = useApiQuery((client) => client.study.logs(study.id), [study.id])
+  // `null`이면 새 기록 작성, `SessionLog`면 해당 기록 수정
+  const [editing, setEditing] = useState<SessionLog | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+
+  const {
+    control,
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting }
+  } = useForm<SessionLogFormValues, unknown, SessionLogFormOutput>({
+    resolver: zodResolver(sessionLogFormSchema)
+  })
+
+  const sortedLogs = [...(logs ?? [])].sort((a, b) => b.date.localeCompare(a.date))
+
+  const openDialog = (log: SessionLog | null) => {
+    setEditing(log)
+    reset(getDefaultSessionLogValues(log ?? undefined, formatKst(new Date(), 'yyyy-MM-dd')))
+    setIsDialogOpen(true)
+  }
+
+  const onSubmit = async (values: SessionLogFormOutput) => {
+    const body = toSessionLogRequest(values)
+    const { error } = editing
+      ? await client.study.updateLog(study.id, editing.id, body)
+      : await client.study.createLog(study.id, body)
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: '진행 기록 저장 실패',
+        description: getErrorMessage(error, '진행 기록을 저장하는 중 오류가 발생했습니다.')
+      })
+      return
+    }
+
+    toast({ description: '진행 기록이 저장되었습니다.' })
+    setIsDialogOpen(false)
+  }
+
+  const handleDelete = async (log: SessionLog) => {
+    const { error } = await client.study.deleteLog(study.id, log.id)
+    if (error) {
+      toast({
+        variant: 'destructive',
+        description: getErrorMessage(error, '진행 기록을 삭제하는 중 오류가 발생했습니다.')
+      })
+      return
+    }
+    toast({ description: '진행 기록이 삭제되었습니다.' })
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {editable && (
+        <div className="flex justify-end">
+          <Button onClick={() => openDialog(null)}>기록 작성</Button>
+        </div>
+      )}
+
+      {sortedLogs.length === 0 && <p className="text-center text-gray-500">작성된 진행 기록이 없습니다.</p>}
+
+      {sortedLogs.map((log) => (
+        <article key={log.id} className="flex flex-col gap-3 rounded-lg border p-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <p className="text-sm text-gray-500">
+                {log.week && `${log.week}주차 · `}
+                {formatKst(log.date, 'M월 d일 (EEE)')}
+              </p>
+              <h3 className="text-lg font-semibold">{log.topic}</h3>
+            </div>
+            {editable && (
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="icon" onClick={() => openDialog(log)}>
+                  <MdEdit />
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="icon">
+                      <GoTrash />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>진행 기록을 삭제하시겠습니까?</AlertDialogTitle>
+                      <AlertDialogDescription>삭제한 기록은 되돌릴 수 없습니다.</AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>취소</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleDelete(log)}>삭제</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            )}
+          </div>
+
+          <div data-color-mode="light">
+            <MarkdownPreview source={log.content} />
+          </div>
+
+          {log.materials.length > 0 && (
+            <div>
+              <p className="mb-1 text-sm font-semibold">자료</p>
+              <ul className="list-inside list-disc text-sm">
+                {log.materials.map((url) => (
+                  <li key={url} className="break-all">
+                    {isHttpUrl(url) ? (
+                      <a href={url} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+                        {url}
+                      </a>
+                    ) : (
+                      url
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {log.homework && (
+            <div>
+              <p className="mb-1 text-sm font-semibold">과제</p>
+              <div data-color-mode="light">
+                <MarkdownPreview source={log.homework} />
+              </div>
+            </div>
+          )}
+        </article>
+      ))}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{editing ? '진행 기록 수정' : '진행 기록 작성'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSubmit(onSubmit)} className="flex flex-col gap-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="flex flex-col gap-2">
+                <Label htmlFor="date">날짜</Label>
+                <Input id="date" type="date" {...register('date')} />
+                {errors.date && <p className="text-sm text-red-500">{errors.date.message}</p>}
+              </div>
+              <div className="flex flex-col gap-2">
+                <Label>주차</Label>
+                <Controller
+                  control={control}
+                  name="week"
+                  render={({ field: { value, onChange } }) => (
+                    <Select
+                      value={value || NO_WEEK}
+                      onValueChange={(week) => onChange(week === NO_WEEK ? '' : week)}
+                      disabled={study.curriculum.length === 0}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_WEEK}>선택 안 함</SelectItem>
+                        {study.curriculum.map((week) => (
+                          <SelectItem key={week.week} value={`${week.week}`}>
+                            {week.week}주차 · {week.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="topic">주제</Label>
+              <Input id="topic" placeholder="이번 회차에 다룬 주제" {...register('topic')} />
+              {errors.topic && <p className="text-sm text-red-500">{errors.topic.message}</p>}
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="content">진행 내용</Label>
+              <Textarea
+                id="content"
+                placeholder="마크다운으로 작성할 수 있습니다"
+                className="min-h-40"
+                {...register('content')}
+              />
+              {errors.content && <p className="text-sm text-red-500">{errors.content.message}</p>}
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="materials">자료 링크</Label>
+              <Textarea
+                id="materials"
+                placeholder="한 줄에 하나씩 입력해주세요 (ex. https://github.com/skku-comit)"
+                {...register('materials')}
+              />
+              {errors.materials && <p className="text-sm text-red-500">{errors.materials.message}</p>}
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <Label htmlFor="homework">과제</Label>
+              <Textarea id="homework" placeholder="마크다운으로 작성할 수 있습니다 (선택)" {...register('homework')} />
+              {errors.homework && <p className="text-sm text-red-500">{errors.homework.message}</p>}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                취소
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                저장
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,221 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useMemo, useState } from 'react'
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { useToast } from '@/components/ui/use-toast'
+import { useApiClient, useApiQuery } from '@/lib/api/hooks'
+import { formatAttendanceRate, getMemberStatuses, summarizeAttendance } from '@/lib/attendance'
+import { useDraftGuard } from '@/lib/auth/hooks'
+import {
+  createCompletions,
+  DEFAULT_COMPLETION_RATE,
+  formatHours,
+  getSessionHours,
+  MAX_COMPLETION_HOURS
+} from '@/lib/certificate'
+import { formatKst } from '@/lib/date'
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { formatSemester } from '@/lib/semester'
+import { StudyCompletion } from '@/types'
+
+/**
+ * 스터디장이 참여 중인 멤버의 수료 여부와 인정 시간을 정해 스터디를 종료합니다.
+ * 출석률 기준을 사용하면 기준 이상 출석한 멤버를 수료로 미리 선택합니다.
+ */
+export default function StudyCloseForm({ studyId }: { studyId: number }) {
+  const client = useApiClient()
+  const router = useRouter()
+  const { toast } = useToast()
+  const { data: study } = useApiQuery((client) => client.study.retrieve(studyId), [studyId])
+  const { data: members } = useApiQuery((client) => client.study.members(studyId, 'Accept'), [studyId])
+  const { data: sessions } = useApiQuery((client) => client.study.attendance(studyId), [studyId])
+
+  const [useAttendance, setUseAttendance] = useState(true)
+  // 수료 기준 출석률 (%)
+  const [minRatePercent, setMinRatePercent] = useState(DEFAULT_COMPLETION_RATE * 100)
+  // 스터디장이 직접 수정한 멤버별 수료 여부, 인정 시간
+  const [edits, setEdits] = useState<Record<number, Partial<StudyCompletion>>>({})
+  const [isDirty, setIsDirty] = useState(false)
+  const [isClosing, setIsClosing] = useState(false)
+  useDraftGuard(isDirty)
+
+  // 기준이 바뀌거나 데이터를 다시 불러오면 기본값을 다시 계산하되, 직접 수정한 값은 유지합니다.
+  const completions = useMemo(() => {
+    if (!study || !members || !sessions) return []
+    return createCompletions(study, members, sessions, useAttendance ? minRatePercent / 100 : null).map(
+      (completion) => ({ ...completion, ...edits[completion.userId] })
+    )
+  }, [study, members, sessions, useAttendance, minRatePercent, edits])
+
+  const updateCompletion = (userId: number, completion: Partial<StudyCompletion>) => {
+    setIsDirty(true)
+    setEdits((prev) => ({ ...prev, [userId]: { ...prev[userId], ...completion } }))
+  }
+
+  const handleClose = async () => {
+    setIsClosing(true)
+    const { data: certificates, error } = await client.study.close(studyId, { completions })
+    setIsClosing(false)
+
+    if (error) {
+      toast({
+        variant: 'destructive',
+        title: '스터디 종료 실패',
+        description: getErrorMessage(error, '스터디를 종료하는 중 오류가 발생했습니다.')
+      })
+      return
+    }
+
+    setIsDirty(false)
+    toast({ description: `스터디가 종료되어 ${certificates.length}명에게 수료증이 발급되었습니다.` })
+    router.push(`/mystudy/${studyId}`)
+  }
+
+  if (!study || !members || !sessions) {
+    return <p className="text-center text-gray-500">불러오는 중...</p>
+  }
+
+  const completedCount = completions.filter(({ completed }) => completed).length
+  const isHoursValid = completions.every(({ hours }) => hours >= 0 && hours <= MAX_COMPLETION_HOURS)
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">{study.title} 종료</h1>
+        <Button variant="outline" asChild>
+          <Link href={`/mystudy/${studyId}`}>스터디로 돌아가기</Link>
+        </Button>
+      </div>
+
+      {study.closedAt ? (
+        <p className="rounded-lg bg-gray-100 p-4 text-center text-gray-600">
+          {formatKst(study.closedAt, 'yyyy년 M월 d일')}에 종료된 스터디입니다.
+        </p>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>수료 처리</CardTitle>
+            <CardDescription>
+              {formatSemester(study)} 스터디를 종료하고 수료한 멤버에게 수료증을 발급합니다. 인정 시간은 출석, 지각한
+              회차 수에 회차 시간({formatHours(getSessionHours(study))})을 곱해 계산되며, 직접 수정할 수 있습니다.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-6">
+            <div className="flex flex-wrap items-center gap-4">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="useAttendance"
+                  checked={useAttendance}
+                  onCheckedChange={(checked) => setUseAttendance(checked === true)}
+                />
+                <Label htmlFor="useAttendance">출석률로 수료 여부 정하기</Label>
+              </div>
+              {useAttendance && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={minRatePercent}
+                    onChange={(e) => setMinRatePercent(Math.min(100, Math.max(0, Number(e.target.value))))}
+                    className="w-20"
+                  />
+                  <span className="text-sm text-gray-600">% 이상 출석하면 수료</span>
+                </div>
+              )}
+            </div>
+
+            {members.length === 0 ? (
+              <p className="text-center text-gray-500">참여 중인 멤버가 없습니다.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>멤버</TableHead>
+                    <TableHead>출석률</TableHead>
+                    <TableHead>인정 시간</TableHead>
+                    <TableHead className="text-center">수료</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {members.map((member) => {
+                    const completion = completions.find(({ userId }) => userId === member.id)
+                    if (!completion) return null
+                    return (
+                      <TableRow key={member.id}>
+                        <TableCell className="font-medium">{member.username}</TableCell>
+                        <TableCell>
+                          {formatAttendanceRate(summarizeAttendance(getMemberStatuses(sessions, member.id)))}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={MAX_COMPLETION_HOURS}
+                            step={0.5}
+                            value={completion.hours}
+                            onChange={(e) => updateCompletion(member.id, { hours: Number(e.target.value) })}
+                            className="w-24"
+                          />
+                        </TableCell>
+                        <TableCell className="text-center">
+                          <Checkbox
+                            checked={completion.completed}
+                            onCheckedChange={(checked) => updateCompletion(member.id, { completed: checked === true })}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+            {!isHoursValid && (
+              <p className="text-sm text-red-500">인정 시간은 0 ~ {MAX_COMPLETION_HOURS}시간 사이로 입력해주세요.</p>
+            )}
+
+            <div className="flex justify-end">
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button disabled={!isHoursValid || isClosing}>스터디 종료</Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>스터디를 종료하시겠습니까?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      {members.length}명 중 {completedCount}명에게 수료증이 발급됩니다. 종료한 뒤에는 수료 여부를 바꿀
+                      수 없습니다.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>취소</AlertDialogCancel>
+                    <AlertDialogAction onClick={handleClose}>종료</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
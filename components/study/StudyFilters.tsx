@@ -0,0 +1,106 @@
+'use client'
+
+import FilterChips from '@/components/common/SearchFilter/FilterChips'
+import SearchInput from '@/components/common/SearchFilter/SearchInput'
+import TagFilter from '@/components/common/SearchFilter/TagFilter'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  CAMPUS_OPTIONS,
+  countStudyFilters,
+  DAY_OPTIONS,
+  DEFAULT_STUDY_FILTERS,
+  LEVEL_OPTIONS,
+  STUDY_SORTS,
+  StudyFilters as StudyFilterValues,
+  StudySort
+} from '@/lib/search'
+import { SEMESTER_TERMS } from '@/lib/semester'
+
+// 전체 학기 (`Select`는 빈 값을 쓸 수 없습니다)
+const ALL_SEMESTERS = 'all'
+
+interface StudyFiltersProps {
+  filters: StudyFilterValues
+  onChange: (filters: Partial<StudyFilterValues>) => void
+  // 목록에 있는 스터디의 학기
+  semesters: string[]
+}
+
+export default function StudyFilters({ filters, onChange, semesters }: StudyFiltersProps) {
+  return (
+    <div className="flex w-full flex-col gap-4 rounded-xl border p-4 sm:p-6">
+      <div className="flex gap-2 max-sm:flex-col">
+        <SearchInput
+          value={filters.query}
+          onChange={(query) => onChange({ query })}
+          placeholder="스터디 이름, 설명, 스터디장, 태그로 검색"
+        />
+        <Select value={filters.sort} onValueChange={(sort) => onChange({ sort: sort as StudySort })}>
+          <SelectTrigger className="w-40 shrink-0 max-sm:w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(STUDY_SORTS).map(([sort, label]) => (
+              <SelectItem key={sort} value={sort}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <FilterChips
+        label="캠퍼스"
+        options={CAMPUS_OPTIONS}
+        value={filters.campus}
+        onChange={(campus) => onChange({ campus })}
+      />
+      <FilterChips label="요일" options={DAY_OPTIONS} value={filters.day} onChange={(day) => onChange({ day })} />
+      <FilterChips
+        label="난이도"
+        options={LEVEL_OPTIONS}
+        value={filters.level}
+        onChange={(level) => onChange({ level })}
+      />
+      <TagFilter value={filters.tags} onChange={(tags) => onChange({ tags })} />
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <span className="w-10 shrink-0 text-sm font-semibold text-gray-600">학기</span>
+          <Select
+            value={filters.semester || ALL_SEMESTERS}
+            onValueChange={(semester) => onChange({ semester: semester === ALL_SEMESTERS ? '' : semester })}
+          >
+            <SelectTrigger className="h-8 w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_SEMESTERS}>전체</SelectItem>
+              {semesters.map((semester) => (
+                <SelectItem key={semester} value={semester}>
+                  {SEMESTER_TERMS[semester] ?? semester}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="recruitingOnly"
+            checked={filters.recruitingOnly}
+            onCheckedChange={(checked) => onChange({ recruitingOnly: checked === true })}
+          />
+          <Label htmlFor="recruitingOnly">모집 중인 스터디만</Label>
+        </div>
+        {countStudyFilters(filters) > 0 && (
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={() => onChange(DEFAULT_STUDY_FILTERS)}>
+            조건 초기화
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
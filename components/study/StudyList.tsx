@@ -1,6 +1,7 @@
 'use client'
 
-import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useEffect, useMemo } from 'react'
 import { FaSchoolFlag } from 'react-icons/fa6'
 import { IoPersonSharp } from 'react-icons/io5'
 import { MdOutlineSignalCellularAlt } from 'react-icons/md'
@@ -8,71 +9,58 @@ import { RiStackOverflowLine } from 'react-icons/ri'
 
 import StudyCard from '@/components/common/StudyCard'
 import UserHoverCard from '@/components/common/User/HoverCard'
+import Curriculum from '@/components/study/Curriculum'
+import StudyFilters from '@/components/study/StudyFilters'
 import { Button } from '@/components/ui/button'
 import { Dialog, DialogContent, DialogDescription, DialogTitle, DialogTrigger } from '@/components/ui/dialog'
 import { useToast } from '@/components/ui/use-toast'
-import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
+import { ROUTES } from '@/constants/routes'
+import { useApiClient, useApiQuery } from '@/lib/api/hooks'
 import { useSession } from '@/lib/auth/SessionProvider'
-import { fetchData } from '@/lib/fetch'
-import { CustomResponse } from '@/lib/response'
+import { formatTimeRange } from '@/lib/date'
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { filterStudies, parseStudyFilters, toStudySearchParams } from '@/lib/search'
+import { useSearchFilters } from '@/lib/search/hooks'
+import { findSemester, formatPeriod, getPeriodStatus } from '@/lib/semester'
+import { formatCapacity, isStudyFull } from '@/lib/study'
 import { Study } from '@/types'
 
 const StudyList = () => {
-  const [studies, setStudies] = useState<Study[]>([])
-  const [isJoinedMap, setIsJoinedMap] = useState<Record<number, boolean>>({})
-  const [isLoading, setIsLoading] = useState(true)
+  const { data: studies, error, isLoading } = useApiQuery((client) => client.study.list(), [])
   const session = useSession()
+  const client = useApiClient()
+  const isLoggedIn = !!session?.data?.accessToken
+  const { data: memberships } = useApiQuery(
+    (client) => (isLoggedIn ? client.profile.memberships() : null),
+    [isLoggedIn]
+  )
+  const joinStateMap = useMemo(
+    () => new Map(memberships?.studies.map(({ studyId, state }) => [studyId, state])),
+    [memberships]
+  )
+  const { data: semesters } = useApiQuery((client) => client.semester.list(), [])
   const { toast } = useToast()
+  const [filters, setFilters] = useSearchFilters(parseStudyFilters, toStudySearchParams)
+  const filteredStudies = useMemo(() => filterStudies(studies ?? [], filters), [studies, filters])
+  const semesterOptions = useMemo(() => Array.from(new Set(studies?.map(({ semester }) => semester))), [studies])
+
+  // 학기 설정을 불러오지 못했으면 신청 기간 검사는 서버에 맡깁니다.
+  const getApplicationPeriod = (study: Study) => {
+    if (!semesters) return { status: 'open' as const, semester: undefined }
+    const semester = findSemester(semesters, study)
+    return { status: semester ? getPeriodStatus(semester.applicationPeriod) : ('closed' as const), semester }
+  }
 
   useEffect(() => {
-    const loadStudies = async () => {
-      try {
-        const res = await fetchData(API_ENDPOINTS.CLIENT.STUDY.LIST as ApiEndpoint)
-        if (!res.ok) {
-          throw new Error('스터디 목록을 불러오는 중 오류가 발생했습니다.')
-        }
-
-        const json: CustomResponse = await res.json()
-        const studiesData: Study[] = json.data ?? []
-        setStudies(studiesData)
-
-        // Check join status for each study if user is logged in
-        if (session?.data?.accessToken) {
-          const joinStatusMap: Record<number, boolean> = {}
-          await Promise.all(
-            studiesData.map(async (study) => {
-              try {
-                const joinRes = await fetchData(API_ENDPOINTS.CLIENT.STUDY.IS_JOINED(study.id) as ApiEndpoint, {
-                  headers: {
-                    Authorization: `Bearer ${session.data.accessToken}`
-                  }
-                })
-                if (joinRes.ok) {
-                  const joinJson = await joinRes.json()
-                  joinStatusMap[study.id] = joinJson.data
-                }
-              } catch (error) {
-                console.error(`Failed to check join status for study ${study.id}:`, error)
-              }
-            })
-          )
-          setIsJoinedMap(joinStatusMap)
-        }
-      } catch (error) {
-        console.error('Failed to load studies:', error)
-        toast({
-          variant: 'destructive',
-          description: '스터디 목록을 불러오는데 실패했습니다.'
-        })
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    loadStudies()
-  }, [session])
-
-  const handleJoinStudy = async (studyId: number) => {
+    if (!error) return
+    console.error('Failed to load studies:', error)
+    toast({
+      variant: 'destructive',
+      description: getErrorMessage(error, '스터디 목록을 불러오는데 실패했습니다.')
+    })
+  }, [error, toast])
+
+  const handleJoinStudy = async (studyId: number, isFull: boolean) => {
     if (!session?.data?.accessToken) {
       toast({
         variant: 'destructive',
@@ -81,57 +69,39 @@ const StudyList = () => {
       return
     }
 
-    try {
-      const res = await fetchData(API_ENDPOINTS.CLIENT.STUDY.JOIN(studyId) as ApiEndpoint, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${session.data.accessToken}`
-        }
-      })
-
-      if (!res.ok) {
-        throw new Error('스터디 참여에 실패했습니다.')
-      }
-
-      setIsJoinedMap((prev) => ({ ...prev, [studyId]: true }))
-      toast({
-        description: '스터디 참여가 완료되었습니다.'
-      })
-    } catch (error) {
+    const { error } = await client.study.join(studyId)
+    if (error) {
       console.error('Failed to join study:', error)
       toast({
         variant: 'destructive',
-        description: '스터디 참여에 실패했습니다.'
+        description: getErrorMessage(error, '스터디 참여에 실패했습니다.')
       })
+      return
     }
+
+    toast({
+      description: isFull
+        ? '정원이 가득 차 대기 명단에 등록되었습니다. 자리가 나면 신청 순서대로 자동 승인됩니다.'
+        : '스터디 참여가 완료되었습니다.'
+    })
   }
 
   const handleLeaveStudy = async (studyId: number) => {
     if (!session?.data?.accessToken) return
 
-    try {
-      const res = await fetchData(API_ENDPOINTS.CLIENT.STUDY.LEAVE(studyId) as ApiEndpoint, {
-        method: 'DELETE',
-        headers: {
-          Authorization: `Bearer ${session.data.accessToken}`
-        }
-      })
-
-      if (!res.ok) {
-        throw new Error('스터디 참여 취소에 실패했습니다.')
-      }
-
-      setIsJoinedMap((prev) => ({ ...prev, [studyId]: false }))
-      toast({
-        description: '스터디 참여가 취소되었습니다.'
-      })
-    } catch (error) {
+    const { error } = await client.study.leave(studyId)
+    if (error) {
       console.error('Failed to leave study:', error)
       toast({
         variant: 'destructive',
-        description: '스터디 참여 취소에 실패했습니다.'
+        description: getErrorMessage(error, '스터디 참여 취소에 실패했습니다.')
       })
+      return
     }
+
+    toast({
+      description: '스터디 참여가 취소되었습니다.'
+    })
   }
 
   if (isLoading) {
@@ -151,64 +121,125 @@ const StudyList = () => {
   }
 
   return (
-    <div>
-      <div className="mb-20 grid grid-cols-2 gap-3 max-sm:px-2 sm:gap-y-12 lg:grid-cols-4 lg:gap-x-14">
-        {studies.map((study) => (
-          <Dialog key={study.id}>
-            <DialogTrigger className="flex justify-center">
-              <StudyCard
-                study={study}
-                imageSize={144}
-                showStatus={true}
-                imageWrapperClassName="mb-8 mt-4 h-24 w-24 overflow-hidden sm:h-36 sm:w-36"
-              />
-            </DialogTrigger>
-            <DialogContent className="w-[324px] rounded-xl p-6 sm:w-[480px] sm:p-8">
-              <DialogTitle className="break-words text-2xl font-bold">{study.title}</DialogTitle>
-              {!study.day ? null : !study.startTime || !study.endTime ? (
-                <div className="flex gap-3 break-words text-lg text-gray-600">
-                  {study.day}요일 <span className="text-base text-red-500">(시간 미정)</span>
-                </div>
-              ) : (
-                <div className="break-words text-lg text-gray-600">
-                  {study.day} {study.startTime.substring(0, 5)} ~ {study.endTime.substring(0, 5)}
-                </div>
-              )}
-              <div className="leading-snug">
-                <div className="flex gap-6">
-                  <div className="flex items-center gap-2">
-                    <IoPersonSharp />
-                    <UserHoverCard user={study.mentor} />
+    <div className="flex w-full flex-col gap-6 max-sm:px-2">
+      <StudyFilters filters={filters} onChange={setFilters} semesters={semesterOptions} />
+      <p className="text-sm text-gray-500">{filteredStudies.length}개의 스터디</p>
+      {filteredStudies.length === 0 && (
+        <p className="mb-20 text-center text-lg text-gray-500">조건에 맞는 스터디가 없습니다.</p>
+      )}
+      <div className="mb-20 grid grid-cols-2 gap-3 sm:gap-y-12 lg:grid-cols-4 lg:gap-x-14">
+        {filteredStudies.map((study) => {
+          const isFull = study.memberCount !== undefined && isStudyFull(study, study.memberCount)
+          const applicationPeriod = getApplicationPeriod(study)
+          return (
+            <Dialog key={study.id}>
+              <DialogTrigger className="flex justify-center">
+                <StudyCard
+                  study={study}
+                  imageSize={144}
+                  showStatus={true}
+                  joinState={joinStateMap.get(study.id)}
+                  imageWrapperClassName="mb-8 mt-4 h-24 w-24 overflow-hidden sm:h-36 sm:w-36"
+                />
+              </DialogTrigger>
+              <DialogContent className="w-[324px] rounded-xl p-6 sm:w-[480px] sm:p-8">
+                <DialogTitle className="break-words text-2xl font-bold">{study.title}</DialogTitle>
+                {!study.day ? null : !study.startTime || !study.endTime ? (
+                  <div className="flex gap-3 break-words text-lg text-gray-600">
+                    {study.day}요일 <span className="text-base text-red-500">(시간 미정)</span>
                   </div>
-                  <div className="flex items-center gap-2">
-                    <MdOutlineSignalCellularAlt />
-                    {study.level}
+                ) : (
+                  <div className="break-words text-lg text-gray-600">
+                    {study.day} {formatTimeRange(study.startTime, study.endTime)}
                   </div>
-                  <div className="flex items-center gap-2">
-                    <FaSchoolFlag />
-                    {study.campus}
+                )}
+                <div className="leading-snug">
+                  <div className="flex gap-6">
+                    <div className="flex items-center gap-2">
+                      <IoPersonSharp />
+                      <UserHoverCard user={study.mentor} />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <MdOutlineSignalCellularAlt />
+                      {study.level}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <FaSchoolFlag />
+                      {study.campus}
+                    </div>
                   </div>
-                </div>
-                <div className="mb-4 mt-1 flex items-center gap-2 break-words">
-                  <RiStackOverflowLine />
-                  {study.tags?.join(', ') || '태그 없음'}
-                </div>
-                <DialogDescription className="whitespace-pre-line break-keep">{study.description}</DialogDescription>
-                {study.isRecruiting && session?.data?.accessToken && (
-                  <div className="mt-6 flex justify-end">
-                    {isJoinedMap[study.id] ? (
-                      <Button variant="outline" onClick={() => handleLeaveStudy(study.id)}>
-                        참여 취소
-                      </Button>
-                    ) : (
-                      <Button onClick={() => handleJoinStudy(study.id)}>참여하기</Button>
-                    )}
+                  <div className="mb-4 mt-1 flex items-center gap-2 break-words">
+                    <RiStackOverflowLine />
+                    {study.tags.length > 0
+                      ? study.tags.map((tag, index) => (
+                          <span key={tag}>
+                            <Link href={ROUTES.TAG.DETAIL(tag).url} className="hover:underline">
+                              {tag}
+                            </Link>
+                            {index < study.tags.length - 1 && ','}
+                          </span>
+                        ))
+                      : '태그 없음'}
                   </div>
-                )}
-              </div>
-            </DialogContent>
-          </Dialog>
-        ))}
+                  {study.memberCount !== undefined && (
+                    <p className={`-mt-3 mb-4 text-sm ${isFull ? 'text-red-500' : 'text-gray-500'}`}>
+                      정원 {formatCapacity(study, study.memberCount)}
+                      {isFull && ' · 지금 신청하면 대기 순서대로 자동 승인됩니다'}
+                    </p>
+                  )}
+                  <DialogDescription className="whitespace-pre-line break-keep">{study.description}</DialogDescription>
+                  {study.curriculum.length > 0 && (
+                    <div className="mt-4">
+                      <p className="mb-2 font-semibold">커리큘럼</p>
+                      <Curriculum curriculum={study.curriculum} className="max-h-48 overflow-y-auto pr-2" />
+                    </div>
+                  )}
+                  {study.isRecruiting && session?.data?.accessToken && (
+                    <div className="mt-6 flex justify-end">
+                      {joinStateMap.get(study.id) === 'Reject' ? (
+                        <Button disabled>참여 거절됨</Button>
+                      ) : joinStateMap.get(study.id) === 'Wait' ? (
+                        <div className="flex gap-2">
+                          <Button variant="outline" asChild>
+                            <Link href={ROUTES.STUDY.SIGNUP(`${study.id}`).url}>나의 신청서</Link>
+                          </Button>
+                          <Button variant="outline" onClick={() => handleLeaveStudy(study.id)}>
+                            신청 취소
+                          </Button>
+                        </div>
+                      ) : joinStateMap.has(study.id) ? (
+                        <Button variant="outline" onClick={() => handleLeaveStudy(study.id)}>
+                          참여 취소
+                        </Button>
+                      ) : applicationPeriod.status !== 'open' ? (
+                        <div className="flex flex-col items-end gap-1">
+                          <Button disabled>
+                            {applicationPeriod.status === 'upcoming' ? '신청 기간 전' : '신청 기간이 아닙니다'}
+                          </Button>
+                          {applicationPeriod.semester && (
+                            <p className="text-sm text-gray-500">
+                              신청 기간: {formatPeriod(applicationPeriod.semester.applicationPeriod)}
+                            </p>
+                          )}
+                        </div>
+                      ) : study.applicationQuestions.length > 0 ? (
+                        <Button asChild>
+                          <Link href={ROUTES.STUDY.SIGNUP(`${study.id}`).url}>
+                            {isFull ? '신청서 작성 (대기)' : '신청서 작성'}
+                          </Link>
+                        </Button>
+                      ) : (
+                        <Button onClick={() => handleJoinStudy(study.id, isFull)}>
+                          {isFull ? '대기 신청' : '참여하기'}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </DialogContent>
+            </Dialog>
+          )
+        })}
       </div>
     </div>
   )
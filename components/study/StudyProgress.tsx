@@ -0,0 +1,82 @@
+'use client'
+
+import Link from 'next/link'
+import { useEffect } from 'react'
+
+import Curriculum from '@/components/study/Curriculum'
+import SessionLogs from '@/components/study/SessionLogs'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { useToast } from '@/components/ui/use-toast'
+import { ROUTES } from '@/constants/routes'
+import { useApiQuery } from '@/lib/api/hooks'
+import { usePermissions } from '@/lib/auth/hooks'
+import { formatTimeRange } from '@/lib/date'
+import { getErrorMessage } from '@/lib/response/catalogue'
+
+/**
+ * 참여가 승인된 멤버에게 스터디의 커리큘럼과 회차별 진행 기록을 읽기 전용으로 보여줍니다.
+ * 기록의 작성, 수정, 삭제는 스터디장만 할 수 있습니다.
+ */
+export default function StudyProgress({ studyId }: { studyId: number }) {
+  const { toast } = useToast()
+  const { isLoggedIn, userId } = usePermissions()
+  const { data: study, error } = useApiQuery((client) => client.study.retrieve(studyId), [studyId])
+  // 신청하지 않은 스터디는 404로 `null`
+  const { data: application, isLoading: isApplicationLoading } = useApiQuery(
+    (client) => (isLoggedIn ? client.study.application(studyId) : null),
+    [studyId, isLoggedIn]
+  )
+
+  useEffect(() => {
+    if (!error) return
+    toast({
+      variant: 'destructive',
+      description: getErrorMessage(error, '스터디 정보를 불러오는데 실패했습니다.')
+    })
+  }, [error, toast])
+
+  if (!study || isApplicationLoading) {
+    return <p className="text-center text-gray-500">불러오는 중...</p>
+  }
+
+  const isMentor = study.mentor.id === userId
+  const isMember = application?.state === 'Accept'
+
+  return (
+    <div className="flex flex-col gap-8">
+      <div className="flex items-center justify-between">
+        <div className="flex flex-col gap-1">
+          <h1 className="text-3xl font-bold">{study.title}</h1>
+          <p className="text-gray-500">
+            {study.mentor.username}
+            {study.day &&
+              study.startTime &&
+              study.endTime &&
+              ` · ${study.day} ${formatTimeRange(study.startTime, study.endTime)}`}
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href={isMentor ? `/mystudy/${studyId}` : ROUTES.MYSTUDY.url}>
+            {isMentor ? '스터디로 돌아가기' : '나의 스터디로 돌아가기'}
+          </Link>
+        </Button>
+      </div>
+
+      {!isMentor && !isMember ? (
+        <p className="text-center text-gray-500">참여가 승인된 멤버만 진행 기록을 볼 수 있습니다.</p>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>진행 기록</CardTitle>
+            <CardDescription>스터디장이 회차마다 남긴 진행 내용, 자료, 과제입니다.</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-6">
+            <Curriculum curriculum={study.curriculum} className="rounded-lg bg-gray-50 p-4" />
+            <SessionLogs study={{ id: study.id, curriculum: study.curriculum }} editable={isMentor} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,176 @@
+'use client'
+
+import { FieldError, FieldErrorsImpl, Merge } from 'react-hook-form'
+import { IoArrowDown, IoArrowUp, IoClose, IoTrashOutline } from 'react-icons/io5'
+
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  APPLICATION_QUESTION_TYPES,
+  createApplicationQuestion,
+  DEFAULT_APPLICATION_QUESTIONS,
+  isChoiceQuestion,
+  MAX_APPLICATION_QUESTIONS
+} from '@/lib/application'
+import { ApplicationQuestion, ApplicationQuestionType } from '@/types'
+
+interface ApplicationQuestionEditorProps {
+  value: ApplicationQuestion[]
+  onChange: (questions: ApplicationQuestion[]) => void
+  errors?: Merge<FieldError, (Merge<FieldError, FieldErrorsImpl<ApplicationQuestion>> | undefined)[]>
+}
+
+const questionTypes = Object.keys(APPLICATION_QUESTION_TYPES) as ApplicationQuestionType[]
+
+/**
+ * 스터디장이 신청서 문항을 추가, 수정하는 편집기 입니다.
+ * 문항을 추가하지 않으면 신청자는 기본 문항(지원 동기)에 답합니다.
+ */
+export default function ApplicationQuestionEditor({ value, onChange, errors }: ApplicationQuestionEditorProps) {
+  const updateQuestion = (index: number, question: Partial<ApplicationQuestion>) =>
+    onChange(value.map((current, i) => (i === index ? { ...current, ...question } : current)))
+
+  const changeType = (index: number, type: ApplicationQuestionType) => {
+    const options = value[index].options
+    updateQuestion(index, {
+      type,
+      options: isChoiceQuestion({ type }) ? (options.length > 0 ? options : ['', '']) : []
+    })
+  }
+
+  const moveQuestion = (index: number, offset: number) => {
+    const next = [...value]
+    const [question] = next.splice(index, 1)
+    next.splice(index + offset, 0, question)
+    onChange(next)
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {value.length === 0 && (
+        <p className="text-sm text-gray-500">
+          문항을 추가하지 않으면 &apos;{DEFAULT_APPLICATION_QUESTIONS[0].title}&apos;만 입력받습니다.
+        </p>
+      )}
+
+      {value.map((question, index) => (
+        <div key={question.id} className="flex flex-col gap-3 rounded-lg border p-4">
+          <div className="flex items-center gap-2 max-md:flex-wrap">
+            <span className="text-sm font-semibold text-gray-500">Q{index + 1}.</span>
+            <Input
+              value={question.title}
+              onChange={(e) => updateQuestion(index, { title: e.target.value })}
+              placeholder="문항 제목 (ex. 사용해본 언어를 적어주세요)"
+              className="flex-1"
+            />
+            <Select value={question.type} onValueChange={(type) => changeType(index, type as ApplicationQuestionType)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {questionTypes.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {APPLICATION_QUESTION_TYPES[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {errors?.[index]?.title && <p className="text-sm text-red-500">{errors?.[index]?.title?.message}</p>}
+
+          {isChoiceQuestion(question) && (
+            <div className="flex flex-col gap-2 pl-8">
+              {question.options.map((option, optionIndex) => (
+                <div key={optionIndex} className="flex items-center gap-2">
+                  <Input
+                    value={option}
+                    onChange={(e) =>
+                      updateQuestion(index, {
+                        options: question.options.map((current, i) => (i === optionIndex ? e.target.value : current))
+                      })
+                    }
+                    placeholder={`보기 ${optionIndex + 1}`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={question.options.length <= 2}
+                    onClick={() =>
+                      updateQuestion(index, { options: question.options.filter((_, i) => i !== optionIndex) })
+                    }
+                  >
+                    <IoClose />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="w-fit"
+                onClick={() => updateQuestion(index, { options: [...question.options, ''] })}
+              >
+                보기 추가
+              </Button>
+              {errors?.[index]?.options && <p className="text-sm text-red-500">{errors?.[index]?.options?.message}</p>}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={`required-${question.id}`}
+                checked={question.required}
+                onCheckedChange={(checked) => updateQuestion(index, { required: checked === true })}
+              />
+              <Label htmlFor={`required-${question.id}`}>필수 응답</Label>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={index === 0}
+                onClick={() => moveQuestion(index, -1)}
+              >
+                <IoArrowUp />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={index === value.length - 1}
+                onClick={() => moveQuestion(index, 1)}
+              >
+                <IoArrowDown />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+              >
+                <IoTrashOutline />
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        className="w-fit"
+        disabled={value.length >= MAX_APPLICATION_QUESTIONS}
+        onClick={() => onChange([...value, createApplicationQuestion()])}
+      >
+        문항 추가
+      </Button>
+      {errors?.message && <p className="text-sm text-red-500">{errors.message}</p>}
+    </div>
+  )
+}
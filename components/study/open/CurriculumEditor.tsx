@@ -0,0 +1,101 @@
+'use client'
+
+import { FieldError, FieldErrorsImpl, Merge } from 'react-hook-form'
+import { IoArrowDown, IoArrowUp, IoTrashOutline } from 'react-icons/io5'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { createCurriculumWeek, MAX_CURRICULUM_DESCRIPTION_LENGTH, MAX_CURRICULUM_WEEKS } from '@/lib/curriculum'
+import { CurriculumWeek } from '@/types'
+
+interface CurriculumEditorProps {
+  value: CurriculumWeek[]
+  onChange: (curriculum: CurriculumWeek[]) => void
+  errors?: Merge<FieldError, (Merge<FieldError, FieldErrorsImpl<CurriculumWeek>> | undefined)[]>
+}
+
+/**
+ * 스터디장이 주차별 커리큘럼을 작성하는 편집기 입니다.
+ * 주차 번호는 순서대로 매겨지며, 저장할 때 `normalizeCurriculum`으로 다시 정리합니다.
+ */
+export default function CurriculumEditor({ value, onChange, errors }: CurriculumEditorProps) {
+  const updateWeek = (index: number, week: Partial<CurriculumWeek>) =>
+    onChange(value.map((current, i) => (i === index ? { ...current, ...week } : current)))
+
+  const renumber = (curriculum: CurriculumWeek[]) => curriculum.map((week, index) => ({ ...week, week: index + 1 }))
+
+  const moveWeek = (index: number, offset: number) => {
+    const next = [...value]
+    const [week] = next.splice(index, 1)
+    next.splice(index + offset, 0, week)
+    onChange(renumber(next))
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {value.length === 0 && <p className="text-sm text-gray-500">커리큘럼을 작성하지 않으면 설명만 보여집니다.</p>}
+
+      {value.map((week, index) => (
+        <div key={index} className="flex flex-col gap-2 rounded-lg border p-4">
+          <div className="flex items-center gap-2">
+            <span className="w-12 shrink-0 text-sm font-semibold text-gray-500">{index + 1}주차</span>
+            <Input
+              value={week.title}
+              onChange={(e) => updateWeek(index, { title: e.target.value })}
+              placeholder="주제 (ex. React 컴포넌트와 상태)"
+              className="flex-1"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              disabled={index === 0}
+              onClick={() => moveWeek(index, -1)}
+            >
+              <IoArrowUp />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              disabled={index === value.length - 1}
+              onClick={() => moveWeek(index, 1)}
+            >
+              <IoArrowDown />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(renumber(value.filter((_, i) => i !== index)))}
+            >
+              <IoTrashOutline />
+            </Button>
+          </div>
+          {errors?.[index]?.title && <p className="text-sm text-red-500">{errors?.[index]?.title?.message}</p>}
+          <Textarea
+            value={week.description}
+            onChange={(e) => updateWeek(index, { description: e.target.value })}
+            placeholder={`이번 주에 다룰 내용 (${MAX_CURRICULUM_DESCRIPTION_LENGTH}자 이내, 선택)`}
+            className="min-h-16"
+          />
+          {errors?.[index]?.description && (
+            <p className="text-sm text-red-500">{errors?.[index]?.description?.message}</p>
+          )}
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        className="w-fit"
+        disabled={value.length >= MAX_CURRICULUM_WEEKS}
+        onClick={() => onChange([...value, createCurriculumWeek(value.length + 1)])}
+      >
+        주차 추가
+      </Button>
+      {errors?.message && <p className="text-sm text-red-500">{errors.message}</p>}
+    </div>
+  )
+}
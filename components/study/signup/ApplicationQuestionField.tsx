@@ -0,0 +1,102 @@
+'use client'
+
+import { Control, Controller } from 'react-hook-form'
+
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { ApplicationFormValues, MAX_LONG_TEXT_LENGTH, MAX_SHORT_TEXT_LENGTH } from '@/lib/application'
+import { ApplicationQuestion } from '@/types'
+
+interface ApplicationQuestionFieldProps {
+  question: ApplicationQuestion
+  control: Control<ApplicationFormValues>
+  error?: string
+}
+
+/**
+ * 신청서 문항 하나를 문항 종류에 맞는 입력으로 보여줍니다.
+ */
+export default function ApplicationQuestionField({ question, control, error }: ApplicationQuestionFieldProps) {
+  return (
+    <div className="flex flex-col gap-2">
+      <Label htmlFor={question.id} className="text-base font-semibold">
+        {question.title}
+        {question.required && <span className="text-destructive"> *</span>}
+      </Label>
+      <Controller
+        control={control}
+        name={question.id}
+        render={({ field: { onChange, onBlur, value } }) => {
+          switch (question.type) {
+            case 'LONG_TEXT':
+              return (
+                <Textarea
+                  id={question.id}
+                  value={value as string}
+                  onChange={onChange}
+                  onBlur={onBlur}
+                  placeholder={`${MAX_LONG_TEXT_LENGTH}자 이내로 입력해주세요`}
+                  className={error ? 'border-destructive' : ''}
+                />
+              )
+            case 'SINGLE_CHOICE':
+              return (
+                <Select value={value as string} onValueChange={onChange}>
+                  <SelectTrigger id={question.id} className={error ? 'border-destructive' : ''}>
+                    <SelectValue placeholder="하나를 선택해주세요" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {question.options.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )
+            case 'MULTIPLE_CHOICE': {
+              const selected = value as string[]
+              return (
+                <div className="flex flex-col gap-2">
+                  {question.options.map((option) => (
+                    <div key={option} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`${question.id}-${option}`}
+                        checked={selected.includes(option)}
+                        onCheckedChange={(checked) =>
+                          onChange(checked ? [...selected, option] : selected.filter((item) => item !== option))
+                        }
+                      />
+                      <Label htmlFor={`${question.id}-${option}`} className="font-normal">
+                        {option}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )
+            }
+            default:
+              return (
+                <Input
+                  id={question.id}
+                  value={value as string}
+                  onChange={onChange}
+                  onBlur={onBlur}
+                  placeholder={
+                    question.type === 'GITHUB'
+                      ? 'github.com/username'
+                      : `${MAX_SHORT_TEXT_LENGTH}자 이내로 입력해주세요`
+                  }
+                  className={error ? 'border-destructive' : ''}
+                />
+              )
+          }
+        }}
+      />
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -2,115 +2,145 @@
 
 import { zodResolver } from '@hookform/resolvers/zod'
 import Image from 'next/image'
-import React, { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import React, { useEffect, useMemo, useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { FaSchoolFlag } from 'react-icons/fa6'
 import { IoTime } from 'react-icons/io5'
 import { MdOutlineSignalCellularAlt } from 'react-icons/md'
 import { RiStackOverflowLine } from 'react-icons/ri'
-import { z } from 'zod'
 
 import LoadingSpinner from '@/components/common/LoadingSpinner'
 import UserHoverCard from '@/components/common/User/HoverCard'
+import ApplicationQuestionField from '@/components/study/signup/ApplicationQuestionField'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
-import { Textarea } from '@/components/ui/textarea'
-import { Study } from '@/types'
-
-export interface StudySignupRequest {
-  username: string
-  studentId: number
-  github: string
-  study_id: string
-  applicationMotiv: string
-}
+import { useToast } from '@/components/ui/use-toast'
+import { ROUTES } from '@/constants/routes'
+import { useApiClient, useApiQuery } from '@/lib/api/hooks'
+import {
+  ApplicationFormValues,
+  createApplicationSchema,
+  getApplicationQuestions,
+  getDefaultApplicationValues,
+  toApplicationAnswers
+} from '@/lib/application'
+import { useDraftGuard } from '@/lib/auth/hooks'
+import { useSession } from '@/lib/auth/SessionProvider'
+import { formatKst, formatTimeRange } from '@/lib/date'
+import { getErrorMessage } from '@/lib/response/catalogue'
+import { JoinState, Study } from '@/types'
 
 const Subheader = ({ children }: { children: React.ReactNode }) => {
   return <h3 className="mb-2 text-2xl font-bold lg:mb-5">{children}</h3>
 }
 
-interface IStudySignupForm {
-  username: string
-  studentId: number
-  github: string
-  applicationMotiv: string
-}
-
-const schema = z.object({
-  applicationMotiv: z.string().min(1, { message: '지원 동기를 입력해주세요' }).max(300, { message: '300자 이내' })
-})
-
 interface StudySignupFormProps {
   study: Study
 }
 
+const APPLICATION_STATE_MESSAGES: Record<JoinState, string> = {
+  Wait: '스터디장이 신청서를 검토하고 있습니다. 결과가 나오기 전까지 신청서를 수정하거나 신청을 취소할 수 있습니다.',
+  Accept: '스터디 참여가 승인되었습니다. 승인된 신청서는 수정할 수 없습니다.',
+  Reject: '스터디 참여가 거절되었습니다. 거절된 신청서는 수정할 수 없습니다.'
+}
+
 const StudySignupForm = ({ study }: StudySignupFormProps) => {
-  // TODO: 신청 취소 기능 추가
   // TODO: 스터디 신청 정규화
   // study-participants 이외에도 studyEnrollment라는 다른 테이블 만들기 -> 신청 한것과 실제 스터디 진행 인원 분리
-  // StudyEnrollment 엔티티 추가 및 CRUD API 엔드포인트 추가
-  // StudyEnrollment에는 createdAt, editedAt 추가해서 마지막으로 수정한 날짜도 UI에서 확인 가능하게 하기
-  useEffect(() => {
-    // TODO: 신청서 데이터 가져와서 채워 넣기
-  }, [])
+  const router = useRouter()
+  const client = useApiClient()
+  const session = useSession()
+  const { toast } = useToast()
+  const isLoggedIn = !!session?.data?.accessToken
+
+  // 이미 제출한 신청서 (신청하지 않았으면 404로 `null`)
+  const { data: application, isLoading } = useApiQuery(
+    (client) => (isLoggedIn ? client.study.application(study.id) : null),
+    [study.id, isLoggedIn]
+  )
+  // 세션이나 신청서를 불러오는 동안에는 승인, 거절된 신청서인지 알 수 없으므로 수정할 수 없습니다.
+  const isApplicationLoading = session === null || (isLoggedIn && isLoading)
+  const isEditable = !isApplicationLoading && (!application || application.state === 'Wait')
+  // 신청, 수정 요청이 성공한 뒤에만 작성 중인 내용이 없는 것으로 봅니다.
+  const [isSaved, setIsSaved] = useState(false)
 
   const duration = (startTime: string | null, endTime: string | null) => {
     if (!startTime || !endTime) {
       return '(시간 미정)'
     }
-    return `${startTime.substring(0, 5)} ~ ${endTime.substring(0, 5)}`
+    return formatTimeRange(startTime, endTime)
   }
 
+  // 스터디장이 정한 문항으로 검증 규칙과 기본값을 만듭니다.
+  const questions = useMemo(() => getApplicationQuestions(study), [study])
+  const schema = useMemo(() => createApplicationSchema(questions), [questions])
+
   // Form related logics
   const {
     handleSubmit,
-    register,
-    formState: { errors, isSubmitting }
-  } = useForm<IStudySignupForm>({
+    control,
+    reset,
+    formState: { errors, isDirty, isSubmitting }
+  } = useForm<ApplicationFormValues>({
     resolver: zodResolver(schema),
-    defaultValues: {
-      username: '손장수',
-      studentId: 2019313647,
-      github: 'github.com/skku-comit/comit-website'
-    }
+    defaultValues: getDefaultApplicationValues(questions)
   })
 
-  const onValid = async (formData: IStudySignupForm) => {
-    // const requestBody: StudySignupRequest = {
-    //   username: formData.username,
-    //   studentId: formData.studentId,
-    //   github: formData.github,
-    //   study_id: study.id,
-    //   applicationMotiv: formData.applicationMotiv
-    // }
-    // TODO: 스터디 참여 신청 API 구현 후 연결
-    // const res = await fetchData(API_ENDPOINTS.CLIENT.STUDY.SIGNUP(study.id) as ApiEndpoint, {
-    //   headers: {
-    //     'Content-Type': 'application/json'
-    //   },
-    //   body: JSON.stringify(requestBody)
-    // })
-    // if (res.ok) {
-    //   const data = await res.json()
-    //   console.log(data)
-    //   alert(data)
-    //   // TODO: 신청 성공 시 처리 로직 추가
-    //   return
-    // }
-    // switch (res.status) {
-    //   case HttpStatusCode.BadRequest:
-    //     const json: CustomResponse = await res.json()
-    //     switch (json.error!.errorType) {
-    //       case AlreadySignedup.errorType:
-    //         alert('이미 신청 되었습니다.')
-    //         break
-    //       default:
-    //         throw new Error('Uncaught Error!')
-    //     }
-    //     break
-    //   default:
-    //     throw new Error('Uncaught Error!')
-    // }
+  useDraftGuard(isDirty && !isSaved)
+
+  // 제출한 신청서를 불러오면 답변을 채워 넣습니다.
+  useEffect(() => {
+    if (!application) return
+    reset(getDefaultApplicationValues(questions, application.answers))
+  }, [application, questions, reset])
+
+  const onValid = async (formData: ApplicationFormValues) => {
+    const answers = toApplicationAnswers(questions, formData)
+    const { error } = application
+      ? await client.study.updateApplication(study.id, { answers })
+      : await client.study.join(study.id, { answers })
+    if (error) {
+      toast({
+        variant: 'destructive',
+        description: getErrorMessage(error, application ? '신청서 수정에 실패했습니다.' : '스터디 신청에 실패했습니다.')
+      })
+      return
+    }
+
+    setIsSaved(true)
+    toast({
+      title: application ? '신청서 수정 완료' : '스터디 신청 완료',
+      description: '스터디장이 신청서를 확인한 후 참여 여부를 알려드립니다.'
+    })
+    router.push(ROUTES.STUDY.index.url)
+  }
+
+  const handleWithdraw = async () => {
+    const { error } = await client.study.leave(study.id)
+    if (error) {
+      toast({
+        variant: 'destructive',
+        description: getErrorMessage(error, '신청 취소에 실패했습니다.')
+      })
+      return
+    }
+
+    toast({
+      description: '스터디 신청이 취소되었습니다.'
+    })
+    router.push(ROUTES.STUDY.index.url)
   }
 
   return (
@@ -177,44 +207,76 @@ const StudySignupForm = ({ study }: StudySignupFormProps) => {
         </div>
 
         <div className="pt-10">
-          <Subheader>
-            지원동기 작성&nbsp;
-            <span className="text-lg">(300자 이내)</span>
-          </Subheader>
+          <Subheader>{application ? '나의 신청서' : '신청서 작성'}</Subheader>
 
           <div>
-            <div className="mb-3 text-sm lg:space-y-1">
+            {application && (
+              <div className="mb-5 rounded-lg bg-slate-100 p-4 text-sm">
+                <p className="font-medium">{APPLICATION_STATE_MESSAGES[application.state]}</p>
+                <p className="mt-1 text-gray-500">
+                  제출: {formatKst(application.createdAt, 'yyyy. M. d. HH:mm')}
+                  {application.editedAt && ` · 마지막 수정: ${formatKst(application.editedAt, 'yyyy. M. d. HH:mm')}`}
+                </p>
+              </div>
+            )}
+            <div className="mb-5 text-sm lg:space-y-1">
               <p>* 아래 정보는 스터디장에게 제공됩니다</p>
               <p>* 자신의 열정 및 스터디 참여 의지를 어필해주세요</p>
-              <p>* 지원동기는 스터디 신청 기간동안 자유롭게 수정 가능합니다</p>
+              <p>* 신청서는 스터디장이 승인하거나 거절하기 전까지 자유롭게 수정 가능합니다</p>
             </div>
 
-            <div className="rounded-xl">
-              <Textarea
-                id="applicationMotiv"
-                {...register('applicationMotiv')}
-                placeholder="지원 동기를 입력해주세요"
-                className={errors.applicationMotiv ? 'border-destructive' : ''}
-              />
-              {errors.applicationMotiv && <p className="text-destructive">{errors.applicationMotiv.message}</p>}
-            </div>
+            <fieldset disabled={!isEditable} className="flex flex-col gap-6 rounded-xl">
+              {questions.map((question) => (
+                <ApplicationQuestionField
+                  key={question.id}
+                  question={question}
+                  control={control}
+                  error={errors[question.id]?.message}
+                />
+              ))}
+            </fieldset>
           </div>
         </div>
       </div>
 
-      <div className="flex justify-end">
-        <Button type="submit" disabled={isSubmitting} className="w-full">
-          {isSubmitting ? (
-            <>
-              <LoadingSpinner size={14} />
-              &nbsp;&nbsp;
-              <span>제출 중</span>
-            </>
-          ) : (
-            '제출하기'
+      {isEditable && (
+        <div className="flex justify-end gap-2">
+          {application && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button type="button" variant="outline" disabled={isSubmitting}>
+                  신청 취소
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>스터디 신청을 취소하시겠습니까?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    작성한 신청서가 삭제되며, 다시 참여하려면 신청서를 새로 제출해야 합니다.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>닫기</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleWithdraw}>신청 취소</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
           )}
-        </Button>
-      </div>
+          <Button type="submit" disabled={isSubmitting} className="flex-1">
+            {isSubmitting ? (
+              <>
+                <LoadingSpinner size={14} />
+                &nbsp;&nbsp;
+                <span>제출 중</span>
+              </>
+            ) : application ? (
+              '수정하기'
+            ) : (
+              '제출하기'
+            )}
+          </Button>
+        </div>
+      )}
     </form>
   )
 }
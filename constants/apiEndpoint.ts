@@ -62,6 +62,25 @@ const JSP_ENDPOINTS = {
         url: `${baseURL}/${API_PREFIX}/admin/comments/${id}`,
         method: 'DELETE'
       })
+    },
+    // 태그 이름을 바꾸거나 합치면 해당 태그를 사용하는 스터디, 행사의 태그도 함께 바뀝니다.
+    TAG: {
+      RENAME: (name: string) => ({
+        url: `${baseURL}/${API_PREFIX}/admin/tags/${encodeURIComponent(name)}`,
+        method: 'PATCH' as HttpMethod
+      }),
+      MERGE: { url: `${baseURL}/${API_PREFIX}/admin/tags/merge`, method: 'POST' as HttpMethod }
+    },
+    SEMESTER: {
+      CREATE: { url: `${baseURL}/${API_PREFIX}/admin/semesters`, method: 'POST' as HttpMethod },
+      UPDATE: (id: number) => ({
+        url: `${baseURL}/${API_PREFIX}/admin/semesters/${id}`,
+        method: 'PUT' as HttpMethod
+      }),
+      DELETE: (id: number) => ({
+        url: `${baseURL}/${API_PREFIX}/admin/semesters/${id}`,
+        method: 'DELETE' as HttpMethod
+      })
     }
   },
   CLIENT: {
@@ -82,6 +101,15 @@ const JSP_ENDPOINTS = {
         url: `${baseURL}/${API_PREFIX}/studies/${id}/leave`,
         method: 'DELETE' as HttpMethod
       }),
+      // 로그인한 사용자가 제출한 신청서
+      APPLICATION: (id: number) => ({
+        url: `${baseURL}/${API_PREFIX}/studies/${id}/application`,
+        method: 'GET' as HttpMethod
+      }),
+      UPDATE_APPLICATION: (id: number) => ({
+        url: `${baseURL}/${API_PREFIX}/studies/${id}/application`,
+        method: 'PATCH' as HttpMethod
+      }),
       MEMBERS: (id: number, state: 'Accept' | 'Wait' | 'Reject') => ({
         url: `${baseURL}/${API_PREFIX}/studies/${id}/members?state=${state}`,
         method: 'GET' as HttpMethod
@@ -89,6 +117,37 @@ const JSP_ENDPOINTS = {
       UPDATE_MEMBER_STATE: (studyId: number, userId: number) => ({
         url: `${baseURL}/${API_PREFIX}/studies/${studyId}/${userId}`,
         method: 'PATCH' as HttpMethod
+      }),
+      // 회차별 출석 기록 (`date`: `yyyy-MM-dd`)
+      ATTENDANCE: (id: number) => ({
+        url: `${baseURL}/${API_PREFIX}/studies/${id}/attendance`,
+        method: 'GET' as HttpMethod
+      }),
+      UPDATE_ATTENDANCE: (id: number, date: string) => ({
+        url: `${baseURL}/${API_PREFIX}/studies/${id}/attendance/${date}`,
+        method: 'PUT' as HttpMethod
+      }),
+      // 회차별 진행 기록
+      LOGS: (id: number) => ({
+        url: `${baseURL}/${API_PREFIX}/studies/${id}/logs`,
+        method: 'GET' as HttpMethod
+      }),
+      CREATE_LOG: (id: number) => ({
+        url: `${baseURL}/${API_PREFIX}/studies/${id}/logs`,
+        method: 'POST' as HttpMethod
+      }),
+      UPDATE_LOG: (id: number, logId: number) => ({
+        url: `${baseURL}/${API_PREFIX}/studies/${id}/logs/${logId}`,
+        method: 'PUT' as HttpMethod
+      }),
+      DELETE_LOG: (id: number, logId: number) => ({
+        url: `${baseURL}/${API_PREFIX}/studies/${id}/logs/${logId}`,
+        method: 'DELETE' as HttpMethod
+      }),
+      // 스터디 종료, 수료한 멤버에게 수료증이 발급됩니다.
+      CLOSE: (id: number) => ({
+        url: `${baseURL}/${API_PREFIX}/studies/${id}/close`,
+        method: 'POST' as HttpMethod
       })
     },
     EVENT: {
@@ -162,6 +221,10 @@ const JSP_ENDPOINTS = {
         method: 'GET' as HttpMethod
       }),
       CREATE: { url: `${baseURL}/${API_PREFIX}/reservations`, method: 'POST' as HttpMethod },
+      UPDATE: (id: number) => ({
+        url: `${baseURL}/${API_PREFIX}/reservations/${id}`,
+        method: 'PATCH' as HttpMethod
+      }),
       MY: (year: number, month: number) => ({
         url: `${baseURL}/${API_PREFIX}/reservations/my?year=${year}&month=${month}`,
         method: 'GET' as HttpMethod
@@ -181,8 +244,40 @@ const JSP_ENDPOINTS = {
       REJECT: (id: number) => ({
         url: `${baseURL}/${API_PREFIX}/reservations/${id}/reject`,
         method: 'PATCH' as HttpMethod
+      }),
+      // 운영진이 여러 예약을 한 번에 처리할 때 사용합니다.
+      BULK_ACCEPT: { url: `${baseURL}/${API_PREFIX}/reservations/bulk/accept`, method: 'PATCH' as HttpMethod },
+      BULK_REJECT: { url: `${baseURL}/${API_PREFIX}/reservations/bulk/reject`, method: 'PATCH' as HttpMethod },
+      SERIES: {
+        CREATE: { url: `${baseURL}/${API_PREFIX}/reservations/series`, method: 'POST' as HttpMethod },
+        ACCEPT: (seriesId: number) => ({
+          url: `${baseURL}/${API_PREFIX}/reservations/series/${seriesId}/accept`,
+          method: 'PATCH' as HttpMethod
+        }),
+        REJECT: (seriesId: number) => ({
+          url: `${baseURL}/${API_PREFIX}/reservations/series/${seriesId}/reject`,
+          method: 'PATCH' as HttpMethod
+        })
+      }
+    },
+    // 스터디, 행사에서 사용 중인 태그와 사용 횟수 (`ADMIN.TAG`로 관리)
+    TAG: {
+      LIST: { url: `${baseURL}/${API_PREFIX}/tags`, method: 'GET' as HttpMethod }
+    },
+    // 관리자가 설정한 학기별 개설, 신청, 활동 기간 (`ADMIN.SEMESTER`로 관리)
+    SEMESTER: {
+      LIST: { url: `${baseURL}/${API_PREFIX}/semesters`, method: 'GET' as HttpMethod }
+    },
+    CERTIFICATE: {
+      RETRIEVE: (id: number) => ({
+        url: `${baseURL}/${API_PREFIX}/certificates/${id}`,
+        method: 'GET' as HttpMethod
       })
     },
+    // 모집이 끝난 지난 스터디, 행사 (멤버 수 포함)
+    ARCHIVE: {
+      LIST: { url: `${baseURL}/${API_PREFIX}/archive`, method: 'GET' as HttpMethod }
+    },
     STAFF_LIST: { url: `${baseURL}/${API_PREFIX}/staffs`, method: 'GET' as HttpMethod },
     PROFILE: {
       RETRIEVE: { url: `${baseURL}/${API_PREFIX}/profile`, method: 'GET' as HttpMethod },
@@ -191,7 +286,22 @@ const JSP_ENDPOINTS = {
       CREATED_STUDY: { url: `${baseURL}/${API_PREFIX}/profile/created-studies`, method: 'GET' as HttpMethod },
       JOINED_STUDY: { url: `${baseURL}/${API_PREFIX}/profile/joined-studies`, method: 'GET' as HttpMethod },
       CREATED_EVENT: { url: `${baseURL}/${API_PREFIX}/profile/created-events`, method: 'GET' as HttpMethod },
-      JOINED_EVENT: { url: `${baseURL}/${API_PREFIX}/profile/joined-events`, method: 'GET' as HttpMethod }
+      JOINED_EVENT: { url: `${baseURL}/${API_PREFIX}/profile/joined-events`, method: 'GET' as HttpMethod },
+      MEMBERSHIPS: { url: `${baseURL}/${API_PREFIX}/profile/memberships`, method: 'GET' as HttpMethod },
+      ATTENDANCE: { url: `${baseURL}/${API_PREFIX}/profile/attendance`, method: 'GET' as HttpMethod },
+      CERTIFICATES: { url: `${baseURL}/${API_PREFIX}/profile/certificates`, method: 'GET' as HttpMethod },
+      CALENDAR_TOKEN: { url: `${baseURL}/${API_PREFIX}/profile/calendar-token`, method: 'GET' as HttpMethod },
+      REISSUE_CALENDAR_TOKEN: {
+        url: `${baseURL}/${API_PREFIX}/profile/calendar-token`,
+        method: 'POST' as HttpMethod
+      }
+    },
+    // 캘린더 구독 피드 (로그인 대신 `PROFILE.CALENDAR_TOKEN`으로 발급받은 토큰으로 인증)
+    CALENDAR: {
+      FEED: (token: string) => ({
+        url: `${baseURL}/${API_PREFIX}/calendar-feed/${encodeURIComponent(token)}`,
+        method: 'GET' as HttpMethod
+      })
     },
     STAFF: {
       LIST: {
@@ -38,7 +38,7 @@ export const ROUTES = {
     },
     OPEN: {
       name: '행사 개설',
-      url: '/event/open'
+      url: '/event/create'
     }
   },
   POST: {
@@ -51,10 +51,28 @@ export const ROUTES = {
       url: '/post/create'
     }
   },
+  ARCHIVE: {
+    name: '지난 활동',
+    url: '/archive'
+  },
+  TAG: {
+    index: {
+      name: '태그',
+      url: '/tags'
+    },
+    DETAIL: (tag: string) => ({
+      name: tag,
+      url: `/tags/${encodeURIComponent(tag)}`
+    })
+  },
   CLUBROOM: {
     name: '동아리방',
     url: '/clubroom'
   },
+  CLUBROOM_STATISTICS: {
+    name: '동아리방 이용 통계',
+    url: '/clubroom/statistics'
+  },
   LOGIN: {
     name: '로그인',
     url: '/login'
@@ -63,6 +81,10 @@ export const ROUTES = {
     name: '회원가입',
     url: '/signup'
   },
+  FORBIDDEN: {
+    name: '접근 권한 없음',
+    url: '/forbidden'
+  },
   MYSTUDY: {
     name: '나의 스터디',
     url: '/mystudy'
@@ -75,6 +97,10 @@ export const ROUTES = {
     name: '프로필',
     url: '/profile'
   },
+  CERTIFICATE: (id: string) => ({
+    name: '수료증',
+    url: `/certificate/${id}`
+  }),
   ADMIN: {
     DASHBOARD: {
       name: '대시보드',
@@ -95,6 +121,14 @@ export const ROUTES = {
     USER: {
       name: '유저',
       url: '/admin/users'
+    },
+    SEMESTER: {
+      name: '학기',
+      url: '/admin/semesters'
+    },
+    TAG: {
+      name: '태그',
+      url: '/admin/tags'
     }
   }
 } as const
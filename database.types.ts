@@ -103,16 +103,19 @@ export type Database = {
       }
       'study-participants': {
         Row: {
+          answers: Json | null
           applicationMotiv: string
           profile_id: string
           study_id: string
         }
         Insert: {
+          answers?: Json | null
           applicationMotiv: string
           profile_id: string
           study_id: string
         }
         Update: {
+          answers?: Json | null
           applicationMotiv?: string
           profile_id?: string
           study_id?: string
@@ -0,0 +1,123 @@
+import type { ApiResult } from './client'
+
+/**
+ * 클라이언트에서 조회(GET) 응답을 엔드포인트 URL 단위로 캐싱하는 쿼리 캐시 입니다.
+ * - 같은 URL에 대한 요청이 진행 중이면 새로 요청하지 않고 진행 중인 요청을 공유합니다.
+ * - `STALE_TIME`이 지난 데이터는 즉시 반환한 뒤 백그라운드에서 다시 불러옵니다. (stale-while-revalidate)
+ * - 변경 요청(참여, 작성, 승인 등) 후에는 `invalidateQueries`로 관련된 캐시를 무효화합니다.
+ *
+ * 서버에서는 사용자 간에 캐시가 공유되지 않도록 사용하지 않습니다.
+ */
+const STALE_TIME = 30 * 1000
+
+interface CacheEntry {
+  result?: ApiResult<unknown>
+  updatedAt: number
+  promise?: Promise<ApiResult<unknown>>
+}
+
+const entries = new Map<string, CacheEntry>()
+// 캐시 키 별로 등록된 리스너
+const listeners = new Map<string, Set<() => void>>()
+// `cachedQuery`가 반환한 요청이 어떤 캐시 키를 조회하는지 기록합니다. (`getQueryKey`)
+const queryKeys = new WeakMap<Promise<unknown>, string>()
+
+export const isQueryCacheEnabled = () => typeof window !== 'undefined'
+
+function notify(matches: (key: string) => boolean) {
+  listeners.forEach((keyListeners, key) => {
+    if (matches(key)) keyListeners.forEach((listener) => listener())
+  })
+}
+
+function revalidate<T>(key: string, fetcher: () => Promise<ApiResult<T>>): Promise<ApiResult<T>> {
+  let entry = entries.get(key)
+  if (entry?.promise) {
+    return entry.promise as Promise<ApiResult<T>>
+  }
+  if (!entry) {
+    entry = { updatedAt: 0 }
+    entries.set(key, entry)
+  }
+
+  const current = entry
+  const promise = fetcher().then((result) => {
+    current.promise = undefined
+    // 요청 도중 무효화된 경우 오래된 응답을 캐시에 저장하지 않습니다.
+    if (entries.get(key) !== current) {
+      return result
+    }
+    if (result.error) {
+      if (!current.result) entries.delete(key)
+      return result
+    }
+
+    current.result = result
+    current.updatedAt = Date.now()
+    notify((listenerKey) => listenerKey === key)
+    return result
+  })
+  current.promise = promise
+  return promise
+}
+
+/**
+ * 캐시된 응답이 있으면 반환하고, 없으면 `fetcher`로 불러와 캐시에 저장합니다.
+ * 실패한 응답은 캐시하지 않습니다.
+ * @param key 캐시 키 (엔드포인트 URL)
+ */
+export function cachedQuery<T>(key: string, fetcher: () => Promise<ApiResult<T>>): Promise<ApiResult<T>> {
+  const entry = entries.get(key)
+  let promise: Promise<ApiResult<T>>
+  if (!entry?.result) {
+    promise = revalidate(key, fetcher)
+  } else {
+    if (Date.now() - entry.updatedAt > STALE_TIME) {
+      revalidate(key, fetcher)
+    }
+    promise = Promise.resolve(entry.result as ApiResult<T>)
+  }
+  queryKeys.set(promise, key)
+  return promise
+}
+
+/**
+ * `cachedQuery`로 시작한 요청의 캐시 키를 반환합니다. 캐시를 거치지 않은 요청이면 `undefined` 입니다.
+ */
+export const getQueryKey = (promise: Promise<unknown>) => queryKeys.get(promise)
+
+const matchesUrl = (key: string, url: string) => key === url || key.startsWith(`${url}/`) || key.startsWith(`${url}?`)
+
+/**
+ * 주어진 URL과 그 하위 경로에 해당하는 캐시를 모두 무효화합니다.
+ * ex) `/api/studies/1`을 무효화하면 `/api/studies/1/isJoined`, `/api/studies/1/members?state=Wait`도 무효화됩니다.
+ */
+export function invalidateQueries(...urls: string[]) {
+  const matches = (key: string) => urls.some((url) => matchesUrl(key, url))
+  entries.forEach((_, key) => {
+    if (matches(key)) entries.delete(key)
+  })
+  // 실패해서 캐시되지 않은 조회도 다시 불러오도록, 캐시 여부와 관계없이 해당 키의 리스너에게 알립니다.
+  notify(matches)
+}
+
+/**
+ * 로그인한 사용자가 바뀌었을 때처럼 캐시 전체를 비워야 할 때 사용합니다.
+ */
+export function clearQueryCache() {
+  entries.clear()
+  notify(() => true)
+}
+
+/**
+ * `key`의 캐시가 갱신되거나 무효화될 때 호출될 리스너를 등록하고, 해제 함수를 반환합니다.
+ */
+export function subscribeQueryCache(key: string, listener: () => void) {
+  const keyListeners = listeners.get(key) ?? new Set()
+  keyListeners.add(listener)
+  listeners.set(key, keyListeners)
+  return () => {
+    keyListeners.delete(listener)
+    if (keyListeners.size === 0 && listeners.get(key) === keyListeners) listeners.delete(key)
+  }
+}
@@ -0,0 +1,416 @@
+import { z } from 'zod'
+
+import { API_ENDPOINTS, ApiEndpoint } from '@/constants/apiEndpoint'
+import { fetchData } from '@/lib/fetch'
+import { CustomError, CustomErrorDTO, CustomResponseDTO } from '@/lib/response'
+import { createApiError } from '@/lib/response/catalogue'
+import { NetworkError, ResponseSchemaMismatch } from '@/lib/response/errors'
+import {
+  ApplicationAnswer,
+  ApplicationQuestion,
+  AttendanceRecord,
+  Campus,
+  CurriculumWeek,
+  Day,
+  JoinState,
+  Level,
+  Semester,
+  SessionLog,
+  StudyCompletion
+} from '@/types'
+
+import { cachedQuery, invalidateQueries, isQueryCacheEnabled } from './cache'
+import {
+  archiveSchema,
+  attendanceSessionSchema,
+  calendarFeedSchema,
+  calendarTokenSchema,
+  certificateSchema,
+  emptySchema,
+  eventSchema,
+  eventWithStateSchema,
+  memberSchema,
+  membershipSummarySchema,
+  postSchema,
+  reservationSchema,
+  ResponseSchema,
+  semesterSchema,
+  sessionLogSchema,
+  studyApplicationSchema,
+  studyAttendanceSchema,
+  studySchema,
+  studyWithStateSchema,
+  tagSchema,
+  userProfileSchema,
+  userSchema
+} from './schemas'
+
+/**
+ * `error`, `data` 둘 중 하나만 존재하는 API 호출 결과 입니다.
+ */
+export type ApiResult<T> = { error: null; data: T } | { error: CustomErrorDTO; data: null }
+
+// Request bodies
+export interface StudyRequestBody {
+  title: string
+  description: string
+  imageSrc: string
+  campus: Campus
+  day: Day
+  level: Level
+  startTime: string
+  endTime: string
+  tags: string[]
+  isRecruiting: boolean
+  semester: string
+  year: number
+  applicationQuestions?: ApplicationQuestion[]
+  maxMembers?: number | null
+  curriculum?: CurriculumWeek[]
+}
+
+export interface StudyJoinRequestBody {
+  // 스터디 신청서의 답변
+  answers?: ApplicationAnswer[]
+}
+
+export type SessionLogRequestBody = Omit<SessionLog, 'id' | 'createdAt'>
+
+export interface AttendanceRequestBody {
+  records: AttendanceRecord[]
+}
+
+export interface StudyCloseRequestBody {
+  // 참여 중인 모든 멤버의 수료 여부
+  completions: StudyCompletion[]
+}
+
+export interface EventRequestBody {
+  title: string
+  description: string
+  imageSrc: string
+  startDate: string
+  endDate: string
+  startTime: string
+  endTime: string
+  location: string
+  tags: string[]
+  isRecruiting: boolean
+  semester: string
+  year: number
+}
+
+export interface MemberStateRequestBody {
+  joinState: Exclude<JoinState, 'Wait'>
+}
+
+export interface PostRequestBody {
+  title: string
+  content: string
+  imageSrc: string | null
+}
+
+export interface CommentRequestBody {
+  content: string
+}
+
+export interface ReservationRequestBody {
+  studyId: number
+  startTime: string
+  endTime: string
+  title: string
+  description: string
+}
+
+export interface ReservationSeriesRequestBody {
+  studyId: number
+  title: string
+  description: string
+  reservations: ReservationTimeRequestBody[]
+}
+
+export interface ReservationBulkRequestBody {
+  reservationIds: number[]
+}
+
+export interface ReservationRejectRequestBody {
+  // 예약자에게 전달할 거절 사유
+  reason?: string
+}
+
+export type ReservationTimeRequestBody = Pick<ReservationRequestBody, 'startTime' | 'endTime'>
+
+export type SemesterRequestBody = Omit<Semester, 'id'>
+
+export interface TagRenameRequestBody {
+  name: string
+}
+
+export interface TagMergeRequestBody {
+  // `target`에 합칠 태그, 합친 태그는 `target`의 별칭이 됩니다.
+  sources: string[]
+  target: string
+}
+
+export interface ProfileRequestBody {
+  profileImage?: string | null
+  bio?: string | null
+}
+
+/**
+ * 서버가 요청을 처리하지 못했는지 확인합니다.
+ * 응답이 스키마와 맞지 않는 경우(`ResponseSchemaMismatch`)는 2xx 응답이므로 서버에서는 처리된 것으로 봅니다.
+ */
+export const isRequestFailed = (error: CustomErrorDTO | null) =>
+  !!error && error.errorType !== ResponseSchemaMismatch.errorType
+
+const toErrorDTO = (error: CustomError): CustomErrorDTO => ({
+  errorType: error.errorType,
+  detail: error.detail
+})
+
+interface ApiClientOptions {
+  /**
+   * 서버 컴포넌트처럼 세션 토큰을 직접 다뤄야 할 때 전달합니다.
+   * 생략하면 `fetchData`의 `authenticated` 모드로 세션 토큰을 자동으로 사용합니다.
+   */
+  accessToken?: string | null
+}
+
+/**
+ * `API_ENDPOINTS`를 감싸 응답을 검증하는 타입 안전한 API 클라이언트를 생성합니다.
+ * 응답의 `data`는 `lib/api/schemas.ts`의 스키마로 검증되며, 실패 시 `throw` 대신
+ * `CustomErrorDTO`를 담은 `ApiResult`를 반환합니다.
+ * 브라우저에서의 조회 요청은 `lib/api/cache.ts`의 쿼리 캐시를 거치며,
+ * 변경 요청이 성공하면 영향을 받는 조회 결과를 무효화합니다.
+ * @param accessToken 인증이 필요한 요청에 사용할 액세스 토큰 (서버 전용)
+ *
+ * @example
+   ```ts
+   const client = createApiClient()
+   const { data: studies, error } = await client.study.list()
+   if (error) {
+     toast({ variant: 'destructive', description: error.detail })
+     return
+   }
+   setStudies(studies)
+   ```
+ */
+export function createApiClient({ accessToken }: ApiClientOptions = {}) {
+  async function send<T>(route: ApiEndpoint, schema: ResponseSchema<T>, body?: unknown): Promise<ApiResult<T>> {
+    let res: Response
+    try {
+      res = await fetchData(route, {
+        body: body === undefined ? undefined : JSON.stringify(body),
+        headers: accessToken ? { Authorization: `Bearer ${accessToken}` } : undefined,
+        credentials: 'include',
+        authenticated: accessToken === undefined
+      })
+    } catch (error) {
+      console.error(`Failed to request ${route.method} ${route.url}:`, error)
+      return { error: toErrorDTO(NetworkError), data: null }
+    }
+
+    const json: CustomResponseDTO | null = await res.json().catch(() => null)
+    if (!res.ok) {
+      const { errorType, detail } = createApiError(res.status, json?.error)
+      return { error: { errorType, detail }, data: null }
+    }
+
+    const parsed = schema.safeParse(json?.data)
+    if (!parsed.success) {
+      console.error(`Response of ${route.method} ${route.url} does not match the schema:`, parsed.error.issues)
+      return { error: toErrorDTO(ResponseSchemaMismatch), data: null }
+    }
+    return { error: null, data: parsed.data }
+  }
+
+  function query<T>(route: ApiEndpoint, schema: ResponseSchema<T>): Promise<ApiResult<T>> {
+    // 서버 컴포넌트에서 토큰을 직접 전달한 경우에는 캐시하지 않습니다.
+    if (accessToken !== undefined || !isQueryCacheEnabled()) {
+      return send(route, schema)
+    }
+    return cachedQuery(route.url, () => send(route, schema))
+  }
+
+  async function mutate<T>(
+    route: ApiEndpoint,
+    schema: ResponseSchema<T>,
+    body: unknown,
+    invalidates: ApiEndpoint[]
+  ): Promise<ApiResult<T>> {
+    const result = await send(route, schema, body)
+    // 응답 형식이 맞지 않아도 서버의 데이터는 바뀌었으므로 무효화합니다.
+    if (!isRequestFailed(result.error)) {
+      invalidateQueries(...invalidates.map(({ url }) => url))
+    }
+    return result
+  }
+
+  const { STUDY, EVENT, POST, RESERVATION, PROFILE, STAFF, CALENDAR, SEMESTER, CERTIFICATE, TAG, ARCHIVE } =
+    API_ENDPOINTS.CLIENT
+  // 게시글 목록에는 좋아요, 댓글 수가 포함되어 있어 게시글이 바뀌면 목록도 함께 무효화합니다.
+  const POST_LISTS = [POST.LIST('STUDY'), POST.LIST('EVENT')]
+  // 신청, 승인 상태가 바뀌면 스터디 목록의 인원과 모든 상태의 멤버 목록이 함께 바뀝니다.
+  const STUDY_MEMBERSHIP = (id: number) => [
+    STUDY.LIST,
+    STUDY.RETRIEVE(id),
+    STUDY.MEMBERS(id, 'Accept'),
+    STUDY.MEMBERS(id, 'Wait'),
+    STUDY.MEMBERS(id, 'Reject')
+  ]
+  // `/reservations` 하위의 목록, 내 예약, 대기 목록을 모두 무효화합니다.
+  const RESERVATIONS = RESERVATION.CREATE
+
+  return {
+    study: {
+      list: () => query(STUDY.LIST, z.array(studySchema)),
+      retrieve: (id: number) => query(STUDY.RETRIEVE(id), studySchema),
+      create: (body: StudyRequestBody) =>
+        mutate(STUDY.CREATE, studySchema, body, [STUDY.LIST, PROFILE.CREATED_STUDY, TAG.LIST]),
+      update: (id: number, body: Partial<StudyRequestBody>) =>
+        mutate(STUDY.UPDATE(id), studySchema, body, [STUDY.LIST, STUDY.RETRIEVE(id), PROFILE.CREATED_STUDY, TAG.LIST]),
+      isJoined: (id: number) => query(STUDY.IS_JOINED(id), z.boolean()),
+      join: (id: number, body: StudyJoinRequestBody = {}) =>
+        mutate(STUDY.JOIN(id), emptySchema, body, [...STUDY_MEMBERSHIP(id), PROFILE.JOINED_STUDY, PROFILE.MEMBERSHIPS]),
+      application: (id: number) => query(STUDY.APPLICATION(id), studyApplicationSchema),
+      updateApplication: (id: number, body: Required<StudyJoinRequestBody>) =>
+        mutate(STUDY.UPDATE_APPLICATION(id), studyApplicationSchema, body, [STUDY.RETRIEVE(id)]),
+      leave: (id: number) =>
+        mutate(STUDY.LEAVE(id), emptySchema, undefined, [
+          ...STUDY_MEMBERSHIP(id),
+          PROFILE.JOINED_STUDY,
+          PROFILE.MEMBERSHIPS
+        ]),
+      members: (id: number, state: JoinState) => query(STUDY.MEMBERS(id, state), z.array(memberSchema)),
+      updateMemberState: (studyId: number, userId: number, body: MemberStateRequestBody) =>
+        mutate(STUDY.UPDATE_MEMBER_STATE(studyId, userId), emptySchema, body, STUDY_MEMBERSHIP(studyId)),
+      attendance: (id: number) => query(STUDY.ATTENDANCE(id), z.array(attendanceSessionSchema)),
+      updateAttendance: (id: number, date: string, body: AttendanceRequestBody) =>
+        mutate(STUDY.UPDATE_ATTENDANCE(id, date), attendanceSessionSchema, body, [
+          STUDY.ATTENDANCE(id),
+          PROFILE.ATTENDANCE
+        ]),
+      logs: (id: number) => query(STUDY.LOGS(id), z.array(sessionLogSchema)),
+      createLog: (id: number, body: SessionLogRequestBody) =>
+        mutate(STUDY.CREATE_LOG(id), sessionLogSchema, body, [STUDY.LOGS(id)]),
+      updateLog: (id: number, logId: number, body: SessionLogRequestBody) =>
+        mutate(STUDY.UPDATE_LOG(id, logId), sessionLogSchema, body, [STUDY.LOGS(id)]),
+      deleteLog: (id: number, logId: number) =>
+        mutate(STUDY.DELETE_LOG(id, logId), emptySchema, undefined, [STUDY.LOGS(id)]),
+      close: (id: number, body: StudyCloseRequestBody) =>
+        mutate(STUDY.CLOSE(id), z.array(certificateSchema), body, [
+          STUDY.LIST,
+          STUDY.RETRIEVE(id),
+          PROFILE.CREATED_STUDY,
+          PROFILE.CERTIFICATES,
+          ARCHIVE.LIST
+        ])
+    },
+    event: {
+      list: () => query(EVENT.LIST, z.array(eventSchema)),
+      retrieve: (id: number) => query(EVENT.RETRIEVE(id), eventSchema),
+      create: (body: EventRequestBody) =>
+        mutate(EVENT.CREATE, eventSchema, body, [EVENT.LIST, PROFILE.CREATED_EVENT, TAG.LIST]),
+      update: (id: number, body: Partial<EventRequestBody>) =>
+        mutate(EVENT.UPDATE(id), eventSchema, body, [EVENT.LIST, EVENT.RETRIEVE(id), PROFILE.CREATED_EVENT, TAG.LIST]),
+      isJoined: (id: number) => query(EVENT.IS_JOINED(id), z.boolean()),
+      join: (id: number) =>
+        mutate(EVENT.JOIN(id), emptySchema, undefined, [EVENT.RETRIEVE(id), PROFILE.JOINED_EVENT, PROFILE.MEMBERSHIPS]),
+      leave: (id: number) =>
+        mutate(EVENT.LEAVE(id), emptySchema, undefined, [
+          EVENT.RETRIEVE(id),
+          PROFILE.JOINED_EVENT,
+          PROFILE.MEMBERSHIPS
+        ]),
+      members: (id: number, state: JoinState) => query(EVENT.MEMBERS(id, state), z.array(memberSchema)),
+      updateMemberState: (eventId: number, userId: number, body: MemberStateRequestBody) =>
+        mutate(EVENT.UPDATE_MEMBER_STATE(eventId, userId), emptySchema, body, [EVENT.RETRIEVE(eventId)])
+    },
+    post: {
+      list: (groupType: 'STUDY' | 'EVENT') => query(POST.LIST(groupType), z.array(postSchema)),
+      retrieve: (id: number) => query(POST.RETRIEVE(id), postSchema),
+      create: (groupType: 'STUDY' | 'EVENT', groupId: number, body: PostRequestBody) =>
+        mutate(POST.CREATE(groupType, groupId), postSchema, body, [POST.LIST(groupType)]),
+      update: (id: number, body: PostRequestBody) =>
+        mutate(POST.UPDATE(id), postSchema, body, [POST.RETRIEVE(id), ...POST_LISTS]),
+      delete: (id: number) => mutate(POST.DELETE(id), emptySchema, undefined, [POST.RETRIEVE(id), ...POST_LISTS]),
+      like: (id: number) => mutate(POST.LIKE.CREATE(id), emptySchema, undefined, [POST.RETRIEVE(id), ...POST_LISTS]),
+      unlike: (id: number) => mutate(POST.LIKE.DELETE(id), emptySchema, undefined, [POST.RETRIEVE(id), ...POST_LISTS]),
+      comment: {
+        create: (postId: number, body: CommentRequestBody) =>
+          mutate(POST.COMMENT.CREATE(postId), emptySchema, body, [POST.RETRIEVE(postId), ...POST_LISTS]),
+        delete: (postId: number, commentId: number) =>
+          mutate(POST.COMMENT.DELETE(commentId), emptySchema, undefined, [POST.RETRIEVE(postId), ...POST_LISTS])
+      }
+    },
+    reservation: {
+      list: (year: number, month: number) => query(RESERVATION.LIST(year, month), z.array(reservationSchema)),
+      my: (year: number, month: number) => query(RESERVATION.MY(year, month), z.array(reservationSchema)),
+      waiting: () => query(RESERVATION.WAITING, z.array(reservationSchema)),
+      create: (body: ReservationRequestBody) => mutate(RESERVATION.CREATE, reservationSchema, body, [RESERVATIONS]),
+      update: (id: number, body: ReservationTimeRequestBody) =>
+        mutate(RESERVATION.UPDATE(id), reservationSchema, body, [RESERVATIONS]),
+      delete: (id: number) => mutate(RESERVATION.DELETE(id), emptySchema, undefined, [RESERVATIONS]),
+      accept: (id: number) => mutate(RESERVATION.ACCEPT(id), emptySchema, undefined, [RESERVATIONS]),
+      reject: (id: number) => mutate(RESERVATION.REJECT(id), emptySchema, undefined, [RESERVATIONS]),
+      bulkAccept: (body: ReservationBulkRequestBody) =>
+        mutate(RESERVATION.BULK_ACCEPT, emptySchema, body, [RESERVATIONS]),
+      bulkReject: (body: ReservationBulkRequestBody & ReservationRejectRequestBody) =>
+        mutate(RESERVATION.BULK_REJECT, emptySchema, body, [RESERVATIONS]),
+      series: {
+        create: (body: ReservationSeriesRequestBody) =>
+          mutate(RESERVATION.SERIES.CREATE, z.array(reservationSchema), body, [RESERVATIONS]),
+        accept: (seriesId: number) =>
+          mutate(RESERVATION.SERIES.ACCEPT(seriesId), emptySchema, undefined, [RESERVATIONS]),
+        reject: (seriesId: number, body: ReservationRejectRequestBody = {}) =>
+          mutate(RESERVATION.SERIES.REJECT(seriesId), emptySchema, body, [RESERVATIONS])
+      }
+    },
+    profile: {
+      retrieve: () => query(PROFILE.RETRIEVE, userProfileSchema),
+      update: (body: ProfileRequestBody) => mutate(PROFILE.UPDATE, userProfileSchema, body, [PROFILE.RETRIEVE]),
+      createdStudies: () => query(PROFILE.CREATED_STUDY, z.array(studySchema)),
+      joinedStudies: () => query(PROFILE.JOINED_STUDY, z.array(studyWithStateSchema)),
+      createdEvents: () => query(PROFILE.CREATED_EVENT, z.array(eventSchema)),
+      joinedEvents: () => query(PROFILE.JOINED_EVENT, z.array(eventWithStateSchema)),
+      memberships: () => query(PROFILE.MEMBERSHIPS, membershipSummarySchema),
+      attendance: () => query(PROFILE.ATTENDANCE, z.array(studyAttendanceSchema)),
+      certificates: () => query(PROFILE.CERTIFICATES, z.array(certificateSchema)),
+      calendarToken: () => query(PROFILE.CALENDAR_TOKEN, calendarTokenSchema),
+      reissueCalendarToken: () =>
+        mutate(PROFILE.REISSUE_CALENDAR_TOKEN, calendarTokenSchema, undefined, [PROFILE.CALENDAR_TOKEN])
+    },
+    calendar: {
+      feed: (token: string) => query(CALENDAR.FEED(token), calendarFeedSchema)
+    },
+    certificate: {
+      retrieve: (id: number) => query(CERTIFICATE.RETRIEVE(id), certificateSchema)
+    },
+    archive: {
+      list: () => query(ARCHIVE.LIST, archiveSchema)
+    },
+    staff: {
+      list: () => query(STAFF.LIST, z.array(userSchema))
+    },
+    // 조회는 누구나, 이름 변경/합치기는 관리자만 가능합니다.
+    tag: {
+      list: () => query(TAG.LIST, z.array(tagSchema)),
+      rename: (name: string, body: TagRenameRequestBody) =>
+        mutate(API_ENDPOINTS.ADMIN.TAG.RENAME(name), tagSchema, body, [TAG.LIST, STUDY.LIST, EVENT.LIST]),
+      merge: (body: TagMergeRequestBody) =>
+        mutate(API_ENDPOINTS.ADMIN.TAG.MERGE, tagSchema, body, [TAG.LIST, STUDY.LIST, EVENT.LIST])
+    },
+    // 조회는 누구나, 생성/수정/삭제는 관리자만 가능합니다.
+    semester: {
+      list: () => query(SEMESTER.LIST, z.array(semesterSchema)),
+      create: (body: SemesterRequestBody) =>
+        mutate(API_ENDPOINTS.ADMIN.SEMESTER.CREATE, semesterSchema, body, [SEMESTER.LIST]),
+      update: (id: number, body: SemesterRequestBody) =>
+        mutate(API_ENDPOINTS.ADMIN.SEMESTER.UPDATE(id), semesterSchema, body, [SEMESTER.LIST]),
+      delete: (id: number) => mutate(API_ENDPOINTS.ADMIN.SEMESTER.DELETE(id), emptySchema, undefined, [SEMESTER.LIST])
+    }
+  }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
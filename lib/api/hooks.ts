@@ -0,0 +1,95 @@
+'use client'
+
+import { DependencyList, useEffect, useRef, useState } from 'react'
+
+import { useSession } from '@/lib/auth/SessionProvider'
+import { CustomErrorDTO } from '@/lib/response'
+
+import { getQueryKey, subscribeQueryCache } from './cache'
+import { ApiClient, ApiResult, createApiClient } from './client'
+
+/**
+ * 세션 토큰을 자동으로 사용하는 API 클라이언트를 반환하는 Hook
+ * 세션이 갱신되면 새로운 클라이언트가 생성되어, 의존하는 `useEffect`가 다시 실행됩니다.
+ */
+export const useApiClient = () => {
+  const session = useSession()
+  const accessToken = session?.data?.accessToken
+  const [client, setClient] = useState(createApiClient)
+  const [clientToken, setClientToken] = useState(accessToken)
+
+  // 렌더링 중에 토큰이 바뀐 것을 확인해 바로 새 클라이언트로 교체합니다.
+  if (clientToken !== accessToken) {
+    setClientToken(accessToken)
+    setClient(createApiClient())
+  }
+  return client
+}
+
+/**
+ * 호출하는 쪽에서 넘긴 `deps` 중 하나라도 바뀌면 증가하는 값을 반환합니다.
+ * 개수가 정해지지 않은 `deps`를 `useEffect`의 의존성으로 사용하기 위해 사용합니다.
+ */
+const useDepsVersion = (deps: DependencyList) => {
+  const ref = useRef({ deps, version: 0 })
+  const { deps: prevDeps, version } = ref.current
+  if (prevDeps.length !== deps.length || prevDeps.some((dep, index) => !Object.is(dep, deps[index]))) {
+    ref.current = { deps, version: version + 1 }
+  }
+  return ref.current.version
+}
+
+/**
+ * 쿼리 캐시를 구독하는 조회용 Hook
+ * 캐시된 데이터가 있으면 바로 보여주고, 조회한 키의 캐시가 백그라운드 갱신이나 무효화로 바뀌면 다시 조회합니다.
+ * `deps`가 바뀌어 다른 키를 조회하면 이전 결과를 지우고 로딩 상태로 돌아갑니다.
+ * `fetcher`가 `null`을 반환하면 (ex. 세션을 불러오기 전) 요청하지 않고 로딩 상태를 유지합니다.
+ *
+ * @example
+   ```ts
+   const { data: studies, isLoading } = useApiQuery((client) => client.study.list(), [])
+   ```
+ */
+export const useApiQuery = <T>(fetcher: (client: ApiClient) => Promise<ApiResult<T>> | null, deps: DependencyList) => {
+  const client = useApiClient()
+  const [data, setData] = useState<T | null>(null)
+  const [error, setError] = useState<CustomErrorDTO | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const fetcherRef = useRef(fetcher)
+  fetcherRef.current = fetcher
+  const keyRef = useRef<string | null>(null)
+  const depsVersion = useDepsVersion(deps)
+
+  useEffect(() => {
+    let ignore = false
+    const apply = (result: ApiResult<T>) => {
+      if (ignore) return
+      setData(result.data)
+      setError(result.error)
+      setIsLoading(false)
+    }
+
+    const promise = fetcherRef.current(client)
+    const key = (promise && getQueryKey(promise)) ?? null
+    if (key !== keyRef.current) {
+      keyRef.current = key
+      setData(null)
+      setError(null)
+      setIsLoading(true)
+    }
+    if (!promise) {
+      return () => {
+        ignore = true
+      }
+    }
+
+    promise.then(apply)
+    const unsubscribe = key ? subscribeQueryCache(key, () => fetcherRef.current(client)?.then(apply)) : undefined
+    return () => {
+      ignore = true
+      unsubscribe?.()
+    }
+  }, [client, depsVersion])
+
+  return { data, error, isLoading, setData }
+}
@@ -0,0 +1,326 @@
+import { z } from 'zod'
+
+import {
+  ApplicationAnswer,
+  ApplicationQuestion,
+  Archive,
+  AttendanceSession,
+  CalendarFeed,
+  Certificate,
+  Comment,
+  CurriculumWeek,
+  Event,
+  EventWithState,
+  Member,
+  MembershipSummary,
+  Post,
+  Reservation,
+  Semester,
+  SessionLog,
+  Study,
+  StudyApplication,
+  StudyAttendance,
+  StudyWithState,
+  Tag,
+  User,
+  UserProfile
+} from '@/types'
+
+/**
+ * 백엔드 응답의 `data` 필드를 검증하기 위한 스키마 입니다.
+ * 각 스키마의 출력 타입은 `@/types`에 정의된 타입과 일치해야 하며,
+ * 백엔드가 `null`로 내려주는 선택 필드는 `undefined`로 정규화합니다.
+ */
+type ResponseSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>
+
+const optionalString = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? undefined)
+
+// 시간 미정인 스터디는 시간이 `null`로 내려오므로 빈 문자열로 정규화합니다.
+const timeString = z
+  .string()
+  .nullish()
+  .transform((value) => value ?? '')
+
+export const roleSchema = z.enum(['ROLE_MEMBER', 'ROLE_VERIFIED', 'ROLE_ADMIN'])
+export const joinStateSchema = z.enum(['Accept', 'Wait', 'Reject'])
+
+export const userSchema: ResponseSchema<User> = z.object({
+  id: z.number(),
+  username: z.string(),
+  email: z.string(),
+  phoneNumber: z.string(),
+  studentId: z.string(),
+  position: z.string(),
+  isStaff: z.boolean().default(false),
+  role: roleSchema.default('ROLE_MEMBER'),
+  bio: optionalString,
+  blog: optionalString,
+  github: optionalString,
+  profileImage: optionalString,
+  createdDate: optionalString,
+  modifiedDate: optionalString
+})
+
+export const userProfileSchema: ResponseSchema<UserProfile> = z.object({
+  id: z.number(),
+  username: z.string(),
+  email: z.string(),
+  phoneNumber: z.string(),
+  studentId: z.string(),
+  position: z.string(),
+  bio: optionalString,
+  blog: optionalString,
+  github: optionalString,
+  profileImage: optionalString
+})
+
+export const applicationQuestionSchema: ResponseSchema<ApplicationQuestion> = z.object({
+  id: z.string(),
+  type: z.enum(['SHORT_TEXT', 'LONG_TEXT', 'SINGLE_CHOICE', 'MULTIPLE_CHOICE', 'GITHUB']),
+  title: z.string(),
+  required: z.boolean().default(false),
+  options: z
+    .array(z.string())
+    .nullish()
+    .transform((options) => options ?? [])
+})
+
+export const applicationAnswerSchema: ResponseSchema<ApplicationAnswer> = z.object({
+  questionId: z.string(),
+  value: z.union([z.string(), z.array(z.string())])
+})
+
+export const studyApplicationSchema: ResponseSchema<StudyApplication> = z.object({
+  studyId: z.number(),
+  state: joinStateSchema,
+  answers: z
+    .array(applicationAnswerSchema)
+    .nullish()
+    .transform((answers) => answers ?? []),
+  createdAt: z.string(),
+  editedAt: optionalString
+})
+
+export const memberSchema: ResponseSchema<Member> = z.intersection(
+  userSchema,
+  z.object({
+    joinState: joinStateSchema,
+    answers: z
+      .array(applicationAnswerSchema)
+      .nullish()
+      .transform((answers) => answers ?? undefined),
+    appliedAt: optionalString
+  })
+)
+
+export const curriculumWeekSchema: ResponseSchema<CurriculumWeek> = z.object({
+  week: z.number(),
+  title: z.string(),
+  description: z
+    .string()
+    .nullish()
+    .transform((description) => description ?? '')
+})
+
+export const studySchema: ResponseSchema<Study> = z.object({
+  id: z.number(),
+  title: z.string(),
+  description: z.string(),
+  imageSrc: z.string(),
+  mentor: userSchema,
+  campus: z.enum(['공통', '온라인', '명륜', '율전']),
+  day: z.enum(['월', '화', '수', '목', '금', '토', '일']),
+  level: z.enum(['초급', '중급', '고급']),
+  startTime: timeString,
+  endTime: timeString,
+  semester: z.string(),
+  year: z
+    .number()
+    .nullish()
+    .transform((year) => year ?? undefined),
+  isRecruiting: z.boolean(),
+  tags: z
+    .array(z.string())
+    .nullish()
+    .transform((tags) => tags ?? []),
+  applicationQuestions: z
+    .array(applicationQuestionSchema)
+    .nullish()
+    .transform((questions) => questions ?? []),
+  maxMembers: z
+    .number()
+    .nullish()
+    .transform((maxMembers) => maxMembers ?? null),
+  curriculum: z
+    .array(curriculumWeekSchema)
+    .nullish()
+    .transform((curriculum) => curriculum ?? []),
+  memberCount: z
+    .number()
+    .nullish()
+    .transform((count) => count ?? undefined),
+  closedAt: z
+    .string()
+    .nullish()
+    .transform((closedAt) => closedAt ?? null)
+})
+
+export const studyWithStateSchema: ResponseSchema<StudyWithState> = z.object({
+  study: studySchema,
+  state: joinStateSchema
+})
+
+export const eventSchema: ResponseSchema<Event> = z.object({
+  id: z.number(),
+  title: z.string(),
+  description: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+  location: z.string(),
+  imageSrc: z.string(),
+  isRecruiting: z.boolean(),
+  semester: z.string(),
+  year: z.number(),
+  organizer: userSchema.nullish().transform((organizer) => organizer ?? undefined),
+  createdAt: optionalString,
+  updatedAt: optionalString,
+  tags: z
+    .array(z.string())
+    .nullish()
+    .transform((tags) => tags ?? [])
+})
+
+export const eventWithStateSchema: ResponseSchema<EventWithState> = z.object({
+  event: eventSchema,
+  state: joinStateSchema
+})
+
+export const membershipSummarySchema: ResponseSchema<MembershipSummary> = z.object({
+  studies: z.array(z.object({ studyId: z.number(), state: joinStateSchema })),
+  events: z.array(z.object({ eventId: z.number(), state: joinStateSchema }))
+})
+
+export const commentSchema: ResponseSchema<Comment> = z.object({
+  id: z.number(),
+  postId: z.number(),
+  content: z.string(),
+  author: userSchema
+})
+
+export const postSchema: ResponseSchema<Post> = z.object({
+  id: z.number(),
+  groupId: z.number(),
+  groupType: z.enum(['STUDY', 'EVENT']),
+  title: z.string(),
+  content: z.string(),
+  author: userSchema,
+  imageSrc: z.string().nullable(),
+  likeCount: z.number(),
+  comments: z
+    .array(commentSchema)
+    .nullish()
+    .transform((comments) => comments ?? [])
+})
+
+export const reservationSchema: ResponseSchema<Reservation> = z.object({
+  id: z.number(),
+  studyId: z.number(),
+  startTime: z.string(),
+  endTime: z.string(),
+  reserver: userSchema,
+  title: z.string(),
+  description: z.string(),
+  isVerified: z.enum(['WAIT', 'ACCEPT', 'DECLINE']),
+  seriesId: z.number().nullish()
+})
+
+export const calendarFeedSchema: ResponseSchema<CalendarFeed> = z.object({
+  reservations: z.array(reservationSchema),
+  studies: z.array(studyWithStateSchema),
+  events: z.array(eventWithStateSchema)
+})
+
+export const archiveSchema: ResponseSchema<Archive> = z.object({
+  studies: z.array(studySchema),
+  events: z.array(eventSchema)
+})
+
+export const sessionLogSchema: ResponseSchema<SessionLog> = z.object({
+  id: z.number(),
+  week: z
+    .number()
+    .nullish()
+    .transform((week) => week ?? undefined),
+  date: z.string(),
+  topic: z.string(),
+  content: z.string(),
+  materials: z
+    .array(z.string())
+    .nullish()
+    .transform((materials) => materials ?? []),
+  homework: z
+    .string()
+    .nullish()
+    .transform((homework) => homework ?? ''),
+  createdAt: optionalString
+})
+
+export const attendanceStatusSchema = z.enum(['PRESENT', 'LATE', 'ABSENT'])
+
+export const attendanceSessionSchema: ResponseSchema<AttendanceSession> = z.object({
+  date: z.string(),
+  records: z.array(z.object({ userId: z.number(), status: attendanceStatusSchema }))
+})
+
+export const studyAttendanceSchema: ResponseSchema<StudyAttendance> = z.object({
+  studyId: z.number(),
+  records: z.array(z.object({ date: z.string(), status: attendanceStatusSchema }))
+})
+
+export const certificateSchema: ResponseSchema<Certificate> = z.object({
+  id: z.number(),
+  studyId: z.number(),
+  studyTitle: z.string(),
+  mentorName: z.string(),
+  username: z.string(),
+  studentId: z.string(),
+  year: z.number(),
+  semester: z.string(),
+  hours: z.number(),
+  issuedAt: z.string()
+})
+
+export const tagSchema: ResponseSchema<Tag> = z.object({
+  name: z.string(),
+  aliases: z
+    .array(z.string())
+    .nullish()
+    .transform((aliases) => aliases ?? []),
+  studyCount: z.number().default(0),
+  eventCount: z.number().default(0)
+})
+
+const periodSchema = z.object({ start: z.string(), end: z.string() })
+
+export const semesterSchema: ResponseSchema<Semester> = z.object({
+  id: z.number(),
+  year: z.number(),
+  semester: z.string(),
+  openingPeriod: periodSchema,
+  applicationPeriod: periodSchema,
+  activityPeriod: periodSchema
+})
+
+export const calendarTokenSchema = z.object({ token: z.string() })
+
+/**
+ * 응답 본문을 사용하지 않는 요청(참여, 삭제 등)에 사용합니다.
+ */
+export const emptySchema: ResponseSchema<unknown> = z.unknown()
+
+export type { ResponseSchema }
@@ -0,0 +1,139 @@
+import { z } from 'zod'
+
+import { ApplicationAnswer, ApplicationQuestion, ApplicationQuestionType } from '@/types'
+
+/**
+ * 스터디 신청서 문항을 정의하고, 문항 정의로부터 신청서 검증 스키마를 만듭니다.
+ * - 스터디장: 스터디 개설 시 `applicationQuestionsSchema`로 문항 정의를 검증합니다.
+ * - 신청자: `createApplicationSchema`로 만든 스키마로 답변을 검증합니다. 폼 값은 문항 id를 키로 사용합니다.
+ */
+export const APPLICATION_QUESTION_TYPES: Record<ApplicationQuestionType, string> = {
+  SHORT_TEXT: '단답형',
+  LONG_TEXT: '서술형',
+  SINGLE_CHOICE: '객관식 (하나 선택)',
+  MULTIPLE_CHOICE: '객관식 (여러 개 선택)',
+  GITHUB: 'GitHub 주소'
+}
+
+export const MAX_APPLICATION_QUESTIONS = 10
+export const MAX_SHORT_TEXT_LENGTH = 100
+export const MAX_LONG_TEXT_LENGTH = 300
+
+// ex) github.com/skku-comit, https://github.com/skku-comit/comit-website
+const GITHUB_URL = /^(https?:\/\/)?(www\.)?github\.com\/[A-Za-z0-9-]+(\/[\w.-]+)?\/?$/
+
+/**
+ * 스터디장이 문항을 정하지 않은 스터디의 신청서 입니다.
+ */
+export const DEFAULT_APPLICATION_QUESTIONS: ApplicationQuestion[] = [
+  { id: 'motivation', type: 'LONG_TEXT', title: '지원 동기', required: true, options: [] }
+]
+
+export const isChoiceQuestion = ({ type }: Pick<ApplicationQuestion, 'type'>) =>
+  type === 'SINGLE_CHOICE' || type === 'MULTIPLE_CHOICE'
+
+// 응답 스키마를 거치지 않은 스터디는 `applicationQuestions`가 없을 수 있습니다.
+export const getApplicationQuestions = ({ applicationQuestions }: { applicationQuestions?: ApplicationQuestion[] }) =>
+  applicationQuestions?.length ? applicationQuestions : DEFAULT_APPLICATION_QUESTIONS
+
+export const createApplicationQuestion = (type: ApplicationQuestionType = 'SHORT_TEXT'): ApplicationQuestion => ({
+  id: Math.random().toString(36).slice(2, 10),
+  type,
+  title: '',
+  required: true,
+  options: isChoiceQuestion({ type }) ? ['', ''] : []
+})
+
+export const applicationQuestionsSchema = z
+  .array(
+    z
+      .object({
+        id: z.string(),
+        type: z.enum(['SHORT_TEXT', 'LONG_TEXT', 'SINGLE_CHOICE', 'MULTIPLE_CHOICE', 'GITHUB']),
+        title: z.string().trim().min(1, { message: '문항 제목을 입력해주세요' }).max(100, { message: '100자 이내' }),
+        required: z.boolean(),
+        options: z.array(z.string().trim())
+      })
+      .superRefine((question, ctx) => {
+        if (!isChoiceQuestion(question)) return
+        const options = question.options.filter(Boolean)
+        if (options.length < 2) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: '보기를 2개 이상 입력해주세요' })
+        } else if (new Set(options).size !== options.length) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: '중복된 보기가 있습니다' })
+        }
+      })
+  )
+  .max(MAX_APPLICATION_QUESTIONS, { message: `문항은 최대 ${MAX_APPLICATION_QUESTIONS}개까지 추가할 수 있습니다` })
+
+/**
+ * 스터디장이 입력한 문항에서 빈 보기를 지우고, 선택형이 아닌 문항의 보기를 비웁니다.
+ */
+export const normalizeApplicationQuestions = (questions: ApplicationQuestion[]) =>
+  questions.map((question) => ({
+    ...question,
+    title: question.title.trim(),
+    options: isChoiceQuestion(question) ? question.options.map((option) => option.trim()).filter(Boolean) : []
+  }))
+
+function createAnswerSchema(question: ApplicationQuestion) {
+  const requiredMessage = `'${question.title}' 항목을 입력해주세요`
+
+  switch (question.type) {
+    case 'MULTIPLE_CHOICE': {
+      const schema = z.array(z.enum(question.options as [string, ...string[]]))
+      return question.required
+        ? schema.min(1, { message: `'${question.title}' 항목을 하나 이상 선택해주세요` })
+        : schema
+    }
+    case 'SINGLE_CHOICE': {
+      const schema = z.enum(question.options as [string, ...string[]], {
+        errorMap: () => ({ message: `'${question.title}' 항목을 선택해주세요` })
+      })
+      return question.required ? schema : schema.or(z.literal(''))
+    }
+    case 'GITHUB': {
+      const schema = z
+        .string()
+        .trim()
+        .regex(GITHUB_URL, { message: 'GitHub 주소를 확인해주세요 (ex. github.com/username)' })
+      return question.required ? schema : schema.or(z.literal(''))
+    }
+    default: {
+      const maxLength = question.type === 'LONG_TEXT' ? MAX_LONG_TEXT_LENGTH : MAX_SHORT_TEXT_LENGTH
+      const schema = z
+        .string()
+        .trim()
+        .max(maxLength, { message: `${maxLength}자 이내로 입력해주세요` })
+      return question.required ? schema.min(1, { message: requiredMessage }) : schema
+    }
+  }
+}
+
+export const createApplicationSchema = (questions: ApplicationQuestion[]) =>
+  z.object(Object.fromEntries(questions.map((question) => [question.id, createAnswerSchema(question)])))
+
+export type ApplicationFormValues = Record<string, string | string[]>
+
+export const getDefaultApplicationValues = (
+  questions: ApplicationQuestion[],
+  answers: ApplicationAnswer[] = []
+): ApplicationFormValues =>
+  Object.fromEntries(
+    questions.map((question) => [
+      question.id,
+      answers.find(({ questionId }) => questionId === question.id)?.value ??
+        (question.type === 'MULTIPLE_CHOICE' ? [] : '')
+    ])
+  )
+
+/**
+ * 폼 값을 요청 본문의 답변 목록으로 변환합니다. 답하지 않은 선택 문항은 제외합니다.
+ */
+export const toApplicationAnswers = (questions: ApplicationQuestion[], values: ApplicationFormValues) =>
+  questions
+    .map((question) => ({ questionId: question.id, value: values[question.id] ?? '' }))
+    .filter(({ value }) => value.length > 0)
+
+export const formatApplicationAnswer = ({ value }: ApplicationAnswer) =>
+  Array.isArray(value) ? value.join(', ') : value
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+
+import { groupBySemester } from '@/lib/archive'
+
+describe('lib/archive', () => {
+  test('groupBySemester는 최근 학기부터, 같은 연도에서는 늦은 학기부터 정렬합니다', () => {
+    const groups = groupBySemester([
+      { id: 1, year: 2024, semester: 'Spring' },
+      { id: 2, year: 2024, semester: 'Winter' },
+      { id: 3, year: 2025, semester: 'Spring' },
+      { id: 4, year: 2024, semester: 'Fall' },
+      { id: 5, year: 2024, semester: 'Summer' }
+    ])
+    assert.deepEqual(
+      groups.map(({ key }) => key),
+      ['2025-Spring', '2024-Winter', '2024-Fall', '2024-Summer', '2024-Spring']
+    )
+  })
+
+  test('알 수 없는 학기는 같은 연도의 학기 중 가장 뒤에 이름순으로 옵니다', () => {
+    const groups = groupBySemester([
+      { id: 1, year: 2024, semester: 'Spring' },
+      { id: 2, year: 2024, semester: 'Intensive' },
+      { id: 3, year: 2024, semester: 'Fall' },
+      { id: 4, year: 2024, semester: 'Bootcamp' }
+    ])
+    assert.deepEqual(
+      groups.map(({ key }) => key),
+      ['2024-Fall', '2024-Spring', '2024-Bootcamp', '2024-Intensive']
+    )
+  })
+
+  test('연도가 없는 학기는 연도가 있는 학기보다 뒤에 오며, 같은 학기의 항목은 최신순입니다', () => {
+    const groups = groupBySemester([
+      { id: 1, semester: 'Fall' },
+      { id: 2, year: 2023, semester: 'Spring' },
+      { id: 3, semester: 'Fall' }
+    ])
+    assert.deepEqual(
+      groups.map(({ key, items }) => [key, items.map(({ id }) => id)]),
+      [
+        ['2023-Spring', [2]],
+        ['-Fall', [3, 1]]
+      ]
+    )
+  })
+})
@@ -0,0 +1,76 @@
+import { formatSemester, SEMESTER_TERMS } from '@/lib/semester'
+import { Archive, Post } from '@/types'
+
+/**
+ * 모집이 끝난 지난 스터디, 행사를 학기별로 묶습니다. (ex. 아카이브 페이지, 메인 페이지의 소개 수치)
+ * 연도가 없는 스터디는 같은 이름의 학기끼리 묶여 연도가 있는 학기보다 뒤에 옵니다.
+ */
+type SemesterItem = { id: number; year?: number; semester: string }
+
+export interface ArchiveGroup<T> {
+  key: string
+  // `formatSemester`로 표시한 학기 (ex. 2024년 2학기)
+  label: string
+  items: T[]
+}
+
+// 학기는 `SEMESTER_TERMS`에 정의된 순서(1학기 → 겨울학기)를 따릅니다.
+const TERM_ORDER = Object.keys(SEMESTER_TERMS)
+
+// 같은 연도에서는 늦은 학기가 먼저 오도록 정렬합니다. 알 수 없는 학기는 이름순으로 가장 뒤에 옵니다.
+const compareTerm = (a: string, b: string) => {
+  const indexA = TERM_ORDER.indexOf(a)
+  const indexB = TERM_ORDER.indexOf(b)
+  if (indexA === -1 || indexB === -1) {
+    return indexA === indexB ? a.localeCompare(b) : indexA === -1 ? 1 : -1
+  }
+  return indexB - indexA
+}
+
+const compareSemester = (a: Omit<SemesterItem, 'id'>, b: Omit<SemesterItem, 'id'>) =>
+  (b.year ?? 0) - (a.year ?? 0) || compareTerm(a.semester, b.semester)
+
+export function groupBySemester<T extends SemesterItem>(items: T[]): ArchiveGroup<T>[] {
+  const groups = new Map<string, T[]>()
+  items.forEach((item) => {
+    const key = `${item.year ?? ''}-${item.semester}`
+    groups.set(key, [...(groups.get(key) ?? []), item])
+  })
+
+  return Array.from(groups.entries())
+    .map(([key, items]) => ({
+      key,
+      label: formatSemester(items[0]),
+      items: [...items].sort((a, b) => b.id - a.id)
+    }))
+    .sort((a, b) => compareSemester(a.items[0], b.items[0]))
+}
+
+/**
+ * 게시판의 게시글을 스터디(또는 행사) id 별로 묶습니다. 최신 게시글이 먼저 옵니다.
+ */
+export function groupPostsByGroup(posts: Post[]) {
+  const groups = new Map<number, Post[]>()
+  const sortedPosts = [...posts].sort((a, b) => b.id - a.id)
+  sortedPosts.forEach((post) => groups.set(post.groupId, [...(groups.get(post.groupId) ?? []), post]))
+  return groups
+}
+
+export interface ArchiveSummary {
+  studyCount: number
+  eventCount: number
+  // 지난 스터디에 참여했던 멤버 수의 합 (한 멤버가 여러 스터디에 참여하면 각각 셉니다)
+  memberCount: number
+  // 학기당 평균 스터디 개설 수 (반올림)
+  averageStudyCount: number
+}
+
+export function summarizeArchive({ studies, events }: Archive): ArchiveSummary {
+  const semesterCount = groupBySemester(studies).length
+  return {
+    studyCount: studies.length,
+    eventCount: events.length,
+    memberCount: studies.reduce((sum, { memberCount }) => sum + (memberCount ?? 0), 0),
+    averageStudyCount: semesterCount ? Math.round(studies.length / semesterCount) : 0
+  }
+}
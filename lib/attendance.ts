@@ -0,0 +1,68 @@
+import { formatKst } from '@/lib/date'
+import { createWeeklyOccurrences } from '@/lib/reservation'
+import { AttendanceSession, AttendanceStatus, Period, Study } from '@/types'
+
+/**
+ * 스터디 회차별 출석을 다룹니다.
+ * 회차는 스터디의 요일로 학기 활동 기간 동안 매주 만들어지며, 출석을 기록한 회차만 서버에 저장됩니다.
+ * 출석률은 수료증 발급과 다음 학기 신청 우선순위에 사용됩니다.
+ */
+export const ATTENDANCE_STATUSES: Record<AttendanceStatus, string> = {
+  PRESENT: '출석',
+  LATE: '지각',
+  ABSENT: '결석'
+}
+
+export interface AttendanceSummary {
+  present: number
+  late: number
+  absent: number
+  total: number
+  // 출석 + 지각 / 기록된 회차, 기록이 없으면 `null`
+  rate: number | null
+}
+
+/**
+ * 학기 활동 기간 중 오늘까지 진행된 회차의 날짜(`yyyy-MM-dd`)를 만듭니다.
+ * 일정이 바뀌어 요일이 달라진 회차도 보이도록, 이미 기록된 회차의 날짜를 함께 포함합니다.
+ */
+export function createSessionDates(
+  { day, startTime, endTime }: Pick<Study, 'day' | 'startTime' | 'endTime'>,
+  activityPeriod: Period | undefined,
+  sessions: AttendanceSession[],
+  now = new Date()
+) {
+  const today = formatKst(now, 'yyyy-MM-dd')
+  // 시간 미정인 스터디도 날짜는 만들 수 있도록 임의의 시간을 사용합니다.
+  const scheduled = activityPeriod
+    ? createWeeklyOccurrences(
+        { day, startTime: startTime || '00:00', endTime: endTime || '00:00' },
+        activityPeriod.start,
+        activityPeriod.end < today ? activityPeriod.end : today
+      ).map(({ start }) => formatKst(start, 'yyyy-MM-dd'))
+    : []
+
+  return Array.from(new Set([...scheduled, ...sessions.map(({ date }) => date)])).sort()
+}
+
+export function summarizeAttendance(statuses: AttendanceStatus[]): AttendanceSummary {
+  const count = (status: AttendanceStatus) => statuses.filter((current) => current === status).length
+  const present = count('PRESENT')
+  const late = count('LATE')
+  return {
+    present,
+    late,
+    absent: count('ABSENT'),
+    total: statuses.length,
+    rate: statuses.length > 0 ? (present + late) / statuses.length : null
+  }
+}
+
+/**
+ * 멤버의 모든 회차 출석 상태를 모읍니다. 기록되지 않은 회차는 제외합니다.
+ */
+export const getMemberStatuses = (sessions: AttendanceSession[], userId: number) =>
+  sessions.flatMap(({ records }) => records.filter((record) => record.userId === userId).map(({ status }) => status))
+
+export const formatAttendanceRate = ({ rate }: AttendanceSummary) =>
+  rate === null ? '기록 없음' : `${Math.round(rate * 100)}%`
@@ -1,8 +1,18 @@
 'use client'
 import { usePathname } from 'next/navigation'
 import { getSession } from 'next-auth/react'
-import { createContext, useContext, useEffect, useState } from 'react'
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react'
 
+import { clearQueryCache } from '@/lib/api/cache'
+import {
+  expireSession,
+  hasUnsavedDrafts,
+  reissueAccessToken,
+  setAccessToken,
+  subscribeSessionBroadcast,
+  warnDraftLoss
+} from '@/lib/auth/token'
+import { getAccessTokenExpiry } from '@/lib/auth/utils'
 import { AuthDataData, AuthDataError } from '@/types/auth'
 
 type SuccessAuthData = { error: null; data: AuthDataData }
@@ -10,25 +20,71 @@ type FailAuthData = { error: AuthDataError; data: null }
 
 const SessionContent = createContext<SuccessAuthData | FailAuthData | null>(null)
 
+const REFRESH_MARGIN = 60 * 1000 // 액세스 토큰 만료 1분 전에 미리 재발급
+
 export const SessionProvider = ({ children }: { children: React.ReactNode }) => {
   const pathname = usePathname()
   const [session, setSession] = useState<SuccessAuthData | FailAuthData | null>(null) // error, data 둘 중 하나만 존재할 수 있음
+  const usernameRef = useRef<string | null>(null)
+
+  const loadSession = useCallback(async () => {
+    const res = await getSession()
+    setAccessToken(res?.data?.accessToken ?? null)
+    // 다른 사용자의 응답이 남아있지 않도록 로그인한 사용자가 바뀌면 쿼리 캐시를 비움
+    const username = res?.data?.username ?? null
+    if (usernameRef.current !== username) {
+      usernameRef.current = username
+      clearQueryCache()
+    }
+    if (!res) return setSession(null)
+    if (res.error) {
+      setSession({ error: res.error, data: null } as FailAuthData)
+    } else if (res.data) {
+      return setSession({
+        error: null,
+        data: res.data
+      } as SuccessAuthData)
+    } else {
+      setSession(null)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSession()
+  }, [pathname, loadSession]) // 페이지를 이동할 때마다 세션을 갱신
 
+  // 다른 탭에서 토큰을 재발급하거나 로그아웃한 경우 세션을 다시 불러옴
   useEffect(() => {
-    getSession().then((res) => {
-      if (!res) return setSession(null)
-      if (res.error) {
-        setSession({ error: res.error, data: null } as FailAuthData)
-      } else if (res.data) {
-        return setSession({
-          error: null,
-          data: res.data
-        } as SuccessAuthData)
-      } else {
-        setSession(null)
+    return subscribeSessionBroadcast((message) => {
+      if (message === 'logout' && hasUnsavedDrafts()) {
+        warnDraftLoss()
       }
+      loadSession()
     })
-  }, [pathname]) // 페이지를 이동할 때마다 세션을 갱신
+  }, [loadSession])
+
+  // 한 페이지에 오래 머무르는 경우(예약 캘린더, 게시글 작성 등)에도 토큰이 만료되지 않도록 미리 재발급
+  const accessToken = session?.data?.accessToken
+  useEffect(() => {
+    if (!accessToken) return
+
+    const delay = Math.max(getAccessTokenExpiry(accessToken) - Date.now() - REFRESH_MARGIN, 0)
+    const timer = setTimeout(async () => {
+      // 다른 탭에서 이미 재발급한 경우 새 토큰만 불러옴
+      const latest = await getSession()
+      if (latest?.data?.accessToken && latest.data.accessToken !== accessToken) {
+        return loadSession()
+      }
+
+      const reissuedAccessToken = await reissueAccessToken()
+      if (!reissuedAccessToken) {
+        return expireSession()
+      }
+      loadSession()
+    }, delay)
+    return () => clearTimeout(timer)
+  }, [accessToken, loadSession])
+
   return <SessionContent.Provider value={session}>{children}</SessionContent.Provider>
 }
 
@@ -41,15 +41,18 @@ const authOptions: NextAuthConfig = {
     })
   ],
   callbacks: {
-    jwt: async ({ token, user }) => {
+    jwt: async ({ token, user, trigger, session }) => {
       // 토큰 없는 상태(로그인 X)에서 로그인 시도
       if (user && user.data?.username) {
         return {
           data: {
+            id: user.data.id,
             username: user.data.username,
             image: user.data.image,
             email: user.data.email,
             role: user.data.role,
+            isStaff: user.data.isStaff,
+            position: user.data.position,
             accessToken: user.data.accessToken,
             refreshToken: user.data.refreshToken
           },
@@ -60,6 +63,11 @@ const authOptions: NextAuthConfig = {
       // 토큰에 데이터가 없음(토큰 손상됨) -> 로그아웃
       if (!token.data) return null
 
+      // 클라이언트가 401을 받고 재발급을 요청한 경우(`lib/auth/token.ts`), 만료 여부와 관계없이 재발급
+      if (trigger === 'update' && session?.reissue) {
+        return await refreshAccessToken(token.data.refreshToken)
+      }
+
       if (!isAccessTokenExpired(token.data.accessToken)) {
         return token
       }
@@ -110,10 +118,13 @@ async function refreshAccessToken(refreshToken: string) {
 
   return {
     data: {
+      id: data.id,
       username: data.username,
       image: data.image,
       email: data.email,
       role: data.role,
+      isStaff: data.isStaff ?? false,
+      position: data.position ?? '',
       accessToken: newAccessToken,
       refreshToken: newRefreshToken
     },
@@ -166,10 +177,13 @@ async function _signIn(
   return {
     error: null,
     data: {
+      id: data.id,
       username: data.username,
       image: data.image,
       email: data.email,
       role: data.role,
+      isStaff: data.isStaff ?? false,
+      position: data.position ?? '',
       accessToken: accessToken,
       refreshToken: refreshToken
     }
@@ -0,0 +1,61 @@
+'use client'
+
+import { useEffect, useMemo } from 'react'
+
+import { hasPermission, hasRole, Permission } from './permissions'
+import { useSession } from './SessionProvider'
+import { registerUnsavedDraft } from './token'
+
+/**
+ * 현재 세션의 사용자 정보와 권한을 반환하는 Hook
+ * 운영진 여부는 로그인/토큰 재발급 시 세션에 저장된 값을 사용하므로 별도의 요청이 필요하지 않습니다.
+ *
+ * @example
+   ```ts
+   const { isStaff, can } = usePermissions()
+   if (can('ROLE_VERIFIED')) { ... }
+   ```
+ */
+export const usePermissions = () => {
+  const session = useSession()
+  const data = session?.data ?? null
+
+  return useMemo(
+    () => ({
+      isLoading: session === null,
+      isLoggedIn: !!data?.accessToken,
+      userId: data?.id ?? null,
+      username: data?.username ?? null,
+      role: data?.role ?? null,
+      position: data?.position ?? null,
+      isStaff: hasPermission({ role: data?.role, isStaff: data?.isStaff }, 'STAFF'),
+      isVerified: hasRole(data?.role, 'ROLE_VERIFIED'),
+      isAdmin: hasRole(data?.role, 'ROLE_ADMIN'),
+      can: (permission: Permission) => hasPermission({ role: data?.role, isStaff: data?.isStaff }, permission)
+    }),
+    [session, data]
+  )
+}
+
+/**
+ * 작성 중인 내용이 있을 때 페이지를 벗어나거나 로그인이 만료되어 내용이 사라지지 않도록 경고하는 Hook
+ * - 새로고침, 탭 닫기 시 브라우저 확인 창을 띄웁니다.
+ * - 토큰 재발급에 실패하면 바로 로그아웃하지 않고 경고 토스트를 띄웁니다. (`expireSession` 참고)
+ * @param isDirty 작성 중인 내용이 있는지 여부
+ */
+export const useDraftGuard = (isDirty: boolean) => {
+  useEffect(() => {
+    if (!isDirty) return
+
+    const unregister = registerUnsavedDraft()
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault()
+      e.returnValue = ''
+    }
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => {
+      unregister()
+      window.removeEventListener('beforeunload', handleBeforeUnload)
+    }
+  }, [isDirty])
+}
@@ -0,0 +1,73 @@
+import { Route, ROUTES } from '@/constants/routes'
+import { Role } from '@/types'
+
+/**
+ * 페이지 접근에 필요한 권한
+ * - `Role`: 해당 역할 이상이어야 접근 가능 (ROLE_MEMBER < ROLE_VERIFIED < ROLE_ADMIN)
+ * - `STAFF`: 운영진 또는 관리자만 접근 가능
+ */
+export type Permission = Role | 'STAFF'
+
+export interface RoutePermission {
+  route: Route
+  permission: Permission
+  // `true`면 하위 경로까지 같은 권한을 요구합니다.
+  includeSubPaths?: boolean
+}
+
+const ROLE_LEVEL: Record<Role, number> = {
+  ROLE_MEMBER: 0,
+  ROLE_VERIFIED: 1,
+  ROLE_ADMIN: 2
+}
+
+/**
+ * 경로별로 필요한 권한 입니다. 위에서부터 순서대로 검사하며, 처음으로 일치하는 항목을 사용합니다.
+ * `middleware.ts`의 `matcher`에도 같은 경로가 등록되어 있어야 합니다.
+ */
+export const ROUTE_PERMISSIONS: RoutePermission[] = [
+  { route: ROUTES.ADMIN.DASHBOARD, permission: 'ROLE_ADMIN', includeSubPaths: true },
+  { route: ROUTES.STUDY.OPEN, permission: 'ROLE_VERIFIED' },
+  { route: ROUTES.STUDY.SIGNUP('[id]'), permission: 'ROLE_MEMBER' },
+  { route: ROUTES.EVENT.OPEN, permission: 'STAFF' },
+  { route: ROUTES.CLUBROOM_STATISTICS, permission: 'STAFF' },
+  { route: ROUTES.MYSTUDY, permission: 'ROLE_MEMBER', includeSubPaths: true },
+  { route: ROUTES.PROFILE, permission: 'ROLE_MEMBER', includeSubPaths: true },
+  { route: ROUTES.CERTIFICATE('[id]'), permission: 'ROLE_MEMBER' }
+]
+
+export const PERMISSION_DESCRIPTIONS: Record<Permission, string> = {
+  ROLE_MEMBER: '로그인한 회원만 이용할 수 있습니다.',
+  ROLE_VERIFIED: '운영진의 승인을 받은 정회원만 이용할 수 있습니다.',
+  ROLE_ADMIN: '관리자만 이용할 수 있습니다.',
+  STAFF: '운영진만 이용할 수 있습니다.'
+}
+
+export const isPermission = (value: string | null | undefined): value is Permission =>
+  !!value && value in PERMISSION_DESCRIPTIONS
+
+// `[id]`처럼 대괄호로 감싼 구간은 동적 세그먼트로 취급합니다.
+function matchesRoute(pathname: string, { route, includeSubPaths }: RoutePermission) {
+  const routeSegments = route.url.split('/')
+  const pathSegments = pathname.split('/')
+  if (pathSegments.length < routeSegments.length) return false
+  if (!includeSubPaths && pathSegments.length !== routeSegments.length) return false
+
+  return routeSegments.every((segment, index) => /^\[.+\]$/.test(segment) || segment === pathSegments[index])
+}
+
+export function findRoutePermission(pathname: string): Permission | null {
+  return ROUTE_PERMISSIONS.find((routePermission) => matchesRoute(pathname, routePermission))?.permission ?? null
+}
+
+export function hasRole(role: Role | null | undefined, required: Role) {
+  if (!role) return false
+  return ROLE_LEVEL[role] >= ROLE_LEVEL[required]
+}
+
+export function hasPermission({ role, isStaff }: { role?: Role | null; isStaff?: boolean }, permission: Permission) {
+  if (permission === 'STAFF') {
+    return !!isStaff || hasRole(role, 'ROLE_ADMIN')
+  }
+  return hasRole(role, permission)
+}
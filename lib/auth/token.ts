@@ -0,0 +1,132 @@
+import { getCsrfToken, getSession, signOut } from 'next-auth/react'
+
+import { toast } from '@/components/ui/use-toast'
+import { ROUTES } from '@/constants/routes'
+
+/**
+ * 클라이언트에서 인증이 필요한 요청에 사용할 액세스 토큰을 관리합니다.
+ * `SessionProvider`가 세션을 불러올 때마다 토큰을 갱신하며,
+ * 토큰이 없을 경우에만 `getSession`으로 세션을 다시 조회합니다.
+ */
+let cachedAccessToken: string | null = null
+let reissuePromise: Promise<string | null> | null = null
+let unsavedDraftCount = 0
+
+const isBrowser = () => typeof window !== 'undefined'
+
+/**
+ * 같은 브라우저의 다른 탭에 세션 변경(토큰 재발급, 로그아웃)을 알리기 위한 채널
+ */
+export type SessionBroadcast = 'refresh' | 'logout'
+
+const channel = isBrowser() && 'BroadcastChannel' in window ? new BroadcastChannel('jsp-session') : null
+
+function broadcastSession(message: SessionBroadcast) {
+  channel?.postMessage(message)
+}
+
+/**
+ * 다른 탭에서 보낸 세션 변경 알림을 구독하고, 해제 함수를 반환합니다.
+ */
+export function subscribeSessionBroadcast(listener: (message: SessionBroadcast) => void) {
+  const handler = (e: MessageEvent<SessionBroadcast>) => listener(e.data)
+  channel?.addEventListener('message', handler)
+  return () => {
+    channel?.removeEventListener('message', handler)
+  }
+}
+
+export function setAccessToken(accessToken: string | null) {
+  cachedAccessToken = accessToken
+}
+
+export async function getAccessToken(): Promise<string | null> {
+  if (!isBrowser()) return null
+  if (cachedAccessToken) return cachedAccessToken
+
+  const session = await getSession()
+  cachedAccessToken = session?.data?.accessToken ?? null
+  return cachedAccessToken
+}
+
+/**
+ * `jwt` 콜백의 `update` 트리거를 통해 서버에서 `AUTH.REISSUE`를 호출하고,
+ * 갱신된 액세스 토큰을 반환합니다. 리프레시 토큰도 만료된 경우 `null`을 반환합니다.
+ * 동시에 여러 요청이 401을 받더라도 재발급 요청은 한 번만 전송됩니다.
+ */
+export function reissueAccessToken(): Promise<string | null> {
+  if (!isBrowser()) return Promise.resolve(null)
+
+  if (!reissuePromise) {
+    reissuePromise = requestReissue().finally(() => {
+      reissuePromise = null
+    })
+  }
+  return reissuePromise
+}
+
+async function requestReissue(): Promise<string | null> {
+  try {
+    const csrfToken = await getCsrfToken()
+    const res = await fetch('/api/auth/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ csrfToken, data: { reissue: true } })
+    })
+    if (!res.ok) {
+      cachedAccessToken = null
+      return null
+    }
+
+    const session = await res.json()
+    cachedAccessToken = session?.data?.accessToken ?? null
+    if (cachedAccessToken) broadcastSession('refresh')
+    return cachedAccessToken
+  } catch (error) {
+    console.error('Failed to reissue access token:', error)
+    cachedAccessToken = null
+    return null
+  }
+}
+
+/**
+ * 작성 중인 글이 있음을 등록하고, 해제 함수를 반환합니다. (`useDraftGuard`에서 사용)
+ */
+export function registerUnsavedDraft() {
+  unsavedDraftCount++
+  return () => {
+    unsavedDraftCount--
+  }
+}
+
+export const hasUnsavedDrafts = () => unsavedDraftCount > 0
+
+/**
+ * 로그아웃 후 다른 탭에도 로그아웃을 알립니다.
+ */
+export async function logout(options?: { callbackUrl?: string }) {
+  cachedAccessToken = null
+  broadcastSession('logout')
+  await signOut(options)
+}
+
+/**
+ * 토큰 재발급에 실패했을 때 호출되며, 로그아웃 후 로그인 페이지로 이동합니다.
+ * 작성 중인 글이 있으면 바로 이동하지 않고, 내용을 백업할 수 있도록 경고만 표시합니다.
+ */
+export async function expireSession() {
+  cachedAccessToken = null
+  if (hasUnsavedDrafts()) {
+    warnDraftLoss()
+    return
+  }
+  await logout({ callbackUrl: ROUTES.LOGIN.url })
+}
+
+export function warnDraftLoss() {
+  toast({
+    variant: 'destructive',
+    title: '로그인이 만료되었습니다.',
+    description: '작성 중인 내용이 사라지지 않도록 복사해 둔 뒤 다시 로그인해주세요.'
+  })
+}
@@ -1,5 +1,11 @@
 export function decodeToken(token: string) {
-  return JSON.parse(Buffer.from(token.split('.')[1], 'base64').toString())
+  const payload = token.split('.')[1]
+  // 브라우저에는 `Buffer`가 없으므로 `atob`으로 디코딩 (base64url -> base64)
+  if (typeof Buffer === 'undefined') {
+    const binary = atob(payload.replace(/-/g, '+').replace(/_/g, '/'))
+    return JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0))))
+  }
+  return JSON.parse(Buffer.from(payload, 'base64').toString())
 }
 
 export function isAccessTokenExpired(token: string): boolean {
@@ -7,3 +13,11 @@ export function isAccessTokenExpired(token: string): boolean {
   const currentTime = Math.floor(Date.now() / 1000) // 현재 시간을 초 단위 Unix 타임스탬프로 변환
   return exp < currentTime
 }
+
+/**
+ * 액세스 토큰의 만료 시각을 밀리초 단위 Unix 타임스탬프로 반환합니다.
+ */
+export function getAccessTokenExpiry(token: string): number {
+  const { exp } = decodeToken(token)
+  return exp * 1000
+}
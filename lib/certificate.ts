@@ -0,0 +1,63 @@
+import { AttendanceSummary, getMemberStatuses, summarizeAttendance } from '@/lib/attendance'
+import { AttendanceSession, Certificate, Member, Study, StudyCompletion } from '@/types'
+
+/**
+ * 스터디 종료(수료 처리)와 수료증을 다룹니다.
+ * 스터디장이 참여 중인 멤버의 수료 여부와 인정 시간을 정해 스터디를 종료하면,
+ * 서버가 수료한 멤버에게 수료증을 발급합니다. 종료한 스터디는 되돌릴 수 없습니다.
+ */
+export const DEFAULT_COMPLETION_RATE = 0.7
+export const MAX_COMPLETION_HOURS = 200
+
+// 인정 시간은 30분 단위로 기록합니다.
+const roundHours = (hours: number) => Math.round(hours * 2) / 2
+
+/**
+ * 스터디 한 회차의 시간입니다. 시간 미정인 스터디는 `0`
+ */
+export function getSessionHours({ startTime, endTime }: Pick<Study, 'startTime' | 'endTime'>) {
+  if (!startTime || !endTime) return 0
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number)
+    return hours * 60 + minutes
+  }
+  return Math.max(0, toMinutes(endTime) - toMinutes(startTime)) / 60
+}
+
+/**
+ * 출석, 지각한 회차의 시간을 모두 더한 인정 시간입니다.
+ */
+export const calculateCompletionHours = (study: Pick<Study, 'startTime' | 'endTime'>, summary: AttendanceSummary) =>
+  roundHours((summary.present + summary.late) * getSessionHours(study))
+
+/**
+ * 출석률이 기준 이상이면 수료로 판단합니다. 출석 기록이 없는 멤버는 수료로 판단하지 않습니다.
+ */
+export const meetsCompletionRate = ({ rate }: AttendanceSummary, minRate: number) => rate !== null && rate >= minRate
+
+/**
+ * 출석 기록으로 멤버별 수료 여부와 인정 시간의 기본값을 만듭니다.
+ * @param minRate 수료 기준 출석률, `null`이면 출석과 관계없이 모두 수료로 둡니다.
+ */
+export const createCompletions = (
+  study: Pick<Study, 'startTime' | 'endTime'>,
+  members: Pick<Member, 'id'>[],
+  sessions: AttendanceSession[],
+  minRate: number | null
+): StudyCompletion[] =>
+  members.map(({ id }) => {
+    const summary = summarizeAttendance(getMemberStatuses(sessions, id))
+    return {
+      userId: id,
+      completed: minRate === null || meetsCompletionRate(summary, minRate),
+      hours: calculateCompletionHours(study, summary)
+    }
+  })
+
+export const formatHours = (hours: number) => `${hours}시간`
+
+/**
+ * 수료증에 표시하는 발급 번호입니다. (ex. COMIT-2025-00012)
+ */
+export const formatCertificateNumber = ({ id, year }: Pick<Certificate, 'id' | 'year'>) =>
+  `COMIT-${year}-${String(id).padStart(5, '0')}`
@@ -0,0 +1,95 @@
+import { z } from 'zod'
+
+import { CurriculumWeek, SessionLog } from '@/types'
+
+/**
+ * 스터디의 주차별 커리큘럼과 회차별 진행 기록을 다룹니다.
+ * - 스터디장: 스터디 개설, 수정 시 커리큘럼을 정하고, 회차마다 진행 기록을 남깁니다.
+ * - 신청자: 스터디 목록의 상세 정보에서 커리큘럼을 확인합니다.
+ */
+export const MAX_CURRICULUM_WEEKS = 16
+export const MAX_CURRICULUM_DESCRIPTION_LENGTH = 200
+export const MAX_SESSION_LOG_LENGTH = 2000
+export const MAX_SESSION_LOG_MATERIALS = 10
+
+// `z.string().url()`은 `javascript:` 같은 주소도 허용하므로 자료 링크는 http(s) 주소만 받습니다.
+const HTTP_URL = /^https?:\/\//i
+
+/**
+ * 링크로 보여줘도 안전한 http(s) 주소인지 확인합니다. 이전에 저장된 기록도 렌더링하기 전에 다시 확인합니다.
+ */
+export const isHttpUrl = (url: string) => HTTP_URL.test(url)
+
+const MATERIAL_URL_ERROR = { message: '자료 링크는 http(s)로 시작하는 주소여야 합니다' }
+
+export const curriculumSchema = z
+  .array(
+    z.object({
+      week: z.number(),
+      title: z.string().trim().min(1, { message: '주차별 주제를 입력해주세요' }).max(100, { message: '100자 이내' }),
+      description: z
+        .string()
+        .trim()
+        .max(MAX_CURRICULUM_DESCRIPTION_LENGTH, { message: `${MAX_CURRICULUM_DESCRIPTION_LENGTH}자 이내` })
+    })
+  )
+  .max(MAX_CURRICULUM_WEEKS, { message: `커리큘럼은 최대 ${MAX_CURRICULUM_WEEKS}주차까지 작성할 수 있습니다` })
+
+export const createCurriculumWeek = (week: number): CurriculumWeek => ({ week, title: '', description: '' })
+
+/**
+ * 순서를 바꾸거나 삭제한 뒤 주차를 1부터 다시 매기고, 앞뒤 공백을 지웁니다.
+ */
+export const normalizeCurriculum = (curriculum: CurriculumWeek[]) =>
+  curriculum.map(({ title, description }, index) => ({
+    week: index + 1,
+    title: title.trim(),
+    description: description.trim()
+  }))
+
+export const sessionLogFormSchema = z.object({
+  // 커리큘럼과 연결하지 않는 회차는 빈 문자열
+  week: z.string(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: '날짜를 입력해주세요' }),
+  topic: z.string().trim().min(1, { message: '주제를 입력해주세요' }).max(100, { message: '100자 이내' }),
+  content: z
+    .string()
+    .trim()
+    .min(1, { message: '진행 내용을 입력해주세요' })
+    .max(MAX_SESSION_LOG_LENGTH, { message: `${MAX_SESSION_LOG_LENGTH}자 이내로 입력해주세요` }),
+  // 한 줄에 하나씩 입력합니다.
+  materials: z
+    .string()
+    .transform((value) =>
+      value
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean)
+    )
+    .pipe(
+      z.array(z.string().url(MATERIAL_URL_ERROR).refine(isHttpUrl, MATERIAL_URL_ERROR)).max(MAX_SESSION_LOG_MATERIALS, {
+        message: `자료 링크는 최대 ${MAX_SESSION_LOG_MATERIALS}개까지 입력할 수 있습니다`
+      })
+    ),
+  homework: z
+    .string()
+    .trim()
+    .max(MAX_SESSION_LOG_LENGTH, { message: `${MAX_SESSION_LOG_LENGTH}자 이내로 입력해주세요` })
+})
+
+export type SessionLogFormValues = z.input<typeof sessionLogFormSchema>
+export type SessionLogFormOutput = z.output<typeof sessionLogFormSchema>
+
+export const getDefaultSessionLogValues = (log?: SessionLog, date = ''): SessionLogFormValues => ({
+  week: log?.week ? `${log.week}` : '',
+  date: log?.date ?? date,
+  topic: log?.topic ?? '',
+  content: log?.content ?? '',
+  materials: log?.materials.join('\n') ?? '',
+  homework: log?.homework ?? ''
+})
+
+export const toSessionLogRequest = ({ week, ...values }: SessionLogFormOutput) => ({
+  ...values,
+  week: week ? Number(week) : undefined
+})
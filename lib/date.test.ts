@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+
+import {
+  formatKst,
+  fromCalendarDate,
+  getKstYearMonth,
+  parseKst,
+  toCalendarDate,
+  toKstDateTime,
+  toKstWallClock,
+  toServerDateTime
+} from '@/lib/date'
+
+// `npm test`는 같은 테스트를 여러 시간대(TZ)에서 실행합니다. 어느 시간대에서도 결과가 같아야 합니다.
+describe(`lib/date (TZ=${process.env.TZ ?? 'system'})`, () => {
+  // 한국 시간 2024-03-10 02:30은 미국 동부의 서머타임 시작으로 현지에 존재하지 않는 시각입니다.
+  const springForward = new Date('2024-03-09T17:30:00Z')
+
+  test('toKstWallClock은 한국 시간의 날짜, 시각을 가집니다', () => {
+    const wallClock = toKstWallClock(springForward)
+    assert.equal(wallClock.getFullYear(), 2024)
+    assert.equal(wallClock.getMonth(), 2)
+    assert.equal(wallClock.getDate(), 10)
+    assert.equal(wallClock.getDay(), 0)
+    assert.equal(wallClock.getHours(), 2)
+    assert.equal(wallClock.getMinutes(), 30)
+  })
+
+  test('toKstWallClock은 달력의 날짜(toCalendarDate)와 같은 UTC 시각입니다', () => {
+    assert.equal(toKstWallClock(springForward).getTime(), toCalendarDate(springForward).getTime())
+  })
+
+  test('formatKst는 한국 시간으로 표시합니다', () => {
+    assert.equal(formatKst(springForward, 'yyyy-MM-dd HH:mm'), '2024-03-10 02:30')
+    assert.equal(formatKst('2024-03-10T02:30:00', 'M월 d일 (EEE) HH:mm'), '3월 10일 (일) 02:30')
+    assert.equal(formatKst('2024-12-31T23:59:59', 'yyyy-MM-dd HH:mm:ss'), '2024-12-31 23:59:59')
+  })
+
+  test('parseKst는 시간대가 없는 문자열을 한국 시간으로 간주합니다', () => {
+    assert.equal(parseKst('2024-03-10T02:30:00').toISOString(), springForward.toISOString())
+    assert.equal(parseKst('2024-03-10T02:30:00.123').toISOString(), springForward.toISOString())
+    assert.equal(parseKst('2024-03-09T17:30:00Z').toISOString(), springForward.toISOString())
+    assert.equal(parseKst(springForward), springForward)
+  })
+
+  test('toKstDateTime은 한국 시간의 날짜와 시각으로 실제 시각을 만듭니다', () => {
+    assert.equal(toKstDateTime('2024-01-01').toISOString(), '2023-12-31T15:00:00.000Z')
+    assert.equal(toKstDateTime('2024-03-10', '02:30').toISOString(), springForward.toISOString())
+    assert.ok(isNaN(toKstDateTime('2024-13-01').getTime()))
+  })
+
+  test('getKstYearMonth는 한국 시간 기준의 연도와 월을 반환합니다', () => {
+    assert.deepEqual(getKstYearMonth(new Date('2024-01-31T15:00:00Z')), { year: 2024, month: 2 })
+    assert.deepEqual(getKstYearMonth(new Date('2024-12-31T14:59:59Z')), { year: 2024, month: 12 })
+    assert.deepEqual(getKstYearMonth(new Date('2024-12-31T15:00:00Z')), { year: 2025, month: 1 })
+  })
+
+  test('toServerDateTime은 한국 시간을 UTC 표기로 보냅니다', () => {
+    assert.equal(toServerDateTime(springForward), '2024-03-10T02:30:00.000Z')
+  })
+
+  test('fromCalendarDate는 toCalendarDate의 반대입니다', () => {
+    assert.equal(fromCalendarDate(toCalendarDate(springForward)).getTime(), springForward.getTime())
+  })
+})
@@ -0,0 +1,93 @@
+import { UTCDate } from '@date-fns/utc'
+import { format } from 'date-fns'
+import { ko } from 'date-fns/locale'
+
+/**
+ * 동아리의 모든 일정(동아리방 예약, 스터디, 행사)은 한국 시간(Asia/Seoul, UTC+9) 기준입니다.
+ * 브라우저의 시간대와 관계없이 같은 시간을 보여주고 보낼 수 있도록, 날짜를 다룰 때는 이 모듈을 사용해주세요.
+ *
+ * 한국은 서머타임이 없어 항상 UTC+9이므로 별도의 시간대 데이터 없이 고정된 오프셋으로 계산합니다.
+ * - 서버는 시간대 없이 한국 시간(`yyyy-MM-ddTHH:mm:ss`)을 주고받습니다.
+ * - `Date`는 항상 실제 시각(instant)을 나타내며, 화면에 보여줄 때만 `formatKst`로 한국 시간으로 변환합니다.
+ */
+export const KST_TIME_ZONE = 'Asia/Seoul'
+
+const KST_OFFSET = 9 * 60 * 60 * 1000
+
+// 시간대가 명시되어 있는지 (ex. `Z`, `+09:00`)
+const TIME_ZONE_SUFFIX = /(Z|[+-]\d{2}:?\d{2})$/i
+
+/**
+ * 실제 시각을, UTC 기준 날짜, 시각이 한국 시간과 같은 `UTCDate`로 변환합니다. (`FullCalendar`의 `timeZone="UTC"`와 같은 방식)
+ * `UTCDate`의 `getHours` 등은 UTC 기준으로 동작하므로, `date-fns`에 넘겨도 브라우저 시간대나 서머타임의 영향을 받지 않습니다.
+ */
+export function toKstWallClock(date: Date) {
+  return new UTCDate(date.getTime() + KST_OFFSET)
+}
+
+/**
+ * 한국 시간 기준 날짜(`yyyy-MM-dd`)와 시각(`HH:mm` 또는 `HH:mm:ss`)으로 실제 시각을 만듭니다.
+ * 형식이 올바르지 않으면 `Invalid Date`를 반환합니다.
+ */
+export function toKstDateTime(date: string, time = '00:00') {
+  return new Date(`${date}T${time.length === 5 ? `${time}:00` : time}+09:00`)
+}
+
+/**
+ * 서버에서 받은 날짜 문자열을 실제 시각으로 변환합니다. 시간대가 없으면 한국 시간으로 간주합니다.
+ */
+export function parseKst(value: string | Date) {
+  if (value instanceof Date) return value
+  if (TIME_ZONE_SUFFIX.test(value)) return new Date(value)
+  const [date, time] = value.split('T')
+  return toKstDateTime(date, time?.split('.')[0])
+}
+
+/**
+ * 날짜를 한국 시간 기준으로 `date-fns`의 `format` 형식에 맞춰 표시합니다.
+ * @example formatKst(reservation.startTime, 'M월 d일 (EEE) HH:mm') // 3월 5일 (화) 19:00
+ */
+export function formatKst(value: string | Date, pattern: string) {
+  return format(toKstWallClock(parseKst(value)), pattern, { locale: ko })
+}
+
+/**
+ * 요청 본문에 사용할 날짜 문자열을 만듭니다.
+ * 서버는 받은 시각을 시간대 없이 그대로 저장하므로, 한국 시간을 UTC 표기(`Z`)로 보냅니다.
+ */
+export function toServerDateTime(date: Date) {
+  return new Date(date.getTime() + KST_OFFSET).toISOString()
+}
+
+/**
+ * 한국 시간 기준의 연도와 월(1 ~ 12)을 반환합니다.
+ */
+export function getKstYearMonth(date = new Date()) {
+  const kst = toKstWallClock(date)
+  return { year: kst.getFullYear(), month: kst.getMonth() + 1 }
+}
+
+/**
+ * `FullCalendar`의 `timeZone="UTC"` 모드에서 사용하는 날짜로 변환합니다.
+ * UTC 기준 날짜, 시각이 한국 시간과 같아지므로, 브라우저 시간대와 관계없이 한국 시간으로 달력을 그릴 수 있습니다.
+ */
+export const toCalendarDate = (date: Date) => new Date(date.getTime() + KST_OFFSET)
+
+/**
+ * `toCalendarDate`의 반대로, 달력에서 받은 날짜(선택, 드래그)를 실제 시각으로 변환합니다.
+ */
+export const fromCalendarDate = (date: Date) => new Date(date.getTime() - KST_OFFSET)
+
+/**
+ * 스터디, 행사의 시각(`HH:mm:ss`)을 `HH:mm`으로 표시합니다.
+ */
+export const formatClubTime = (time: string) => time.substring(0, 5)
+
+export const formatTimeRange = (startTime: string, endTime: string) =>
+  `${formatClubTime(startTime)} ~ ${formatClubTime(endTime)}`
+
+/**
+ * 행사 기간(`yyyy-MM-dd`)을 표시합니다. 하루짜리 행사는 날짜만 표시합니다.
+ */
+export const formatDateRange = (startDate: string, endDate: string) =>
+  startDate === endDate ? startDate : `${startDate} ~ ${endDate}`
@@ -1,21 +1,59 @@
+import { HttpStatusCode } from '@/app/api/utils/httpConsts'
 import { ApiEndpoint } from '@/constants/apiEndpoint'
 
-export async function fetchData(route: ApiEndpoint, init?: RequestInit) {
-  const requestInit: RequestInit = {
-    headers: {
-      'Content-Type': 'application/json',
-      'Cache-Control': 'no-cache, no-store, must-revalidate',
-      Pragma: 'no-cache',
-      Expires: '0',
-      ...(init?.headers || {})
-    },
+export interface FetchDataInit extends RequestInit {
+  /**
+   * `true`일 경우 현재 세션의 액세스 토큰을 `Authorization` 헤더에 자동으로 추가합니다.
+   * 401 응답을 받으면 토큰을 재발급 받아 한 번 더 요청하고, 재발급에도 실패하면 로그아웃합니다.
+   * 클라이언트 컴포넌트에서만 동작하며, 서버에서는 토큰을 직접 전달해주세요.
+   */
+  authenticated?: boolean
+}
+
+export async function fetchData(route: ApiEndpoint, init?: FetchDataInit) {
+  const { authenticated, ...restInit } = init ?? {}
+
+  if (!authenticated) {
+    return await fetch(route.url, buildRequestInit(route, restInit))
+  }
+
+  // 서버(미들웨어, auth 콜백)에서 next-auth/react를 불러오지 않도록 필요할 때만 import
+  const { expireSession, getAccessToken, reissueAccessToken } = await import('@/lib/auth/token')
+  const accessToken = await getAccessToken()
+  const res = await fetch(route.url, buildRequestInit(route, restInit, accessToken))
+  if (res.status !== HttpStatusCode.UnAuthorized || !accessToken) {
+    return res
+  }
+
+  // 액세스 토큰이 만료(또는 폐기)된 경우, 재발급 후 한 번만 재시도
+  const reissuedAccessToken = await reissueAccessToken()
+  if (!reissuedAccessToken) {
+    await expireSession()
+    return res
+  }
+  const retried = await fetch(route.url, buildRequestInit(route, restInit, reissuedAccessToken))
+  // 재발급 받은 토큰으로도 인증에 실패하면 세션이 더 이상 유효하지 않은 것으로 보고 로그아웃합니다.
+  if (retried.status === HttpStatusCode.UnAuthorized) {
+    await expireSession()
+  }
+  return retried
+}
+
+function buildRequestInit(route: ApiEndpoint, init: RequestInit, accessToken?: string | null): RequestInit {
+  return {
     method: route.method,
     cache: 'no-store',
     next: {
       revalidate: 0
     },
-    ...init
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      Pragma: 'no-cache',
+      Expires: '0',
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      ...(init.headers || {})
+    }
   }
-
-  return await fetch(route.url, requestInit)
 }
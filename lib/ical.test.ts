@@ -0,0 +1,89 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+
+import { formatKst } from '@/lib/date'
+import { feedToCalendarEvents } from '@/lib/ical'
+import { JoinState, Semester, Study, User } from '@/types'
+
+const SEMESTERS: Semester[] = [
+  {
+    id: 1,
+    year: 2030,
+    semester: 'Spring',
+    openingPeriod: { start: '2030-02-01', end: '2030-02-14' },
+    applicationPeriod: { start: '2030-02-15', end: '2030-02-28' },
+    activityPeriod: { start: '2030-03-04', end: '2030-06-21' }
+  },
+  {
+    id: 2,
+    year: 2030,
+    semester: 'Fall',
+    openingPeriod: { start: '2030-08-01', end: '2030-08-14' },
+    applicationPeriod: { start: '2030-08-15', end: '2030-08-31' },
+    activityPeriod: { start: '2030-09-02', end: '2030-12-20' }
+  }
+]
+
+const study = (id: number, overrides: Partial<Study> = {}): Study => ({
+  id,
+  campus: '율전',
+  day: '수',
+  description: '',
+  endTime: '21:00:00',
+  imageSrc: '',
+  isRecruiting: false,
+  level: '초급',
+  mentor: {} as User,
+  semester: 'Spring',
+  year: 2030,
+  tags: [],
+  startTime: '19:00:00',
+  title: `스터디 ${id}`,
+  applicationQuestions: [],
+  maxMembers: null,
+  curriculum: [],
+  closedAt: null,
+  ...overrides
+})
+
+const feed = (studies: Study[], state: JoinState = 'Accept') => ({
+  reservations: [],
+  studies: studies.map((study) => ({ study, state })),
+  events: []
+})
+
+// `npm test`는 같은 테스트를 여러 시간대(TZ)에서 실행합니다. 어느 시간대에서도 결과가 같아야 합니다.
+describe(`lib/ical (TZ=${process.env.TZ ?? 'system'})`, () => {
+  // 한국 시간 2030-04-10 (1학기 활동 기간 중)
+  const now = new Date('2030-04-10T03:00:00Z')
+
+  test('스터디 일정은 구독한 날과 관계없이 활동 기간의 첫 회차부터 마지막 날까지 반복합니다', () => {
+    const [event] = feedToCalendarEvents(feed([study(1)]), SEMESTERS, now)
+    assert.equal(formatKst(event.start, 'yyyy-MM-dd HH:mm'), '2030-03-06 19:00')
+    assert.equal(formatKst(event.end, 'yyyy-MM-dd HH:mm'), '2030-03-06 21:00')
+    assert.equal(event.recurrenceRule, 'FREQ=WEEKLY;BYDAY=WE;UNTIL=20300621T145959Z')
+  })
+
+  test('이번 학기의 종료되지 않은, 참여가 승인된 스터디만 포함합니다', () => {
+    const studies = [
+      study(1),
+      study(2, { closedAt: '2030-04-01T10:00:00' }),
+      study(3, { semester: 'Fall' }),
+      study(4, { year: 2029 })
+    ]
+    assert.deepEqual(
+      feedToCalendarEvents(feed(studies), SEMESTERS, now).map(({ uid }) => uid),
+      ['study-1']
+    )
+    assert.deepEqual(feedToCalendarEvents(feed([study(1)], 'Wait'), SEMESTERS, now), [])
+  })
+
+  test('활동 기간이 아니면 다음 학기를, 학기 설정이 없으면 스터디를 제외합니다', () => {
+    const summer = new Date('2030-07-10T03:00:00Z')
+    assert.deepEqual(
+      feedToCalendarEvents(feed([study(1), study(2, { semester: 'Fall' })]), SEMESTERS, summer).map(({ uid }) => uid),
+      ['study-2']
+    )
+    assert.deepEqual(feedToCalendarEvents(feed([study(1)]), [], now), [])
+  })
+})
@@ -0,0 +1,179 @@
+import { formatKst, formatTimeRange, toKstDateTime } from '@/lib/date'
+import { createWeeklyOccurrences, toTimeRange } from '@/lib/reservation'
+import { findOpenSemester, findSemester, findUpcomingSemester } from '@/lib/semester'
+import { CalendarFeed, Day, Event, Period, Reservation, Semester, Study } from '@/types'
+
+/**
+ * 예약, 스터디, 행사를 iCalendar(RFC 5545) 형식으로 변환합니다.
+ * Google 캘린더 등에서 파일로 가져오거나, `app/api/calendar/[token]`의 구독 주소로 추가할 수 있습니다.
+ */
+const PRODUCT_ID = '-//JSP//Clubroom Calendar//KO'
+const UID_DOMAIN = 'jsp.skku'
+const CALENDAR_NAME = 'JSP 일정'
+
+const BY_DAY: Record<Day, string> = { 일: 'SU', 월: 'MO', 화: 'TU', 수: 'WE', 목: 'TH', 금: 'FR', 토: 'SA' }
+
+// 한국은 서머타임이 없어 표준시 하나만 정의합니다.
+const KST_TIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  'TZID:Asia/Seoul',
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0900',
+  'TZOFFSETTO:+0900',
+  'TZNAME:KST',
+  'END:STANDARD',
+  'END:VTIMEZONE'
+]
+
+export interface CalendarEvent {
+  uid: string
+  title: string
+  start: Date
+  end: Date
+  description?: string
+  location?: string
+  // ex) `FREQ=WEEKLY;BYDAY=TU;UNTIL=20300630T145959Z`
+  recurrenceRule?: string
+}
+
+/**
+ * 구독 주소의 경로 입니다. 토큰만 알면 누구나 볼 수 있으므로 다른 사람에게 공유하지 않도록 안내해주세요.
+ */
+export const getCalendarFeedPath = (token: string) => `/api/calendar/${encodeURIComponent(token)}`
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n')
+
+const formatLocalDateTime = (date: Date) => formatKst(date, "yyyyMMdd'T'HHmmss")
+
+const formatUtcDateTime = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+
+// 한 줄은 75 옥텟을 넘지 않도록 나누고, 이어지는 줄은 공백으로 시작합니다.
+function foldLine(line: string) {
+  const encoder = new TextEncoder()
+  const lines: string[] = []
+  let current = ''
+  for (const char of line) {
+    const limit = lines.length === 0 ? 75 : 74
+    if (encoder.encode(current + char).length > limit) {
+      lines.push(current)
+      current = char
+    } else {
+      current += char
+    }
+  }
+  lines.push(current)
+  return lines.join('\r\n ')
+}
+
+function toEventLines(event: CalendarEvent, now: Date) {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtcDateTime(now)}`,
+    `DTSTART;TZID=Asia/Seoul:${formatLocalDateTime(event.start)}`,
+    `DTEND;TZID=Asia/Seoul:${formatLocalDateTime(event.end)}`,
+    ...(event.recurrenceRule ? [`RRULE:${event.recurrenceRule}`] : []),
+    `SUMMARY:${escapeText(event.title)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    'END:VEVENT'
+  ]
+}
+
+/**
+ * `VCALENDAR` 문서를 만듭니다. 줄바꿈은 RFC 5545에 따라 CRLF를 사용합니다.
+ */
+export function createCalendar(events: CalendarEvent[], { name = CALENDAR_NAME, now = new Date() } = {}) {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-WR-TIMEZONE:Asia/Seoul',
+    ...KST_TIMEZONE,
+    ...events.flatMap((event) => toEventLines(event, now)),
+    'END:VCALENDAR'
+  ]
+    .map(foldLine)
+    .join('\r\n')
+    .concat('\r\n')
+}
+
+export const reservationToCalendarEvent = (reservation: Reservation): CalendarEvent => ({
+  uid: `reservation-${reservation.id}`,
+  title: `[동아리방] ${reservation.title}`,
+  ...toTimeRange(reservation),
+  description: reservation.description,
+  location: '동아리방'
+})
+
+/**
+ * 스터디의 요일, 시간으로 학기 활동 기간 동안 매주 반복되는 일정을 만듭니다.
+ * 활동 기간의 첫 회차부터 시작해 마지막 날까지 반복하므로, 언제 구독해도 같은 일정입니다.
+ * 요일이나 시간이 정해지지 않았거나 활동 기간에 회차가 없는 스터디는 `null`을 반환합니다.
+ */
+export function studyToCalendarEvent(study: Study, activityPeriod: Period): CalendarEvent | null {
+  if (!study.day || !study.startTime || !study.endTime) return null
+
+  const until = activityPeriod.end
+  const [first] = createWeeklyOccurrences(study, activityPeriod.start, until)
+  if (!first) return null
+
+  return {
+    uid: `study-${study.id}`,
+    title: `[스터디] ${study.title}`,
+    ...first,
+    description: `매주 ${study.day}요일 ${formatTimeRange(study.startTime, study.endTime)}`,
+    location: study.campus,
+    recurrenceRule: `FREQ=WEEKLY;BYDAY=${BY_DAY[study.day]};UNTIL=${formatUtcDateTime(toKstDateTime(until, '23:59:59'))}`
+  }
+}
+
+export const eventToCalendarEvent = (event: Event): CalendarEvent => ({
+  uid: `event-${event.id}`,
+  title: `[행사] ${event.title}`,
+  start: toKstDateTime(event.startDate, event.startTime),
+  end: toKstDateTime(event.endDate, event.endTime),
+  description: event.description,
+  location: event.location
+})
+
+/**
+ * 활동 기간이 진행 중인 학기를, 없으면 다음에 활동을 시작하는 학기를 이번 학기로 봅니다.
+ */
+const findCurrentSemester = (semesters: Semester[], now: Date) =>
+  findOpenSemester(semesters, 'activityPeriod', now) ?? findUpcomingSemester(semesters, 'activityPeriod', now)
+
+/**
+ * 구독 피드에 포함할 일정을 고릅니다. 승인된 예약과 참여가 승인된 스터디, 행사만 포함합니다.
+ * 스터디는 이번 학기의 종료되지 않은 스터디만 포함하며, 학기 설정(`semesters`)이 없으면 제외합니다.
+ */
+export function feedToCalendarEvents(
+  { reservations, studies, events }: CalendarFeed,
+  semesters: Semester[],
+  now = new Date()
+) {
+  const current = findCurrentSemester(semesters, now)
+  const calendarEvents = [
+    ...reservations.filter(({ isVerified }) => isVerified === 'ACCEPT').map(reservationToCalendarEvent),
+    ...(current
+      ? studies
+          .filter(
+            ({ state, study }) => state === 'Accept' && !study.closedAt && findSemester(semesters, study) === current
+          )
+          .map(({ study }) => studyToCalendarEvent(study, current.activityPeriod))
+          .filter((event): event is CalendarEvent => event !== null)
+      : []),
+    ...events.filter(({ state }) => state === 'Accept').map(({ event }) => eventToCalendarEvent(event))
+  ]
+  // 날짜 형식이 올바르지 않은 일정은 제외합니다.
+  return calendarEvents.filter(({ start, end }) => !isNaN(start.getTime()) && !isNaN(end.getTime()))
+}
@@ -0,0 +1,109 @@
+import assert from 'node:assert/strict'
+import { describe, test } from 'node:test'
+
+import { formatKst } from '@/lib/date'
+import {
+  createTimeRange,
+  createWeeklyOccurrences,
+  findConflicts,
+  MAX_WEEKLY_OCCURRENCES,
+  suggestFreeSlots,
+  TimeRange,
+  validateTimeRange
+} from '@/lib/reservation'
+import { Reservation, ReservationStatus, User } from '@/types'
+
+const DATE = '2030-03-04'
+// 테스트의 예약 시간이 모두 미래가 되도록 기준 시각을 고정합니다.
+const NOW = new Date('2030-01-01T00:00:00Z')
+
+const reservation = (
+  id: number,
+  start: string,
+  end: string,
+  isVerified: ReservationStatus = 'ACCEPT'
+): Reservation => ({
+  id,
+  studyId: 0,
+  startTime: `${DATE}T${start}:00`,
+  endTime: `${DATE}T${end}:00`,
+  reserver: {} as User,
+  title: `예약 ${id}`,
+  description: '',
+  isVerified
+})
+
+const format = ({ start, end }: TimeRange) => `${formatKst(start, 'HH:mm')}-${formatKst(end, 'HH:mm')}`
+
+// `npm test`는 같은 테스트를 여러 시간대(TZ)에서 실행합니다. 어느 시간대에서도 결과가 같아야 합니다.
+describe(`lib/reservation (TZ=${process.env.TZ ?? 'system'})`, () => {
+  test('validateTimeRange는 예약 가능 시간대 안의 미래 예약만 허용합니다', () => {
+    assert.equal(validateTimeRange(createTimeRange(DATE, '10:00', '12:00'), NOW), null)
+    assert.equal(validateTimeRange(createTimeRange(DATE, '09:00', '23:00'), NOW), null)
+    assert.equal(validateTimeRange(createTimeRange('', '10:00', '12:00'), NOW), '예약 시간을 입력해주세요.')
+    assert.equal(
+      validateTimeRange(createTimeRange(DATE, '12:00', '12:00'), NOW),
+      '종료 시간은 시작 시간보다 늦어야 합니다.'
+    )
+    assert.equal(
+      validateTimeRange(createTimeRange(DATE, '10:00', '12:00'), new Date(`${DATE}T02:00:00Z`)),
+      '이미 지난 시간은 예약할 수 없습니다.'
+    )
+  })
+
+  test('validateTimeRange는 09:00 전에 시작하거나 23:00 뒤에 끝나는 예약을 거절합니다', () => {
+    const message = '예약은 09:00부터 23:00까지만 가능합니다.'
+    assert.equal(validateTimeRange(createTimeRange(DATE, '08:30', '10:00'), NOW), message)
+    assert.equal(validateTimeRange(createTimeRange(DATE, '22:00', '23:30'), NOW), message)
+    assert.equal(validateTimeRange(createTimeRange(DATE, '22:00', '24:00'), NOW), message)
+  })
+
+  test('findConflicts는 거절되지 않은 예약 중 겹치는 예약을 찾습니다', () => {
+    const reservations = [
+      reservation(1, '10:00', '12:00'),
+      reservation(2, '12:00', '13:00', 'WAIT'),
+      reservation(3, '11:00', '12:00', 'DECLINE')
+    ]
+    const ids = (range: TimeRange, excludeId?: number) =>
+      findConflicts(reservations, range, excludeId).map(({ id }) => id)
+
+    assert.deepEqual(ids(createTimeRange(DATE, '11:00', '12:30')), [1, 2])
+    // 맞닿아 있는 예약은 겹치지 않습니다.
+    assert.deepEqual(ids(createTimeRange(DATE, '13:00', '14:00')), [])
+    assert.deepEqual(ids(createTimeRange(DATE, '10:30', '11:30'), 1), [])
+  })
+
+  test('suggestFreeSlots는 요청한 시작 시간과 가까운 빈 시간을 추천합니다', () => {
+    const reservations = [reservation(1, '10:00', '12:00'), reservation(2, '09:00', '10:00', 'DECLINE')]
+    const slots = suggestFreeSlots(reservations, createTimeRange(DATE, '10:00', '11:00'), { now: NOW })
+    assert.deepEqual(slots.map(format), ['09:00-10:00', '12:00-13:00', '12:30-13:30'])
+  })
+
+  test('suggestFreeSlots는 예약 가능 시간대를 벗어나거나 지난 시간을 추천하지 않습니다', () => {
+    const reservations = [reservation(1, '22:00', '23:00')]
+    const lateSlots = suggestFreeSlots(reservations, createTimeRange(DATE, '22:00', '23:00'), { now: NOW })
+    assert.deepEqual(lateSlots.map(format), ['21:00-22:00', '20:30-21:30', '20:00-21:00'])
+
+    const now = new Date(`${DATE}T03:10:00Z`) // 한국 시간 12:10
+    const slots = suggestFreeSlots([reservation(1, '10:00', '12:00')], createTimeRange(DATE, '10:00', '11:00'), {
+      now
+    })
+    assert.deepEqual(slots.map(format), ['12:30-13:30', '13:00-14:00', '13:30-14:30'])
+  })
+
+  test('createWeeklyOccurrences는 시작일 이후 첫 요일부터 종료일까지 매주 예약 시간을 만듭니다', () => {
+    const study = { day: '수' as const, startTime: '19:00:00', endTime: '21:00:00' }
+    const occurrences = createWeeklyOccurrences(study, '2030-03-04', '2030-03-20')
+    assert.deepEqual(
+      occurrences.map(({ start, end }) => `${formatKst(start, 'yyyy-MM-dd (EEE) HH:mm')}-${formatKst(end, 'HH:mm')}`),
+      ['2030-03-06 (수) 19:00-21:00', '2030-03-13 (수) 19:00-21:00', '2030-03-20 (수) 19:00-21:00']
+    )
+    assert.deepEqual(createWeeklyOccurrences(study, '2030-03-21', '2030-03-20'), [])
+    assert.deepEqual(createWeeklyOccurrences(study, '', '2030-03-20'), [])
+  })
+
+  test('createWeeklyOccurrences는 최대 MAX_WEEKLY_OCCURRENCES개까지만 만듭니다', () => {
+    const study = { day: '월' as const, startTime: '10:00:00', endTime: '11:00:00' }
+    assert.equal(createWeeklyOccurrences(study, '2030-01-01', '2031-12-31').length, MAX_WEEKLY_OCCURRENCES)
+  })
+})
@@ -0,0 +1,161 @@
+import { addMinutes, areIntervalsOverlapping, isAfter, isBefore } from 'date-fns'
+
+import { formatClubTime, formatKst, parseKst, toKstDateTime, toKstWallClock, toServerDateTime } from '@/lib/date'
+import { Day, Reservation, Study } from '@/types'
+
+/**
+ * 동아리방을 예약할 수 있는 시간대 입니다. `ReservationCalendar`의 `slotMinTime`, `slotMaxTime`과 같습니다.
+ */
+export const RESERVATION_HOURS = { start: '09:00', end: '23:00' }
+
+// 추천 시간을 찾을 때 사용하는 간격(분)
+const SLOT_STEP_MINUTES = 30
+
+// 정기 예약 한 번에 만들 수 있는 최대 회차 (한 학기 16주 + 여유)
+export const MAX_WEEKLY_OCCURRENCES = 20
+
+const DAY_INDEX: Record<Day, number> = { 일: 0, 월: 1, 화: 2, 수: 3, 목: 4, 금: 5, 토: 6 }
+
+// 한국은 서머타임이 없어 하루가 항상 24시간입니다.
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface TimeRange {
+  start: Date
+  end: Date
+}
+
+export const toTimeRange = ({ startTime, endTime }: Pick<Reservation, 'startTime' | 'endTime'>): TimeRange => ({
+  start: parseKst(startTime),
+  end: parseKst(endTime)
+})
+
+export const toRequestTimeRange = ({ start, end }: TimeRange) => ({
+  startTime: toServerDateTime(start),
+  endTime: toServerDateTime(end)
+})
+
+/**
+ * 선택한 날짜와 시작, 종료 시간(`HH:mm`, 한국 시간)으로 예약 시간을 만듭니다.
+ */
+export const createTimeRange = (date: string, startTime: string, endTime: string): TimeRange => ({
+  start: toKstDateTime(date, startTime),
+  end: toKstDateTime(date, endTime)
+})
+
+/**
+ * 예약 시간이 한국 시간 기준으로 하루 안에 있는지 확인합니다. (자정에 끝나는 예약 포함)
+ */
+export const isWithinSingleDay = ({ start, end }: TimeRange) =>
+  formatKst(start, 'yyyy-MM-dd') === formatKst(new Date(end.getTime() - 1), 'yyyy-MM-dd')
+
+/**
+ * 예약 시간이 올바른지 검사하고, 올바르지 않으면 사용자에게 보여줄 메시지를 반환합니다.
+ * 예약은 시작한 날의 예약 가능 시간대(`RESERVATION_HOURS`) 안에서 끝나야 합니다.
+ */
+export function validateTimeRange({ start, end }: TimeRange, now = new Date()): string | null {
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) return '예약 시간을 입력해주세요.'
+  if (!isBefore(start, end)) return '종료 시간은 시작 시간보다 늦어야 합니다.'
+  const date = formatKst(start, 'yyyy-MM-dd')
+  if (
+    isBefore(start, toKstDateTime(date, RESERVATION_HOURS.start)) ||
+    isAfter(end, toKstDateTime(date, RESERVATION_HOURS.end))
+  ) {
+    return `예약은 ${RESERVATION_HOURS.start}부터 ${RESERVATION_HOURS.end}까지만 가능합니다.`
+  }
+  if (isBefore(start, now)) return '이미 지난 시간은 예약할 수 없습니다.'
+  return null
+}
+
+/**
+ * 승인되었거나 승인 대기 중인 예약 중 주어진 시간과 겹치는 예약을 반환합니다.
+ * 맞닿아 있는 예약(10:00 종료, 10:00 시작)은 겹치지 않는 것으로 봅니다.
+ * @param excludeId 시간을 변경하는 예약처럼 검사에서 제외할 예약의 id
+ */
+export function findConflicts(reservations: Reservation[], range: TimeRange, excludeId?: number) {
+  return reservations.filter(
+    (reservation) =>
+      reservation.id !== excludeId &&
+      reservation.isVerified !== 'DECLINE' &&
+      areIntervalsOverlapping(range, toTimeRange(reservation))
+  )
+}
+
+/**
+ * 같은 날 예약 가능 시간대(`RESERVATION_HOURS`) 안에서 요청한 시간과 길이가 같은 빈 시간을
+ * 요청한 시작 시간과 가까운 순서로 `count`개까지 추천합니다.
+ */
+export function suggestFreeSlots(
+  reservations: Reservation[],
+  range: TimeRange,
+  { count = 3, now = new Date(), excludeId }: { count?: number; now?: Date; excludeId?: number } = {}
+): TimeRange[] {
+  const duration = range.end.getTime() - range.start.getTime()
+  if (duration <= 0) return []
+
+  const date = formatKst(range.start, 'yyyy-MM-dd')
+  const windowStart = toKstDateTime(date, RESERVATION_HOURS.start)
+  const windowEnd = toKstDateTime(date, RESERVATION_HOURS.end)
+  const busy = reservations
+    .filter(({ id, isVerified }) => id !== excludeId && isVerified !== 'DECLINE')
+    .map(toTimeRange)
+    .filter((reserved) => areIntervalsOverlapping(reserved, { start: windowStart, end: windowEnd }))
+
+  // 일정한 간격의 시간과 기존 예약의 바로 앞, 뒤 시간을 후보로 사용합니다.
+  const candidates = new Set<number>()
+  for (let time = windowStart; isBefore(time, windowEnd); time = addMinutes(time, SLOT_STEP_MINUTES)) {
+    candidates.add(time.getTime())
+  }
+  busy.forEach(({ start, end }) => {
+    candidates.add(end.getTime())
+    candidates.add(start.getTime() - duration)
+  })
+
+  return Array.from(candidates)
+    .map((time) => ({ start: new Date(time), end: new Date(time + duration) }))
+    .filter(
+      (slot) =>
+        !isBefore(slot.start, windowStart) &&
+        !isBefore(windowEnd, slot.end) &&
+        !isBefore(slot.start, now) &&
+        busy.every((reserved) => !areIntervalsOverlapping(slot, reserved))
+    )
+    .sort(
+      (a, b) =>
+        Math.abs(a.start.getTime() - range.start.getTime()) - Math.abs(b.start.getTime() - range.start.getTime()) ||
+        a.start.getTime() - b.start.getTime()
+    )
+    .slice(0, count)
+}
+
+/**
+ * 주어진 날짜가 속한 학기의 마지막 날(`yyyy-MM-dd`)을 반환합니다. (1학기: 6월 30일, 2학기: 12월 31일)
+ */
+export function getSemesterEndDate(date = new Date()) {
+  const year = formatKst(date, 'yyyy')
+  return Number(formatKst(date, 'M')) <= 6 ? `${year}-06-30` : `${year}-12-31`
+}
+
+/**
+ * 스터디의 요일, 시간으로 `from`부터 `until`까지 매주 반복되는 예약 시간을 만듭니다.
+ * 최대 `MAX_WEEKLY_OCCURRENCES`개까지만 만듭니다.
+ * @param from 시작 날짜 (`yyyy-MM-dd`)
+ * @param until 종료 날짜 (`yyyy-MM-dd`, 포함)
+ */
+export function createWeeklyOccurrences(
+  { day, startTime, endTime }: Pick<Study, 'day' | 'startTime' | 'endTime'>,
+  from: string,
+  until: string
+): TimeRange[] {
+  const first = toKstDateTime(from)
+  const last = toKstDateTime(until)
+  if (isNaN(first.getTime()) || isNaN(last.getTime())) return []
+
+  const occurrences: TimeRange[] = []
+  const offset = (DAY_INDEX[day] - toKstWallClock(first).getDay() + 7) % 7
+  let date = new Date(first.getTime() + offset * DAY_MS)
+  while (!isAfter(date, last) && occurrences.length < MAX_WEEKLY_OCCURRENCES) {
+    occurrences.push(createTimeRange(formatKst(date, 'yyyy-MM-dd'), formatClubTime(startTime), formatClubTime(endTime)))
+    date = new Date(date.getTime() + 7 * DAY_MS)
+  }
+  return occurrences
+}
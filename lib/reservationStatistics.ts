@@ -0,0 +1,158 @@
+import { format, startOfWeek } from 'date-fns'
+
+import { formatKst, toKstWallClock } from '@/lib/date'
+import { toTimeRange } from '@/lib/reservation'
+import { Reservation, ReservationStatus } from '@/types'
+
+/**
+ * 동아리방 예약(`RESERVATION.LIST`)으로 이용 통계를 계산합니다.
+ * 이용 시간은 승인된 예약만, 승인/거절 비율은 모든 예약을 기준으로 합니다.
+ */
+const HOUR_MS = 60 * 60 * 1000
+
+// 히트맵과 표의 요일 순서 (월요일 시작)
+export const WEEKDAYS = ['월', '화', '수', '목', '금', '토', '일'] as const
+
+export interface WeeklyUsage {
+  // 한 주의 시작일(월요일, `yyyy-MM-dd`)
+  weekStart: string
+  hours: number
+}
+
+export interface UsageRank {
+  name: string
+  count: number
+  hours: number
+}
+
+export interface MonthlyStatus {
+  // `yyyy-MM`
+  month: string
+  accepted: number
+  declined: number
+  waiting: number
+}
+
+const isAccepted = ({ isVerified }: Reservation) => isVerified === 'ACCEPT'
+
+export const getReservationHours = (reservation: Reservation) => {
+  const { start, end } = toTimeRange(reservation)
+  return Math.max(0, end.getTime() - start.getTime()) / HOUR_MS
+}
+
+// 월요일을 0으로 하는 한국 시간 기준 요일
+const getWeekdayIndex = (date: Date) => (toKstWallClock(date).getDay() + 6) % 7
+
+/**
+ * 여러 달의 예약을 합칠 때, 같은 예약이 중복되지 않도록 합니다.
+ */
+export const uniqueReservations = (reservations: Reservation[]) =>
+  Array.from(new Map(reservations.map((reservation) => [reservation.id, reservation])).values())
+
+export function summarizeWeeklyUsage(reservations: Reservation[]): WeeklyUsage[] {
+  const weeks = new Map<string, number>()
+  reservations.filter(isAccepted).forEach((reservation) => {
+    const weekStart = startOfWeek(toKstWallClock(toTimeRange(reservation).start), { weekStartsOn: 1 })
+    const key = format(weekStart, 'yyyy-MM-dd')
+    weeks.set(key, (weeks.get(key) ?? 0) + getReservationHours(reservation))
+  })
+
+  return Array.from(weeks.entries())
+    .map(([weekStart, hours]) => ({ weekStart, hours }))
+    .sort((a, b) => a.weekStart.localeCompare(b.weekStart))
+}
+
+/**
+ * 요일(월 ~ 일) x 시각(0 ~ 23시)별로 예약된 시간을 더합니다.
+ * 30분 예약은 해당 칸에 0.5시간으로 더해집니다.
+ */
+export function createUsageHeatmap(reservations: Reservation[]) {
+  const heatmap = WEEKDAYS.map(() => Array<number>(24).fill(0))
+
+  reservations.filter(isAccepted).forEach((reservation) => {
+    const { start, end } = toTimeRange(reservation)
+    let cursor = start.getTime()
+    while (cursor < end.getTime()) {
+      const hourEnd = Math.min(end.getTime(), Math.floor(cursor / HOUR_MS) * HOUR_MS + HOUR_MS)
+      const date = new Date(cursor)
+      heatmap[getWeekdayIndex(date)][toKstWallClock(date).getHours()] += (hourEnd - cursor) / HOUR_MS
+      cursor = hourEnd
+    }
+  })
+
+  return heatmap
+}
+
+function rankBy(reservations: Reservation[], getName: (reservation: Reservation) => string | null, limit: number) {
+  const ranks = new Map<string, UsageRank>()
+  reservations.filter(isAccepted).forEach((reservation) => {
+    const name = getName(reservation)
+    if (!name) return
+    const rank = ranks.get(name) ?? { name, count: 0, hours: 0 }
+    ranks.set(name, { name, count: rank.count + 1, hours: rank.hours + getReservationHours(reservation) })
+  })
+
+  return Array.from(ranks.values())
+    .sort((a, b) => b.hours - a.hours || b.count - a.count)
+    .slice(0, limit)
+}
+
+export const rankReservers = (reservations: Reservation[], limit = 5) =>
+  rankBy(reservations, (reservation) => reservation.reserver.username, limit)
+
+/**
+ * @param studyTitles 스터디 id별 제목, 목록에 없는 스터디는 `스터디 #id`로 표시합니다.
+ */
+export const rankStudies = (reservations: Reservation[], studyTitles: Map<number, string>, limit = 5) =>
+  rankBy(reservations, ({ studyId }) => (studyId ? (studyTitles.get(studyId) ?? `스터디 #${studyId}`) : null), limit)
+
+export function summarizeMonthlyStatus(reservations: Reservation[]): MonthlyStatus[] {
+  const months = new Map<string, MonthlyStatus>()
+  const keys: Record<ReservationStatus, 'accepted' | 'declined' | 'waiting'> = {
+    ACCEPT: 'accepted',
+    DECLINE: 'declined',
+    WAIT: 'waiting'
+  }
+
+  reservations.forEach((reservation) => {
+    const month = formatKst(reservation.startTime, 'yyyy-MM')
+    const status = months.get(month) ?? { month, accepted: 0, declined: 0, waiting: 0 }
+    status[keys[reservation.isVerified]] += 1
+    months.set(month, status)
+  })
+
+  return Array.from(months.values()).sort((a, b) => a.month.localeCompare(b.month))
+}
+
+const STATUS_LABELS: Record<ReservationStatus, string> = {
+  ACCEPT: '승인',
+  DECLINE: '거절',
+  WAIT: '대기'
+}
+
+const escapeCsv = (value: string | number) => {
+  const text = `${value}`
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * 예약 목록을 CSV로 만듭니다. Excel에서 한글이 깨지지 않도록 BOM을 붙입니다.
+ */
+export function reservationsToCsv(reservations: Reservation[], studyTitles: Map<number, string>) {
+  const header = ['날짜', '요일', '시작', '종료', '이용 시간(시간)', '제목', '예약자', '스터디', '상태']
+  const rows = [...reservations]
+    .sort((a, b) => toTimeRange(a).start.getTime() - toTimeRange(b).start.getTime())
+    .map((reservation) => [
+      formatKst(reservation.startTime, 'yyyy-MM-dd'),
+      formatKst(reservation.startTime, 'EEE'),
+      formatKst(reservation.startTime, 'HH:mm'),
+      formatKst(reservation.endTime, 'HH:mm'),
+      getReservationHours(reservation),
+      reservation.title,
+      reservation.reserver.username,
+      reservation.studyId ? (studyTitles.get(reservation.studyId) ?? `스터디 #${reservation.studyId}`) : '',
+      STATUS_LABELS[reservation.isVerified]
+    ])
+
+  return '\uFEFF' + [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n')
+}
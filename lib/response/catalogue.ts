@@ -0,0 +1,139 @@
+import { HttpStatusCode } from '../../app/api/utils/httpConsts'
+import {
+  DuplicatedCredentialsErrorCode,
+  InternalServerErrorCode,
+  InvalidSigninCredentialsErrorCode,
+  InvalidSigninErrorCode,
+  InvalidSignupCredentialsErrorCode
+} from '../auth/errors'
+import { CustomError, CustomErrorDTO, CustomResponseDTO } from '../response'
+import {
+  AlreadySignedup,
+  ApplicationAlreadyDecided,
+  EnrollmentPeriodExceeded,
+  InvalidCalendarToken,
+  NetworkError,
+  ReservationConflict,
+  ResponseSchemaMismatch,
+  SemesterNotConfigured,
+  StudyAlreadyClosed,
+  StudyCapacityExceeded
+} from './errors'
+
+// 사용자에게 보여줄 메시지(`detail`)가 있는 에러, 메시지는 `lib/response/errors.ts`에서 관리합니다.
+const CATALOGUED_ERRORS: CustomError[] = [
+  // 스터디 신청
+  AlreadySignedup,
+  ApplicationAlreadyDecided,
+  StudyCapacityExceeded,
+  SemesterNotConfigured,
+  EnrollmentPeriodExceeded,
+  // 스터디 종료
+  StudyAlreadyClosed,
+  // 동아리방 예약
+  ReservationConflict,
+  // 캘린더 구독
+  InvalidCalendarToken,
+  // 클라이언트
+  NetworkError,
+  ResponseSchemaMismatch
+]
+
+/**
+ * `errorType`별로 사용자에게 보여줄 메시지 입니다.
+ * 백엔드, 클라이언트 에러는 `CATALOGUED_ERRORS`의 `detail`을, next-auth(`lib/auth/errors.ts`)의 에러 코드는 아래 메시지를 사용합니다.
+ * 서버 응답에도 쓰이는 `detail`을 바꾸지 않고 화면의 문구만 바꿀 때는 아래에 덮어씁니다.
+ */
+export const ERROR_MESSAGES: Record<string, string> = {
+  ...Object.fromEntries(
+    CATALOGUED_ERRORS.flatMap(({ errorType, detail }) => (detail ? [[errorType, detail] as const] : []))
+  ),
+  [AlreadySignedup.errorType]: '이미 신청한 스터디입니다.',
+
+  // next-auth
+  [InvalidSigninErrorCode]: '이메일 또는 비밀번호가 일치하지 않습니다.',
+  [InvalidSigninCredentialsErrorCode]: '이메일 또는 비밀번호가 일치하지 않습니다.',
+  [InvalidSignupCredentialsErrorCode]: '회원가입 정보가 올바르지 않습니다.',
+  [DuplicatedCredentialsErrorCode]: '이미 가입된 회원 정보입니다.',
+  [InternalServerErrorCode]: '서버에 문제가 발생했습니다. 잠시 후 다시 시도해주세요.'
+}
+
+/**
+ * `errorType`이 없거나 `BadRequest`처럼 일반적인 경우 HTTP 상태 코드로 메시지를 정합니다.
+ * 400, 409, 500처럼 원인을 특정할 수 없는 상태 코드는 호출하는 쪽의 `fallback` 메시지를 사용합니다.
+ */
+const STATUS_MESSAGES: Partial<Record<number, string>> = {
+  [HttpStatusCode.UnAuthorized]: '로그인이 필요합니다. 다시 로그인해주세요.',
+  [HttpStatusCode.Forbidden]: '요청한 작업을 수행할 권한이 없습니다.',
+  [HttpStatusCode.NotFound]: '요청한 정보를 찾을 수 없습니다.',
+  [HttpStatusCode.NotImplemented]: '아직 지원하지 않는 기능입니다.'
+}
+
+const DEFAULT_MESSAGE = '요청을 처리하는 중 오류가 발생했습니다.'
+
+/**
+ * 실패한 API 응답을 나타내는 에러 입니다.
+ * - `detail`: 에러 코드나 상태 코드로 알아낸 사용자용 메시지 (원인을 특정할 수 없으면 `undefined`)
+ * - `message`: `detail`이 없으면 생성할 때 전달한 `fallback` 메시지
+ */
+export class ApiError extends Error {
+  errorType: string
+  status: number
+  detail?: string
+
+  constructor({ errorType, status, detail }: CustomError, fallback?: string) {
+    super(detail ?? fallback ?? DEFAULT_MESSAGE)
+    this.name = 'ApiError'
+    this.errorType = errorType
+    this.status = status
+    this.detail = detail
+  }
+}
+
+/**
+ * 응답의 `error`와 상태 코드로 `ApiError`를 생성합니다.
+ * 메시지 우선순위: `ERROR_MESSAGES` > 서버가 보낸 `detail` > 상태 코드 메시지 > `fallback`
+ */
+export function createApiError(status: number, error?: CustomErrorDTO | null, fallback?: string): ApiError {
+  const errorType = error?.errorType ?? `HTTP/${status}`
+  const detail = ERROR_MESSAGES[errorType] ?? error?.detail ?? STATUS_MESSAGES[status]
+  return new ApiError({ errorType, status, detail }, fallback)
+}
+
+/**
+ * 실패한 `fetchData` 응답을 `ApiError`로 변환합니다. 응답 본문은 복제해서 읽으므로 이후에도 사용할 수 있습니다.
+ * @param fallback 원인을 특정할 수 없을 때 보여줄 메시지
+ *
+ * @example
+   ```ts
+   if (!res.ok) {
+     throw await toApiError(res)
+   }
+   ...
+   } catch (error) {
+     toast({ variant: 'destructive', description: getErrorMessage(error, '스터디 참여에 실패했습니다.') })
+   }
+   ```
+ */
+export async function toApiError(res: Response, fallback?: string): Promise<ApiError> {
+  const json: CustomResponseDTO | null = await res
+    .clone()
+    .json()
+    .catch(() => null)
+  return createApiError(res.status, json?.error, fallback)
+}
+
+/**
+ * 토스트 등에 보여줄 에러 메시지를 반환합니다.
+ * `ApiError`, `CustomErrorDTO`, next-auth의 에러 코드(`string`)를 모두 받을 수 있으며,
+ * 원인을 특정할 수 없으면 `fallback` 메시지를 반환합니다.
+ */
+export function getErrorMessage(error: unknown, fallback?: string): string {
+  if (error instanceof ApiError) return error.detail ?? fallback ?? error.message
+  if (typeof error === 'string') return ERROR_MESSAGES[error] ?? fallback ?? DEFAULT_MESSAGE
+  if (error && typeof error === 'object' && 'errorType' in error) {
+    const { errorType, detail } = error as CustomErrorDTO
+    return ERROR_MESSAGES[errorType] ?? detail ?? fallback ?? DEFAULT_MESSAGE
+  }
+  return fallback ?? DEFAULT_MESSAGE
+}
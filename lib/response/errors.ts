@@ -26,6 +26,10 @@ export const NotAcceptable: CustomError = {
   errorType: 'NotAcceptable',
   status: HttpStatusCode.NotAcceptable
 }
+export const Conflict: CustomError = {
+  errorType: 'Conflict',
+  status: HttpStatusCode.Conflict
+}
 export const IamAteapot: CustomError = {
   errorType: 'IamAteapot',
   status: HttpStatusCode.IamAteapot
@@ -47,14 +51,63 @@ export const AlreadySignedup: CustomError = {
   detail: '이미 신청되었습니다'
 }
 
+export const ApplicationAlreadyDecided: CustomError = {
+  errorType: 'StudySignup/AlreadyDecided',
+  status: HttpStatusCode.Conflict,
+  detail: '스터디장이 이미 신청을 처리하여 신청서를 수정하거나 취소할 수 없습니다.'
+}
+
+export const StudyCapacityExceeded: CustomError = {
+  errorType: 'StudySignup/CapacityExceeded',
+  status: HttpStatusCode.Conflict,
+  detail: '스터디 정원이 가득 찼습니다. 정원을 늘리거나 참여 중인 멤버가 나간 뒤 승인해주세요.'
+}
+
+export const StudyAlreadyClosed: CustomError = {
+  errorType: 'Study/AlreadyClosed',
+  status: HttpStatusCode.Conflict,
+  detail: '이미 종료된 스터디입니다. 수료증은 다시 발급할 수 없습니다.'
+}
+
+export const SemesterNotConfigured: CustomError = {
+  errorType: 'Semester/NotConfigured',
+  status: HttpStatusCode.BadRequest,
+  detail: '관리자가 설정하지 않은 학기입니다. 학기 설정을 확인해주세요.'
+}
+
 export const EnrollmentPeriodExceeded: CustomError = {
   errorType: 'StudySignup/EnrollmentPeriodExceeded',
   status: HttpStatusCode.BadRequest,
   detail: '현재는 수강신청 가능한 기간이 아닙니다. 관리자에게 문의하세요.'
 }
 
+export const InvalidCalendarToken: CustomError = {
+  errorType: 'Calendar/InvalidToken',
+  status: HttpStatusCode.UnAuthorized,
+  detail: '캘린더 구독 주소가 올바르지 않거나 만료되었습니다. 주소를 다시 발급받아 주세요.'
+}
+
+export const ReservationConflict: CustomError = {
+  errorType: 'Reservation/Conflict',
+  status: HttpStatusCode.Conflict,
+  detail: '이미 예약된 시간입니다. 다른 시간을 선택해 주세요.'
+}
+
 export const NoIdProvided: CustomError = {
   errorType: 'BadRequest',
   status: HttpStatusCode.BadRequest,
   detail: 'ID가 주어지지 않았습니다. 요청에 ID를 포함시켜 주세요'
 }
+
+// Client-side errors
+export const NetworkError: CustomError = {
+  errorType: 'Client/NetworkError',
+  status: HttpStatusCode.InternalServerError,
+  detail: '서버에 연결할 수 없습니다. 네트워크 상태를 확인해주세요.'
+}
+
+export const ResponseSchemaMismatch: CustomError = {
+  errorType: 'Client/ResponseSchemaMismatch',
+  status: HttpStatusCode.InternalServerError,
+  detail: '서버 응답의 형식이 올바르지 않습니다. 잠시 후 다시 시도해주세요.'
+}
@@ -0,0 +1,37 @@
+'use client'
+
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import { useCallback, useMemo } from 'react'
+
+/**
+ * 검색 조건을 URL 쿼리와 동기화하는 Hook
+ * 조건을 바꾸면 방문 기록을 쌓지 않고 URL을 교체하므로, 뒤로 가기 시 검색 이전 페이지로 돌아갑니다.
+ * `useSearchParams`를 사용하므로 `Suspense` 안에서 렌더링해주세요.
+ * @param parse URL 쿼리를 검색 조건으로 변환 (ex. `parseStudyFilters`)
+ * @param serialize 검색 조건을 URL 쿼리로 변환 (ex. `toStudySearchParams`)
+ *
+ * @example
+   ```ts
+   const [filters, setFilters] = useSearchFilters(parseStudyFilters, toStudySearchParams)
+   setFilters({ campus: ['명륜'] })
+   ```
+ */
+export const useSearchFilters = <T>(
+  parse: (params: URLSearchParams) => T,
+  serialize: (filters: T) => URLSearchParams
+) => {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const filters = useMemo(() => parse(new URLSearchParams(searchParams.toString())), [parse, searchParams])
+
+  const setFilters = useCallback(
+    (next: Partial<T>) => {
+      const query = serialize({ ...filters, ...next }).toString()
+      router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+    },
+    [filters, pathname, router, serialize]
+  )
+
+  return [filters, setFilters] as const
+}
@@ -0,0 +1,206 @@
+import { hasTag, normalizeTag, toTagKey } from '@/lib/tag'
+import { Campus, Day, Event, Level, Study } from '@/types'
+
+/**
+ * 스터디, 행사 목록의 검색 조건을 다룹니다.
+ * 검색 조건은 URL 쿼리에 담아 필터링한 목록을 그대로 공유할 수 있으며, 기본값인 조건은 쿼리에서 생략합니다.
+ * 여러 개를 고를 수 있는 조건은 같은 키를 반복합니다. (ex. `/study?campus=명륜&campus=율전&tag=React`)
+ */
+export const CAMPUS_OPTIONS: Campus[] = ['명륜', '율전', '온라인', '공통']
+export const DAY_OPTIONS: Day[] = ['월', '화', '수', '목', '금', '토', '일']
+export const LEVEL_OPTIONS: Level[] = ['초급', '중급', '고급']
+
+export const STUDY_SORTS = {
+  latest: '최근 개설순',
+  title: '이름순',
+  day: '요일순'
+} as const
+export type StudySort = keyof typeof STUDY_SORTS
+
+export const EVENT_SORTS = {
+  upcoming: '가까운 날짜순',
+  latest: '최근 날짜순',
+  title: '이름순'
+} as const
+export type EventSort = keyof typeof EVENT_SORTS
+
+export interface StudyFilters {
+  query: string
+  campus: Campus[]
+  day: Day[]
+  level: Level[]
+  tags: string[]
+  // 학기 (ex. Spring), 빈 문자열이면 전체
+  semester: string
+  recruitingOnly: boolean
+  sort: StudySort
+}
+
+export interface EventFilters {
+  query: string
+  semester: string
+  // 빈 문자열이면 전체
+  year: string
+  tags: string[]
+  // 행사 기간과 겹치는 행사만 보여줍니다. (`yyyy-MM-dd`, 빈 문자열이면 제한 없음)
+  from: string
+  to: string
+  location: string
+  sort: EventSort
+}
+
+export const DEFAULT_STUDY_FILTERS: StudyFilters = {
+  query: '',
+  campus: [],
+  day: [],
+  level: [],
+  tags: [],
+  semester: '',
+  recruitingOnly: false,
+  sort: 'latest'
+}
+
+export const DEFAULT_EVENT_FILTERS: EventFilters = {
+  query: '',
+  semester: '',
+  year: '',
+  tags: [],
+  from: '',
+  to: '',
+  location: '',
+  sort: 'upcoming'
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// 쿼리에 직접 입력한 값 중 선택지에 없는 값은 무시합니다.
+const pickOptions = <T extends string>(values: string[], options: readonly T[]) =>
+  options.filter((option) => values.includes(option))
+
+const pickSort = <T extends string>(value: string | null, sorts: Record<T, string>, fallback: T) =>
+  value && value in sorts ? (value as T) : fallback
+
+// 대소문자, 공백만 다른 태그는 하나만 남깁니다.
+const parseTags = (values: string[]) =>
+  values
+    .map(normalizeTag)
+    .filter((tag, index, tags) => tag && tags.findIndex((t) => toTagKey(t) === toTagKey(tag)) === index)
+
+export function parseStudyFilters(params: URLSearchParams): StudyFilters {
+  return {
+    query: params.get('q')?.trim() ?? '',
+    campus: pickOptions(params.getAll('campus'), CAMPUS_OPTIONS),
+    day: pickOptions(params.getAll('day'), DAY_OPTIONS),
+    level: pickOptions(params.getAll('level'), LEVEL_OPTIONS),
+    tags: parseTags(params.getAll('tag')),
+    semester: params.get('semester') ?? '',
+    recruitingOnly: params.get('recruiting') === 'true',
+    sort: pickSort(params.get('sort'), STUDY_SORTS, DEFAULT_STUDY_FILTERS.sort)
+  }
+}
+
+export function toStudySearchParams(filters: StudyFilters) {
+  const params = new URLSearchParams()
+  if (filters.query) params.set('q', filters.query)
+  filters.campus.forEach((campus) => params.append('campus', campus))
+  filters.day.forEach((day) => params.append('day', day))
+  filters.level.forEach((level) => params.append('level', level))
+  filters.tags.forEach((tag) => params.append('tag', tag))
+  if (filters.semester) params.set('semester', filters.semester)
+  if (filters.recruitingOnly) params.set('recruiting', 'true')
+  if (filters.sort !== DEFAULT_STUDY_FILTERS.sort) params.set('sort', filters.sort)
+  return params
+}
+
+export function parseEventFilters(params: URLSearchParams): EventFilters {
+  const date = (key: string) => {
+    const value = params.get(key) ?? ''
+    return DATE_PATTERN.test(value) ? value : ''
+  }
+  const year = params.get('year') ?? ''
+  return {
+    query: params.get('q')?.trim() ?? '',
+    semester: params.get('semester') ?? '',
+    year: /^\d{4}$/.test(year) ? year : '',
+    tags: parseTags(params.getAll('tag')),
+    from: date('from'),
+    to: date('to'),
+    location: params.get('location')?.trim() ?? '',
+    sort: pickSort(params.get('sort'), EVENT_SORTS, DEFAULT_EVENT_FILTERS.sort)
+  }
+}
+
+export function toEventSearchParams(filters: EventFilters) {
+  const params = new URLSearchParams()
+  if (filters.query) params.set('q', filters.query)
+  if (filters.semester) params.set('semester', filters.semester)
+  if (filters.year) params.set('year', filters.year)
+  filters.tags.forEach((tag) => params.append('tag', tag))
+  if (filters.from) params.set('from', filters.from)
+  if (filters.to) params.set('to', filters.to)
+  if (filters.location) params.set('location', filters.location)
+  if (filters.sort !== DEFAULT_EVENT_FILTERS.sort) params.set('sort', filters.sort)
+  return params
+}
+
+const includesText = (values: (string | undefined)[], query: string) =>
+  values.some((value) => value?.toLowerCase().includes(query.toLowerCase()))
+
+// 선택한 태그를 모두 가진 항목만 남깁니다.
+const hasAllTags = (tags: string[], selected: string[]) => selected.every((tag) => hasTag(tags, tag))
+
+export function filterStudies(studies: Study[], filters: StudyFilters) {
+  const { query, campus, day, level, tags, semester, recruitingOnly, sort } = filters
+  const filtered = studies.filter(
+    (study) =>
+      (!query || includesText([study.title, study.description, study.mentor.username, ...study.tags], query)) &&
+      (campus.length === 0 || campus.includes(study.campus)) &&
+      (day.length === 0 || day.includes(study.day)) &&
+      (level.length === 0 || level.includes(study.level)) &&
+      hasAllTags(study.tags, tags) &&
+      (!semester || study.semester === semester) &&
+      (!recruitingOnly || study.isRecruiting)
+  )
+
+  return filtered.sort((a, b) => {
+    switch (sort) {
+      case 'title':
+        return a.title.localeCompare(b.title, 'ko')
+      case 'day':
+        return DAY_OPTIONS.indexOf(a.day) - DAY_OPTIONS.indexOf(b.day) || a.startTime.localeCompare(b.startTime)
+      default:
+        return b.id - a.id
+    }
+  })
+}
+
+export function filterEvents(events: Event[], filters: EventFilters) {
+  const { query, semester, year, tags, from, to, location, sort } = filters
+  const filtered = events.filter(
+    (event) =>
+      (!query || includesText([event.title, event.description, event.location, ...event.tags], query)) &&
+      (!semester || event.semester === semester) &&
+      (!year || event.year === Number(year)) &&
+      hasAllTags(event.tags, tags) &&
+      (!from || event.endDate >= from) &&
+      (!to || event.startDate <= to) &&
+      (!location || includesText([event.location], location))
+  )
+
+  return filtered.sort((a, b) => {
+    switch (sort) {
+      case 'title':
+        return a.title.localeCompare(b.title, 'ko')
+      case 'latest':
+        return b.startDate.localeCompare(a.startDate)
+      default:
+        return a.startDate.localeCompare(b.startDate)
+    }
+  })
+}
+
+export const countStudyFilters = ({ query, campus, day, level, tags, semester, recruitingOnly }: StudyFilters) =>
+  [query, semester, recruitingOnly].filter(Boolean).length + campus.length + day.length + level.length + tags.length
+
+export const countEventFilters = ({ query, semester, year, tags, from, to, location }: EventFilters) =>
+  [query, semester, year, from, to, location].filter(Boolean).length + tags.length
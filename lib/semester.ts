@@ -0,0 +1,147 @@
+import { z } from 'zod'
+
+import { formatKst, getKstYearMonth, toKstDateTime } from '@/lib/date'
+import { Period, Semester } from '@/types'
+
+/**
+ * 관리자가 설정한 학기(`SEMESTER.LIST`)로 스터디 개설, 참여 신청 가능 여부를 판단합니다.
+ * 모든 기간은 한국 시간 기준 날짜이며, 시작일 0시부터 종료일 24시 직전까지 입니다.
+ * 서버도 같은 기간으로 검사하며, 기간이 아닐 때는 `EnrollmentPeriodExceeded`를 응답합니다.
+ */
+const MINUTE_MS = 60 * 1000
+const HOUR_MS = 60 * MINUTE_MS
+const DAY_MS = 24 * HOUR_MS
+
+// 스터디, 행사의 `semester` 값별 표시 이름
+export const SEMESTER_TERMS: Record<string, string> = {
+  Spring: '1학기',
+  Summer: '여름학기',
+  Fall: '2학기',
+  Winter: '겨울학기'
+}
+
+export type SemesterPeriodKey = 'openingPeriod' | 'applicationPeriod' | 'activityPeriod'
+
+export const SEMESTER_PERIODS: Record<SemesterPeriodKey, string> = {
+  openingPeriod: '스터디 개설',
+  applicationPeriod: '스터디 신청',
+  activityPeriod: '활동'
+}
+
+export type PeriodStatus = 'upcoming' | 'open' | 'closed'
+
+/**
+ * 기간의 실제 시작, 종료 시각을 반환합니다. 종료 시각은 종료일 다음 날 0시(포함하지 않음) 입니다.
+ */
+export const getPeriodRange = ({ start, end }: Period) => ({
+  start: toKstDateTime(start),
+  end: new Date(toKstDateTime(end).getTime() + DAY_MS)
+})
+
+export function getPeriodStatus(period: Period, now = new Date()): PeriodStatus {
+  const { start, end } = getPeriodRange(period)
+  if (now < start) return 'upcoming'
+  return now < end ? 'open' : 'closed'
+}
+
+export const isPeriodOpen = (period: Period, now = new Date()) => getPeriodStatus(period, now) === 'open'
+
+export const formatSemester = ({ year, semester }: { year?: number; semester: string }) =>
+  `${year ? `${year}년 ` : ''}${SEMESTER_TERMS[semester] ?? semester}`
+
+export const formatPeriod = ({ start, end }: Period) => `${formatKst(start, 'M월 d일')} ~ ${formatKst(end, 'M월 d일')}`
+
+/**
+ * 스터디, 행사의 학기에 해당하는 학기 설정을 찾습니다.
+ * 연도가 없는 스터디는 학기 이름이 같은 설정 중 가장 최근 연도를 사용합니다.
+ */
+export const findSemester = (semesters: Semester[], { year, semester }: { year?: number; semester: string }) =>
+  semesters
+    .filter((config) => config.semester === semester && (year === undefined || config.year === year))
+    .sort((a, b) => b.year - a.year)[0]
+
+/**
+ * 해당 기간이 진행 중인 학기를 찾습니다.
+ */
+export const findOpenSemester = (semesters: Semester[], key: SemesterPeriodKey, now = new Date()) =>
+  semesters.find((semester) => isPeriodOpen(semester[key], now))
+
+/**
+ * 해당 기간이 아직 시작하지 않은 학기 중 가장 먼저 시작하는 학기를 찾습니다.
+ */
+export const findUpcomingSemester = (semesters: Semester[], key: SemesterPeriodKey, now = new Date()) =>
+  semesters
+    .filter((semester) => getPeriodStatus(semester[key], now) === 'upcoming')
+    .sort((a, b) => a[key].start.localeCompare(b[key].start))[0]
+
+/**
+ * 학기 설정을 불러오지 못했을 때 사용할, 한국 시간 기준 날짜로 추정한 학기입니다.
+ * 추정한 학기가 설정되어 있지 않거나 기간이 아니면 서버가 `SemesterNotConfigured` 등으로 응답합니다.
+ */
+export function estimateSemester(now = new Date()) {
+  const { year, month } = getKstYearMonth(now)
+  const semester = month <= 2 ? 'Winter' : month <= 6 ? 'Spring' : month <= 8 ? 'Summer' : 'Fall'
+  return { year, semester }
+}
+
+/**
+ * 날짜(`yyyy-MM-dd`)가 활동 기간에 포함되는 학기를 찾습니다. 행사의 학기를 정할 때 사용합니다.
+ */
+export const findSemesterByDate = (semesters: Semester[], date: string) =>
+  semesters.find(({ activityPeriod }) => activityPeriod.start <= date && date <= activityPeriod.end)
+
+const pad = (value: number) => `${value}`.padStart(2, '0')
+
+/**
+ * 남은 시간을 표시합니다. 하루 이상 남았으면 일, 시간, 분을, 하루 미만이면 `HH:mm:ss`로 표시합니다.
+ * @example formatCountdown(deadline) // 3일 4시간 12분
+ */
+export function formatCountdown(target: Date, now = new Date()) {
+  const diff = Math.max(0, target.getTime() - now.getTime())
+  const days = Math.floor(diff / DAY_MS)
+  const hours = Math.floor((diff % DAY_MS) / HOUR_MS)
+  const minutes = Math.floor((diff % HOUR_MS) / MINUTE_MS)
+  const seconds = Math.floor((diff % MINUTE_MS) / 1000)
+
+  return days > 0 ? `${days}일 ${hours}시간 ${minutes}분` : `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`
+}
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, { message: '날짜를 입력해주세요' })
+
+const periodSchema = z
+  .object({ start: dateString, end: dateString })
+  .refine(({ start, end }) => start <= end, { message: '종료일은 시작일 이후여야 합니다', path: ['end'] })
+
+/**
+ * 관리자 학기 설정 폼의 검증 스키마 입니다.
+ */
+export const semesterFormSchema = z
+  .object({
+    year: z
+      .number({ invalid_type_error: '연도를 입력해주세요' })
+      .int()
+      .min(2000, { message: '연도를 확인해주세요' })
+      .max(2100, { message: '연도를 확인해주세요' }),
+    semester: z.string().min(1, { message: '학기를 선택해주세요' }),
+    openingPeriod: periodSchema,
+    applicationPeriod: periodSchema,
+    activityPeriod: periodSchema
+  })
+  .superRefine(({ openingPeriod, applicationPeriod, activityPeriod }, ctx) => {
+    if (applicationPeriod.start < openingPeriod.start) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['applicationPeriod', 'start'],
+        message: '신청 기간은 개설 기간 이후에 시작해야 합니다'
+      })
+    }
+    if (activityPeriod.end < applicationPeriod.end) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['activityPeriod', 'end'],
+        message: '활동 기간은 신청 기간 이후에 끝나야 합니다'
+      })
+    }
+  })
+
+export type SemesterFormValues = z.infer<typeof semesterFormSchema>
@@ -0,0 +1,39 @@
+import { z } from 'zod'
+
+import { Member, Study } from '@/types'
+
+/**
+ * 스터디 정원과 대기 순서를 다룹니다.
+ * 정원이 찬 스터디의 신청은 대기(`Wait`) 상태로 신청 순서대로 쌓이며,
+ * 참여 중인 멤버가 `STUDY.LEAVE`로 나가면 서버가 대기 순서가 가장 빠른 신청자를 자동으로 승인합니다.
+ */
+export const MAX_STUDY_MEMBERS = 100
+
+// 빈 입력은 `null`(제한 없음)로 처리합니다. `register`의 `setValueAs`와 함께 사용해주세요.
+export const maxMembersSchema = z
+  .number({ invalid_type_error: '숫자를 입력해주세요' })
+  .int({ message: '정수로 입력해주세요' })
+  .min(1, { message: '1명 이상이어야 합니다' })
+  .max(MAX_STUDY_MEMBERS, { message: `${MAX_STUDY_MEMBERS}명 이하로 입력해주세요` })
+  .nullable()
+
+export const toMaxMembers = (value: unknown) =>
+  value === '' || value === null || value === undefined ? null : Number(value)
+
+/**
+ * 정원이 정해져 있고, 승인된 멤버 수가 정원 이상이면 `true`
+ */
+export const isStudyFull = ({ maxMembers }: Pick<Study, 'maxMembers'>, memberCount: number) =>
+  maxMembers !== null && memberCount >= maxMembers
+
+export const formatCapacity = ({ maxMembers }: Pick<Study, 'maxMembers'>, memberCount: number) =>
+  maxMembers === null ? `${memberCount}명 (제한 없음)` : `${memberCount} / ${maxMembers}명`
+
+/**
+ * 대기 중인 신청자를 신청 순서대로 정렬합니다. 신청 시각이 없는 신청자는 뒤로 보냅니다.
+ */
+export const sortWaitlist = (members: Member[]) =>
+  [...members].sort((a, b) => {
+    if (!a.appliedAt || !b.appliedAt) return a.appliedAt ? -1 : b.appliedAt ? 1 : 0
+    return a.appliedAt.localeCompare(b.appliedAt)
+  })
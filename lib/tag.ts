@@ -0,0 +1,79 @@
+import { z } from 'zod'
+
+import { Tag } from '@/types'
+
+/**
+ * 스터디, 행사의 태그(스택)를 다룹니다.
+ * 태그는 입력한 대소문자를 그대로 보여주되, 중복 검사와 검색은 `toTagKey`로 대소문자, 공백을 무시하고 비교합니다.
+ * 태그 레지스트리(`TAG.LIST`)에 등록된 태그나 별칭과 같은 태그는 레지스트리의 이름으로 바꿔 저장합니다.
+ *
+ * `normalizeTag`: 앞뒤 공백을 지우고, 연속된 공백을 하나로 합칩니다. (ex. `  Next   js ` → `Next js`)
+ */
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, ' ')
+
+/**
+ * 태그를 비교할 때 사용하는 값입니다. (ex. `Next JS`, `nextjs` → `nextjs`)
+ */
+export const toTagKey = (tag: string) => normalizeTag(tag).replace(/\s/g, '').toLowerCase()
+
+export const hasTag = (tags: string[], tag: string) => tags.some((current) => toTagKey(current) === toTagKey(tag))
+
+export const MAX_TAGS = 4
+export const MAX_TAG_LENGTH = 20
+const MAX_SUGGESTIONS = 8
+
+export const getTagUsage = ({ studyCount, eventCount }: Pick<Tag, 'studyCount' | 'eventCount'>) =>
+  studyCount + eventCount
+
+export const findTag = (registry: Tag[], tag: string) => {
+  const key = toTagKey(tag)
+  return registry.find(
+    ({ name, aliases }) => toTagKey(name) === key || aliases.some((alias) => toTagKey(alias) === key)
+  )
+}
+
+/**
+ * 입력한 태그를 정리하고, 레지스트리에 있는 태그나 별칭이면 레지스트리의 이름으로 바꿉니다. (ex. `리액트` → `React`)
+ */
+export const resolveTag = (registry: Tag[], tag: string) => findTag(registry, tag)?.name ?? normalizeTag(tag)
+
+/**
+ * 별칭으로 입력된 태그까지 포함해 `tag`가 붙은 항목만 남깁니다. (ex. 태그 페이지의 스터디, 행사 목록)
+ */
+export const filterByTag = <T extends { tags: string[] }>(registry: Tag[], items: T[], tag: string) => {
+  const key = toTagKey(resolveTag(registry, tag))
+  return items.filter(({ tags }) => tags.some((current) => toTagKey(resolveTag(registry, current)) === key))
+}
+
+/**
+ * 입력 중인 태그로 시작하거나 포함하는 태그를 추천합니다. 앞부분이 일치하는 태그, 많이 사용된 태그 순입니다.
+ * 입력이 비어 있으면 많이 사용된 태그를 추천하며, 이미 고른 태그는 제외합니다.
+ */
+export function suggestTags(registry: Tag[], input: string, selected: string[] = []) {
+  const key = toTagKey(input)
+  const rank = ({ name, aliases }: Tag) => {
+    const keys = [name, ...aliases].map(toTagKey)
+    if (keys.some((current) => current.startsWith(key))) return 0
+    if (keys.some((current) => current.includes(key))) return 1
+    return null
+  }
+
+  return registry
+    .filter(({ name }) => !hasTag(selected, name))
+    .map((tag) => ({ tag, rank: rank(tag) }))
+    .filter((item): item is { tag: Tag; rank: number } => item.rank !== null)
+    .sort((a, b) => a.rank - b.rank || getTagUsage(b.tag) - getTagUsage(a.tag))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ tag }) => tag)
+}
+
+// 관리자의 태그 이름 변경
+export const tagNameSchema = z
+  .string()
+  .transform(normalizeTag)
+  .pipe(
+    z
+      .string()
+      .min(1, { message: '태그 이름을 입력해주세요' })
+      .max(MAX_TAG_LENGTH, { message: `${MAX_TAG_LENGTH}자 이내로 입력해주세요` })
+  )
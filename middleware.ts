@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 
+import { HttpStatusCode } from '@/app/api/utils/httpConsts'
 import { auth } from '@/lib/auth/auth'
+import { findRoutePermission, hasPermission } from '@/lib/auth/permissions'
 
 import { ROUTES } from './constants/routes'
 
@@ -11,10 +13,28 @@ export async function middleware(request: NextRequest) {
   if (!session || session.data === null) {
     return NextResponse.redirect(new URL(ROUTES.LOGIN.url, request.url))
   }
+
+  // 권한이 부족한 경우 URL은 유지한 채 403 페이지를 보여줌
+  const permission = findRoutePermission(request.nextUrl.pathname)
+  if (permission && !hasPermission(session.data, permission)) {
+    const forbiddenUrl = new URL(ROUTES.FORBIDDEN.url, request.url)
+    forbiddenUrl.searchParams.set('required', permission)
+    return NextResponse.rewrite(forbiddenUrl, { status: HttpStatusCode.Forbidden })
+  }
   return NextResponse.next()
 }
 
 // Warning: Caanot use CallExpressions! (고유 문자열 사용하기)
+// 권한이 필요한 경로는 `lib/auth/permissions.ts`의 `ROUTE_PERMISSIONS`에 등록
 export const config = {
-  matcher: ['/mystudy/:path*', '/profile/:path*', '/admin/:path*', '/study/open', '/study/:path*/signup']
+  matcher: [
+    '/mystudy/:path*',
+    '/profile/:path*',
+    '/certificate/:path*',
+    '/admin/:path*',
+    '/study/open',
+    '/study/:path*/signup',
+    '/event/create',
+    '/clubroom/statistics'
+  ]
 }
@@ -3,10 +3,13 @@ import { Role } from '@/types'
 
 export type AuthDataError = CustomError
 export type AuthDataData = {
+  id: number
   username: string
   image?: string | null // 아직 백엔드에서 반영 안됨
   email?: string | null // 아직 백엔드에서 반영 안됨
   role: Role
+  isStaff: boolean // 운영진 여부
+  position: string // 운영진 직책 (ex. 회장, 부회장)
   accessToken: string
   refreshToken: string
 }
@@ -18,6 +18,41 @@ export type User = {
 
 export type UserProfile = Omit<User, 'createdDate' | 'isStaff' | 'modifiedDate' | 'role'>
 
+export type JoinState = 'Accept' | 'Wait' | 'Reject'
+export interface Member extends User {
+  joinState: JoinState
+  // 스터디 신청서의 답변 (신청서를 받지 않는 행사 멤버는 없음)
+  answers?: ApplicationAnswer[]
+  // 참여 신청한 시각, 대기 순서를 정하는 기준입니다.
+  appliedAt?: string
+}
+
+// 스터디 신청서 문항의 종류 (`lib/application.ts`에서 문항별 검증 규칙을 만듭니다)
+export type ApplicationQuestionType = 'SHORT_TEXT' | 'LONG_TEXT' | 'SINGLE_CHOICE' | 'MULTIPLE_CHOICE' | 'GITHUB'
+export interface ApplicationQuestion {
+  id: string
+  type: ApplicationQuestionType
+  title: string
+  required: boolean
+  // 선택형 문항의 보기 (그 외의 문항은 빈 배열)
+  options: string[]
+}
+
+export interface ApplicationAnswer {
+  questionId: string
+  // 복수 선택 문항만 배열로 답합니다.
+  value: string | string[]
+}
+
+// 로그인한 사용자가 제출한 스터디 신청서 (스터디장이 승인/거절하기 전까지만 수정, 취소할 수 있습니다)
+export interface StudyApplication {
+  studyId: number
+  state: JoinState
+  answers: ApplicationAnswer[]
+  createdAt: string
+  editedAt?: string
+}
+
 export type Level = '초급' | '중급' | '고급'
 export type Campus = '공통' | '온라인' | '명륜' | '율전'
 export type Day = '월' | '화' | '수' | '목' | '금' | '토' | '일'
@@ -32,9 +67,118 @@ export type Study = {
   level: Level
   mentor: User
   semester: string
+  year?: number
   tags: string[]
   startTime: string
   title: string
+  // 스터디장이 정한 신청서 문항 (비어 있으면 기본 문항인 지원 동기를 받습니다)
+  applicationQuestions: ApplicationQuestion[]
+  // 최대 참여 인원 (`null`이면 제한 없음)
+  maxMembers: number | null
+  // 주차별 커리큘럼 (스터디장이 정하지 않았으면 비어 있음)
+  curriculum: CurriculumWeek[]
+  // 참여가 승인된 멤버 수
+  memberCount?: number
+  // 스터디장이 스터디를 종료(수료 처리)한 시각, 진행 중이면 `null`
+  closedAt: string | null
+}
+
+// 한국 시간 기준 날짜(`yyyy-MM-dd`) 범위, 시작일과 종료일을 모두 포함합니다.
+export interface Period {
+  start: string
+  end: string
+}
+
+// 관리자가 설정한 학기별 운영 기간
+export interface Semester {
+  id: number
+  year: number
+  // 스터디, 행사의 `semester`와 같은 값 (ex. Spring, Fall)
+  semester: string
+  // 스터디 개설 기간
+  openingPeriod: Period
+  // 스터디 참여 신청 기간
+  applicationPeriod: Period
+  // 스터디, 행사 활동 기간
+  activityPeriod: Period
+}
+
+export interface CurriculumWeek {
+  week: number
+  title: string
+  description: string
+}
+
+// 스터디장이 회차마다 남기는 진행 기록
+export interface SessionLog {
+  id: number
+  // 커리큘럼의 주차 (커리큘럼에 없는 회차는 없음)
+  week?: number
+  // 회차 날짜 (`yyyy-MM-dd`)
+  date: string
+  topic: string
+  // 진행 내용 (마크다운)
+  content: string
+  // 자료 링크
+  materials: string[]
+  // 과제 (마크다운)
+  homework: string
+  createdAt?: string
+}
+
+export type AttendanceStatus = 'PRESENT' | 'LATE' | 'ABSENT'
+
+export interface AttendanceRecord {
+  userId: number
+  status: AttendanceStatus
+}
+
+// 스터디 한 회차의 출석 기록 (출석을 기록한 회차만 내려옵니다)
+export interface AttendanceSession {
+  // 회차 날짜 (`yyyy-MM-dd`)
+  date: string
+  records: AttendanceRecord[]
+}
+
+// 로그인한 사용자의 스터디별 출석 기록
+export interface StudyAttendance {
+  studyId: number
+  records: { date: string; status: AttendanceStatus }[]
+}
+
+// 스터디 종료 시 멤버별 수료 여부와 인정 시간
+export interface StudyCompletion {
+  userId: number
+  completed: boolean
+  hours: number
+}
+
+// 수료한 멤버에게 발급되는 수료증 (발급 당시의 스터디, 멤버 정보를 그대로 보관합니다)
+export interface Certificate {
+  id: number
+  studyId: number
+  studyTitle: string
+  mentorName: string
+  username: string
+  studentId: string
+  year: number
+  semester: string
+  hours: number
+  issuedAt: string
+}
+
+// 태그 레지스트리에 등록된 태그 (같은 의미의 다른 표기는 `aliases`로 합쳐집니다)
+export interface Tag {
+  name: string
+  // 관리자가 합친 다른 표기 (ex. `React`의 `react`, `리액트`)
+  aliases: string[]
+  studyCount: number
+  eventCount: number
+}
+
+export interface StudyWithState {
+  study: Study
+  state: JoinState
 }
 
 export interface Event {
@@ -56,6 +200,30 @@ export interface Event {
   updatedAt?: string
 }
 
+export interface EventWithState {
+  event: Event
+  state: JoinState
+}
+
+// 로그인한 사용자의 스터디/행사 참여 상태 (참여 신청하지 않은 스터디/행사는 포함되지 않음)
+export interface MembershipSummary {
+  studies: { studyId: number; state: JoinState }[]
+  events: { eventId: number; state: JoinState }[]
+}
+
+// 캘린더 구독 피드에 포함되는 일정 (`lib/ical.ts`에서 iCalendar로 변환)
+export interface CalendarFeed {
+  reservations: Reservation[]
+  studies: StudyWithState[]
+  events: EventWithState[]
+}
+
+// 모집이 끝난(`isRecruiting`이 `false`인) 지난 학기의 스터디, 행사 (`lib/archive.ts`에서 학기별로 묶음)
+export interface Archive {
+  studies: Study[]
+  events: Event[]
+}
+
 export type ReservationStatus = 'WAIT' | 'ACCEPT' | 'DECLINE'
 
 export interface Reservation {
@@ -67,6 +235,8 @@ export interface Reservation {
   title: string
   description: string
   isVerified: ReservationStatus
+  // 정기 예약으로 함께 생성된 예약들이 공유하는 id (단일 예약은 `null`)
+  seriesId?: number | null
 }
 
 export interface Post {